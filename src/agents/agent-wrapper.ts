@@ -1,7 +1,7 @@
 // src/agents/agent-wrapper.ts - Multi-Agent System Core
 
 import type { GeminiClient } from '../gemini';
-import type { Workspace } from '../workspace/workspace';
+import type { ScopedWorkspace } from '../workspace/workspace';
 import type { VectorizeIndex } from '@cloudflare/workers-types';
 
 // =============================================================
@@ -71,6 +71,12 @@ export interface AgentResult {
   error?: string;
 }
 
+/**
+ * Where agent definitions live: the static Workspace (unscoped root) or a
+ * tenant's ScopedWorkspace
+ */
+export type AgentStore = Pick<ScopedWorkspace, 'isInitialized' | 'readFileText' | 'readdir' | 'writeFile' | 'exists' | 'unlink'>;
+
 export interface AgentMetrics {
   agentId: string;
   taskType: string;
@@ -86,16 +92,22 @@ export interface AgentMetrics {
 // =============================================================
 
 export class AgentRegistry {
-  private workspace: typeof Workspace;
+  private workspace: AgentStore;
   private gemini: GeminiClient;
   private vectorize: VectorizeIndex | null;
-  private agentCache = new Map<string, AgentWrapper>();
+  private agentCache = new Map<string, { agent: AgentWrapper; loadedAt: number }>();
   private metricsCache = new Map<string, AgentMetrics>();
   
   private readonly agentsPath = 'agents';
 
+  /**
+   * Definitions can be edited from another session or request, so cached
+   * copies are re-read after this long
+   */
+  private readonly cacheTtlMs = 60_000;
+
   constructor(
-    workspace: typeof Workspace,
+    workspace: AgentStore,
     gemini: GeminiClient,
     vectorize: VectorizeIndex | null
   ) {
@@ -109,9 +121,13 @@ export class AgentRegistry {
   // -----------------------------------------------------------
 
   async loadAgent(agentId: string): Promise<AgentWrapper | null> {
+    // Ids become file names; never let one climb out of the agents folder
+    if (!AgentRegistry.isValidId(agentId)) return null;
+
     // Check cache
-    if (this.agentCache.has(agentId)) {
-      return this.agentCache.get(agentId)!;
+    const cached = this.agentCache.get(agentId);
+    if (cached && Date.now() - cached.loadedAt < this.cacheTtlMs) {
+      return cached.agent;
     }
 
     if (!this.workspace.isInitialized()) {
@@ -130,7 +146,7 @@ export class AgentRegistry {
       }
       
       // Cache it
-      this.agentCache.set(agentId, agent);
+      this.agentCache.set(agentId, { agent, loadedAt: Date.now() });
       
       return agent;
     } catch (e) {
@@ -161,6 +177,48 @@ export class AgentRegistry {
     }
   }
 
+  // -----------------------------------------------------------
+  // Agent Management
+  // -----------------------------------------------------------
+
+  /**
+   * Create or replace agents/<id>.json. Throws for definitions that fail
+   * validateAgent or ids that aren't safe filenames.
+   */
+  async saveAgent(agent: unknown): Promise<AgentWrapper> {
+    if (!this.validateAgent(agent)) {
+      throw new Error('Invalid agent definition: id, name, systemPrompt, userPromptTemplate, capabilities[], modelConfig and outputSchema are required');
+    }
+    if (!AgentRegistry.isValidId(agent.id)) {
+      throw new Error(`Invalid agent id "${agent.id}": use letters, digits, "-" and "_"`);
+    }
+
+    await this.workspace.writeFile(
+      `${this.agentsPath}/${agent.id}.json`,
+      JSON.stringify(agent, null, 2),
+      'application/json'
+    );
+    this.agentCache.set(agent.id, { agent, loadedAt: Date.now() });
+    console.log(`[AgentRegistry] Saved agent: ${agent.id}`);
+
+    if (this.vectorize) await this.indexAgent(agent.id);
+    return agent;
+  }
+
+  async deleteAgent(agentId: string): Promise<boolean> {
+    this.agentCache.delete(agentId);
+    const path = `${this.agentsPath}/${agentId}.json`;
+    if (!AgentRegistry.isValidId(agentId) || await this.workspace.exists(path) !== 'file') return false;
+
+    await this.workspace.unlink(path);
+    console.log(`[AgentRegistry] Deleted agent: ${agentId}`);
+    return true;
+  }
+
+  static isValidId(agentId: string): boolean {
+    return /^[\w-]{1,64}$/.test(agentId);
+  }
+
   // -----------------------------------------------------------
   // Agent Search (RAG)
   // -----------------------------------------------------------
@@ -295,7 +353,8 @@ Use cases: ${agent.metadata.useCases.join(', ')}
 
   validateAgent(agent: any): agent is AgentWrapper {
     return !!(
-      agent.id &&
+      agent &&
+      typeof agent.id === 'string' &&
       agent.name &&
       agent.systemPrompt &&
       agent.userPromptTemplate &&
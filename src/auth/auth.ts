@@ -0,0 +1,187 @@
+// src/auth/auth.ts - Request authentication (HS256 JWT + static API keys)
+
+import type { Env } from '../types';
+
+// =============================================================
+// Types
+// =============================================================
+
+export interface AuthIdentity {
+  userId: string;
+  method: 'jwt' | 'api_key' | 'anonymous';
+}
+
+export type AuthOutcome =
+  | { ok: true; identity: AuthIdentity | null }
+  | { ok: false; status: 401; error: string };
+
+interface JwtPayload {
+  sub?: string;
+  exp?: number;
+  nbf?: number;
+  [claim: string]: unknown;
+}
+
+const CLOCK_SKEW_SECONDS = 30;
+
+// =============================================================
+// Authentication
+// =============================================================
+
+/**
+ * Auth is enforced only when JWT_SECRET or API_KEYS is configured
+ */
+export function isAuthEnabled(env: Env): boolean {
+  return !!(env.JWT_SECRET || env.API_KEYS);
+}
+
+/**
+ * Resolve the caller's identity.
+ *
+ * Credentials are read from `Authorization: Bearer <jwt|key>`, `X-API-Key`,
+ * or `?token=` (browsers can't set headers on WebSocket upgrades).
+ * With auth disabled, `X-User-ID`/`user_id` yields an 'anonymous' identity:
+ * anyone can claim any id, so it is only good for labelling sessions.
+ */
+export async function authenticate(request: Request, env: Env): Promise<AuthOutcome> {
+  if (!isAuthEnabled(env)) {
+    const url = new URL(request.url);
+    const userId = request.headers.get('X-User-ID') || url.searchParams.get('user_id');
+    return { ok: true, identity: userId ? { userId, method: 'anonymous' } : null };
+  }
+
+  const token = extractToken(request);
+  if (!token) {
+    return { ok: false, status: 401, error: 'Authentication required' };
+  }
+
+  // JWTs have three dot-separated segments; anything else is treated as an API key
+  if (env.JWT_SECRET && token.split('.').length === 3) {
+    try {
+      const payload = await verifyJwt(token, env.JWT_SECRET);
+      if (!payload.sub) {
+        return { ok: false, status: 401, error: 'Token missing subject' };
+      }
+      return { ok: true, identity: { userId: payload.sub, method: 'jwt' } };
+    } catch (err) {
+      return { ok: false, status: 401, error: err instanceof Error ? err.message : 'Invalid token' };
+    }
+  }
+
+  const userId = matchApiKey(token, env.API_KEYS);
+  if (userId) {
+    return { ok: true, identity: { userId, method: 'api_key' } };
+  }
+
+  return { ok: false, status: 401, error: 'Invalid credentials' };
+}
+
+function extractToken(request: Request): string | null {
+  const header = request.headers.get('Authorization');
+  if (header?.startsWith('Bearer ')) {
+    return header.slice(7).trim() || null;
+  }
+
+  const apiKey = request.headers.get('X-API-Key');
+  if (apiKey) return apiKey.trim();
+
+  return new URL(request.url).searchParams.get('token');
+}
+
+// =============================================================
+// API Keys
+// =============================================================
+
+/**
+ * API_KEYS format: "userId:key,otherUser:otherKey"
+ */
+function matchApiKey(token: string, apiKeys?: string): string | null {
+  if (!apiKeys) return null;
+
+  for (const entry of apiKeys.split(',')) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) continue;
+
+    const userId = entry.slice(0, separator).trim();
+    const key = entry.slice(separator + 1).trim();
+    if (key && timingSafeEqual(token, key)) {
+      return userId;
+    }
+  }
+  return null;
+}
+
+// =============================================================
+// JWT (HS256)
+// =============================================================
+
+export async function verifyJwt(token: string, secret: string): Promise<JwtPayload> {
+  const [headerB64, payloadB64, signatureB64] = token.split('.');
+  if (!headerB64 || !payloadB64 || !signatureB64) {
+    throw new Error('Malformed token');
+  }
+
+  const header = JSON.parse(decodeBase64UrlText(headerB64));
+  if (header.alg !== 'HS256') {
+    throw new Error(`Unsupported token algorithm: ${header.alg}`);
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['verify']
+  );
+
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    key,
+    decodeBase64Url(signatureB64),
+    new TextEncoder().encode(`${headerB64}.${payloadB64}`)
+  );
+  if (!valid) {
+    throw new Error('Invalid token signature');
+  }
+
+  const payload: JwtPayload = JSON.parse(decodeBase64UrlText(payloadB64));
+  const now = Math.floor(Date.now() / 1000);
+
+  if (typeof payload.exp === 'number' && now > payload.exp + CLOCK_SKEW_SECONDS) {
+    throw new Error('Token expired');
+  }
+  if (typeof payload.nbf === 'number' && now + CLOCK_SKEW_SECONDS < payload.nbf) {
+    throw new Error('Token not yet valid');
+  }
+
+  return payload;
+}
+
+// =============================================================
+// Utilities
+// =============================================================
+
+function decodeBase64Url(input: string): ArrayBuffer {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer as ArrayBuffer;
+}
+
+function decodeBase64UrlText(input: string): string {
+  return new TextDecoder().decode(decodeBase64Url(input));
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  const aBytes = new TextEncoder().encode(a);
+  const bBytes = new TextEncoder().encode(b);
+  let diff = aBytes.length ^ bBytes.length;
+  for (let i = 0; i < Math.max(aBytes.length, bBytes.length); i++) {
+    diff |= (aBytes[i] ?? 0) ^ (bBytes[i] ?? 0);
+  }
+  return diff === 0;
+}
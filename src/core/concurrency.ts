@@ -0,0 +1,66 @@
+// src/core/concurrency.ts - Bounded concurrency helpers
+
+/**
+ * Map items through an async function with at most `limit` in flight.
+ * Results are returned in input order regardless of completion order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const workerCount = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+/**
+ * Run items concurrently, except that items sharing a key run one after
+ * another in their original order. Items with a null key are independent.
+ * Results are returned in input order.
+ */
+export async function mapWithKeyedSerialization<T, R>(
+  items: T[],
+  limit: number,
+  keyOf: (item: T) => string | null,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  // Group items into lanes; each lane occupies one concurrency slot
+  const lanes: number[][] = [];
+  const laneByKey = new Map<string, number[]>();
+
+  items.forEach((item, index) => {
+    const key = keyOf(item);
+    if (key === null) {
+      lanes.push([index]);
+      return;
+    }
+    let lane = laneByKey.get(key);
+    if (!lane) {
+      lane = [];
+      laneByKey.set(key, lane);
+      lanes.push(lane);
+    }
+    lane.push(index);
+  });
+
+  const results = new Array<R>(items.length);
+
+  await mapWithConcurrency(lanes, limit, async (lane) => {
+    for (const index of lane) {
+      results[index] = await fn(items[index], index);
+    }
+  });
+
+  return results;
+}
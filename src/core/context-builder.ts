@@ -0,0 +1,399 @@
+// src/core/context-builder.ts - Token-aware conversation context with rolling summaries
+
+import type { GeminiClient, ConversationMessage } from '../gemini';
+import type { DurableStorage } from '../durable-storage';
+import type { MemoryManager } from '../memory/memory-manager';
+import type { Message, MessagePart } from '../types';
+
+/**
+ * Summary of a compacted span of conversation
+ */
+export interface ContextSummary {
+  fromTimestamp: number;
+  toTimestamp: number;
+  messageCount: number;
+  content: string;
+  createdAt: number;
+}
+
+/**
+ * Compaction state persisted in Durable Object storage
+ */
+export interface CompactionState {
+  version: 1;
+  summaries: ContextSummary[];
+  compactedThrough: number; // Timestamp of the last summarized message
+  compactedMessages: number;
+  lastCompactedAt?: number;
+}
+
+/**
+ * Token accounting for the most recently built context
+ */
+export interface ContextReport {
+  estimatedTokens: number;
+  budgetTokens: number;
+  verbatimMessages: number;
+  verbatimTokens: number;
+  summaryCount: number;
+  summaryTokens: number;
+  memoryTokens: number;
+  compactedMessages: number;
+  compactedThrough: number;
+  lastCompactedAt?: number;
+}
+
+export interface ContextBuilderOptions {
+  maxContextTokens: number;  // Total budget for history (excluding system prompt)
+  recentTokens: number;      // Budget for verbatim recent turns
+  minRecentMessages: number; // Always keep at least this many turns verbatim
+  maxSummaries: number;      // Older summaries are merged beyond this count
+  memoryResults: number;
+}
+
+const DEFAULT_OPTIONS: ContextBuilderOptions = {
+  maxContextTokens: 32000,
+  recentTokens: 16000,
+  minRecentMessages: 6,
+  maxSummaries: 4,
+  memoryResults: 3,
+};
+
+const CONTEXT_STATE_KEY = 'context_state';
+
+/**
+ * Rough token estimate (~4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Builds the history sent with each admin turn.
+ *
+ * Recent turns are kept verbatim; once they exceed the recent budget the
+ * older span is summarized with Gemini and stored as a rolling summary.
+ * functionCall/functionResponse pairs are never split across the boundary.
+ * The assembled context is trimmed to maxContextTokens.
+ */
+export class ContextBuilder {
+  private options: ContextBuilderOptions;
+  private lastReport: ContextReport | null = null;
+
+  constructor(
+    private storage: DurableStorage,
+    private gemini: GeminiClient,
+    private memory: MemoryManager | null,
+    options: Partial<ContextBuilderOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  // -----------------------------------------------------------
+  // Context Assembly
+  // -----------------------------------------------------------
+
+  /**
+   * Build history for the next turn. Expects the current user message to
+   * already be saved, so it is the last verbatim turn.
+   */
+  async build(query: string, signal?: AbortSignal): Promise<ConversationMessage[]> {
+    const state = await this.loadState();
+    const uncompacted = this.storage
+      .getMessages()
+      .filter(m => (m.timestamp ?? 0) > state.compactedThrough);
+
+    let verbatim = uncompacted;
+
+    if (this.estimateMessages(uncompacted) > this.options.recentTokens) {
+      const boundary = this.findBoundary(uncompacted);
+      const older = uncompacted.slice(0, boundary);
+
+      if (older.length > 0) {
+        try {
+          await this.compact(state, older, signal);
+          verbatim = uncompacted.slice(boundary);
+        } catch (err) {
+          signal?.throwIfAborted();
+          console.error('[Context] Compaction failed, trimming instead:', err);
+          verbatim = uncompacted.slice(boundary);
+        }
+      }
+    }
+
+    // Relevant older snippets from semantic memory
+    let memoryContext = await this.loadMemoryContext(query);
+    let summaries = state.summaries.map(s => s.content);
+
+    // Fit maxContextTokens: shorten memory, then drop the oldest summaries,
+    // then the oldest verbatim turns. The current message is always kept.
+    const budget = this.options.maxContextTokens;
+    let verbatimTokens = this.estimateMessages(verbatim);
+    let summaryTokens = estimateTokens(summaries.join('\n\n'));
+
+    const memoryRoom = budget - verbatimTokens - summaryTokens;
+    if (estimateTokens(memoryContext) > memoryRoom) {
+      memoryContext = memoryRoom > 0 ? memoryContext.slice(0, memoryRoom * 4) : '';
+    }
+    while (summaries.length > 0 && verbatimTokens + summaryTokens > budget) {
+      summaries = summaries.slice(1);
+      summaryTokens = estimateTokens(summaries.join('\n\n'));
+    }
+    while (verbatim.length > 1 && verbatimTokens > budget) {
+      verbatimTokens -= this.estimateMessage(verbatim[0]);
+      verbatim = verbatim.slice(1);
+    }
+    if (verbatimTokens + summaryTokens + estimateTokens(memoryContext) > budget) {
+      console.warn(`[Context] Latest message alone exceeds the ${budget} token budget`);
+    }
+
+    const summaryText = summaries.join('\n\n');
+    const messages: ConversationMessage[] = [];
+
+    if (summaryText) {
+      messages.push({ role: 'user', content: `[Summary of earlier conversation]\n${summaryText}` });
+    }
+    if (memoryContext) {
+      messages.push({ role: 'user', content: `[Memory]\n${memoryContext}` });
+    }
+    messages.push(...this.toConversation(verbatim));
+
+    const memoryTokens = estimateTokens(memoryContext);
+
+    this.lastReport = {
+      estimatedTokens: verbatimTokens + summaryTokens + memoryTokens,
+      budgetTokens: budget,
+      verbatimMessages: verbatim.length,
+      verbatimTokens,
+      summaryCount: summaries.length,
+      summaryTokens,
+      memoryTokens,
+      compactedMessages: state.compactedMessages,
+      compactedThrough: state.compactedThrough,
+      lastCompactedAt: state.lastCompactedAt,
+    };
+
+    return messages;
+  }
+
+  /**
+   * Report for getStatus(); estimates from storage if no turn has run yet
+   */
+  async getReport(): Promise<ContextReport> {
+    if (this.lastReport) return this.lastReport;
+
+    const state = await this.loadState();
+    const uncompacted = this.storage
+      .getMessages()
+      .filter(m => (m.timestamp ?? 0) > state.compactedThrough);
+    const verbatimTokens = this.estimateMessages(uncompacted);
+    const summaryTokens = estimateTokens(state.summaries.map(s => s.content).join('\n\n'));
+
+    return {
+      estimatedTokens: verbatimTokens + summaryTokens,
+      budgetTokens: this.options.maxContextTokens,
+      verbatimMessages: uncompacted.length,
+      verbatimTokens,
+      summaryCount: state.summaries.length,
+      summaryTokens,
+      memoryTokens: 0,
+      compactedMessages: state.compactedMessages,
+      compactedThrough: state.compactedThrough,
+      lastCompactedAt: state.lastCompactedAt,
+    };
+  }
+
+  async reset(): Promise<void> {
+    this.lastReport = null;
+    await this.storage.deleteValue(CONTEXT_STATE_KEY);
+  }
+
+  // -----------------------------------------------------------
+  // Compaction
+  // -----------------------------------------------------------
+
+  /**
+   * Index of the first verbatim message: walk back from the end within the
+   * recent budget, then move back so a functionResponse keeps its call.
+   */
+  private findBoundary(messages: Message[]): number {
+    let tokens = 0;
+    let boundary = messages.length;
+
+    while (boundary > 0) {
+      const next = this.estimateMessage(messages[boundary - 1]);
+      const kept = messages.length - boundary;
+      if (kept >= this.options.minRecentMessages && tokens + next > this.options.recentTokens) {
+        break;
+      }
+      tokens += next;
+      boundary--;
+    }
+
+    while (boundary > 0 && messages[boundary]?.parts?.some(p => p.functionResponse)) {
+      boundary--;
+    }
+
+    return boundary;
+  }
+
+  private async compact(
+    state: CompactionState,
+    older: Message[],
+    signal?: AbortSignal
+  ): Promise<void> {
+    console.log(`[Context] Compacting ${older.length} messages`);
+
+    const content = await this.summarize(this.renderTranscript(older), signal);
+
+    state.summaries.push({
+      fromTimestamp: older[0].timestamp ?? 0,
+      toTimestamp: older[older.length - 1].timestamp ?? 0,
+      messageCount: older.length,
+      content,
+      createdAt: Date.now(),
+    });
+    state.compactedThrough = older[older.length - 1].timestamp ?? state.compactedThrough;
+    state.compactedMessages += older.length;
+    state.lastCompactedAt = Date.now();
+
+    // Roll the oldest summaries into one once there are too many
+    if (state.summaries.length > this.options.maxSummaries) {
+      const merged = state.summaries.splice(0, state.summaries.length - this.options.maxSummaries + 1);
+      const mergedContent = await this.summarize(
+        merged.map(s => s.content).join('\n\n'),
+        signal
+      );
+      state.summaries.unshift({
+        fromTimestamp: merged[0].fromTimestamp,
+        toTimestamp: merged[merged.length - 1].toTimestamp,
+        messageCount: merged.reduce((sum, s) => sum + s.messageCount, 0),
+        content: mergedContent,
+        createdAt: Date.now(),
+      });
+    }
+
+    await this.storage.saveValue(CONTEXT_STATE_KEY, state);
+  }
+
+  private async summarize(transcript: string, signal?: AbortSignal): Promise<string> {
+    const prompt = `Summarize the following conversation between a user and an AI assistant so the assistant can continue without the original messages.
+
+Keep: the user's goals and preferences, decisions made, task IDs and plans, step progress, file/artifact names, open questions.
+Drop: pleasantries and verbatim tool output.
+Write concise bullet points.
+
+${transcript}`;
+
+    const response = await this.gemini.generateWithNativeTools(
+      [{ role: 'user', content: prompt }],
+      {
+        temperature: 0.2,
+        maxOutputTokens: 2048,
+        thinkingConfig: { thinkingBudget: 0, includeThoughts: false },
+        signal,
+      }
+    );
+
+    const text = response.text.trim();
+    if (!text) {
+      throw new Error('Empty summary returned');
+    }
+    return text;
+  }
+
+  private renderTranscript(messages: Message[]): string {
+    const lines: string[] = [];
+
+    for (const msg of messages) {
+      const speaker = msg.role === 'model' ? 'Assistant' : 'User';
+      for (const part of msg.parts ?? []) {
+        if (part.text) {
+          lines.push(`${speaker}: ${part.text}`);
+        } else if (part.functionCall) {
+          const args = JSON.stringify(part.functionCall.args).substring(0, 300);
+          lines.push(`Assistant called ${part.functionCall.name}(${args})`);
+        } else if (part.functionResponse) {
+          const summary = part.functionResponse.response?.summary ?? '';
+          lines.push(`Result of ${part.functionResponse.name}: ${String(summary).substring(0, 500)}`);
+        }
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  // -----------------------------------------------------------
+  // Helpers
+  // -----------------------------------------------------------
+
+  private async loadMemoryContext(query: string): Promise<string> {
+    if (!this.memory) return '';
+
+    const sections: string[] = [];
+
+    // Memories shared across the user's sessions
+    const userMemories = await this.memory.loadUserMemories();
+    if (userMemories.length > 0) {
+      sections.push(`What you know about this user:\n${userMemories.map(m => `- ${m.content}`).join('\n')}`);
+    }
+
+    const relevant = await this.loadRelevantMemories(query);
+    if (relevant) sections.push(relevant);
+
+    return sections.join('\n\n');
+  }
+
+  private async loadRelevantMemories(query: string): Promise<string> {
+    if (!this.memory || !query.trim()) return '';
+
+    try {
+      const context = await this.memory.buildContext(query, {
+        maxResults: this.options.memoryResults,
+        includeTimestamp: true,
+      });
+      return context.startsWith('No relevant') ? '' : context;
+    } catch (err) {
+      console.warn('[Context] Memory context failed:', err);
+      return '';
+    }
+  }
+
+  /**
+   * Convert stored history to Gemini turns, preserving native parts.
+   * A leading functionResponse turn whose call was compacted is dropped.
+   */
+  private toConversation(messages: Message[]): ConversationMessage[] {
+    const start = messages.findIndex(msg => !msg.parts?.some(p => p.functionResponse));
+    if (start === -1) return [];
+
+    return messages.slice(start).map(msg => ({
+      role: msg.role === 'model' ? 'model' : 'user',
+      ...(msg.parts ? { parts: msg.parts } : { content: msg.content ?? '' }),
+    }));
+  }
+
+  private estimateMessages(messages: Message[]): number {
+    return messages.reduce((sum, msg) => sum + this.estimateMessage(msg), 0);
+  }
+
+  private estimateMessage(msg: Message): number {
+    if (!msg.parts) return estimateTokens(msg.content ?? '');
+    return msg.parts.reduce((sum, part) => sum + this.estimatePart(part), 0);
+  }
+
+  private estimatePart(part: MessagePart): number {
+    if (part.text) return estimateTokens(part.text);
+    if (part.functionCall) return estimateTokens(JSON.stringify(part.functionCall));
+    if (part.functionResponse) return estimateTokens(JSON.stringify(part.functionResponse));
+    return 0; // Inline/file data is billed separately by the API
+  }
+
+  private async loadState(): Promise<CompactionState> {
+    const stored = await this.storage.loadValue<CompactionState>(CONTEXT_STATE_KEY);
+    if (stored?.version === 1 && Array.isArray(stored.summaries)) {
+      return stored;
+    }
+    return { version: 1, summaries: [], compactedThrough: 0, compactedMessages: 0 };
+  }
+}
@@ -2,20 +2,30 @@
 
 export type ConversationPhase = 'discovery' | 'planning' | 'execution' | 'review' | 'delivery';
 
-interface PhaseTransition {
+export interface PhaseTransition {
   from: ConversationPhase;
   to: ConversationPhase;
   timestamp: number;
   reason: string;
 }
 
-interface PhaseContext {
+export interface PhaseContext {
   currentPhase: ConversationPhase;
   activeTaskId?: string;
   currentStepNumber?: number;
   history: PhaseTransition[];
 }
 
+/**
+ * Serialized phase state as persisted in Durable Object storage
+ */
+export interface PhaseSnapshot extends PhaseContext {
+  version: 1;
+  savedAt: number;
+}
+
+const PHASES: ConversationPhase[] = ['discovery', 'planning', 'execution', 'review', 'delivery'];
+
 /**
  * Manages conversation phases for the admin agent
  * Tracks state transitions and provides context for decision-making
@@ -30,6 +40,25 @@ export class PhaseManager {
     this.currentPhase = initialPhase;
   }
 
+  /**
+   * Rebuild a manager from a persisted snapshot.
+   * Falls back to a fresh discovery phase when the snapshot is unusable.
+   */
+  static fromSnapshot(snapshot: PhaseSnapshot | null | undefined): PhaseManager {
+    if (!snapshot || !PHASES.includes(snapshot.currentPhase)) {
+      return new PhaseManager('discovery');
+    }
+
+    const manager = new PhaseManager(snapshot.currentPhase);
+    manager.activeTaskId = snapshot.activeTaskId;
+    manager.currentStepNumber = snapshot.currentStepNumber;
+    manager.transitionHistory = Array.isArray(snapshot.history)
+      ? snapshot.history.filter(t => PHASES.includes(t.from) && PHASES.includes(t.to))
+      : [];
+
+    return manager;
+  }
+
   /**
    * Get current phase
    */
@@ -92,6 +121,17 @@ export class PhaseManager {
     };
   }
 
+  /**
+   * Serialize full state for persistence
+   */
+  toSnapshot(): PhaseSnapshot {
+    return {
+      version: 1,
+      savedAt: Date.now(),
+      ...this.getContext()
+    };
+  }
+
   /**
    * Reset to initial phase
    */
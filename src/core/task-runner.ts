@@ -0,0 +1,483 @@
+// src/core/task-runner.ts - Alarm-driven background execution of planned tasks
+
+import type { DurableStorage } from '../durable-storage';
+import type { AdminToolRegistry } from '../tools-v2/tool-registry';
+import type { ToolResult } from '../tools-v2/tool-types';
+import type { ReviewDefect, StepReview, TodoStep, TodoStructure } from '../tools-v2/planned-tasks-tool';
+import type { WorkerResult } from '../workers/worker-types';
+import type { WSOutgoingMessage } from '../types';
+
+export type TaskRunStatus = 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Persisted state of a background task run
+ */
+export interface TaskRunState {
+  taskId: string;
+  status: TaskRunStatus;
+  totalSteps: number;
+  completedSteps: number[];
+  currentStep?: number;
+  pausedAtStep?: number;
+  error?: string;
+  startedAt: number;
+  updatedAt: number;
+}
+
+export interface TaskRunnerHooks {
+  broadcast: (message: WSOutgoingMessage) => void;
+  onToolResult?: (toolName: string, result: ToolResult) => void | Promise<void>;
+}
+
+const RUN_KEY_PREFIX = 'task_run:';
+const ACTIVE_RUN_KEY = 'task_run:active';
+// Placeholder new_task gives steps created without a worker type
+const UNASSIGNED_WORKER = 'agent';
+const LEASE_OWNER = 'task-runner';
+const LEASE_SECONDS = 300;
+
+/**
+ * Executes a planned task one step per alarm tick.
+ *
+ * Each tick loads todo.json, delegates the next pending step to a worker,
+ * saves the output with artifact_tool and marks the step complete.
+ * Runs pause after checkpoint steps until the user resumes them.
+ * Steps with requireReview are checked by the review worker after each
+ * attempt and re-run with the defects it found until a review passes or
+ * planned_tasks fails the step for running out of rework.
+ * Each step holds the task's lease (planned_tasks lock_task), renewed
+ * while the worker runs, so other sessions can't update the task mid-step.
+ */
+export class TaskRunner {
+  private controller: AbortController | null = null;
+
+  constructor(
+    private storage: DurableStorage,
+    private tools: AdminToolRegistry,
+    private hooks: TaskRunnerHooks
+  ) {}
+
+  // -----------------------------------------------------------
+  // Run Lifecycle
+  // -----------------------------------------------------------
+
+  /**
+   * Start a new run or resume a paused one
+   */
+  async start(taskId: string): Promise<TaskRunState> {
+    const activeId = await this.storage.loadValue<string>(ACTIVE_RUN_KEY);
+    if (activeId && activeId !== taskId) {
+      const active = await this.getRun(activeId);
+      if (active?.status === 'running' || active?.status === 'paused') {
+        throw new Error(`Another task run is active: ${activeId}`);
+      }
+    }
+
+    const existing = await this.getRun(taskId);
+    if (existing?.status === 'running') return existing;
+
+    const todo = await this.loadTodo(taskId);
+    const now = Date.now();
+
+    const run: TaskRunState = {
+      taskId,
+      status: 'running',
+      totalSteps: todo.steps.length,
+      completedSteps: todo.steps
+        .filter(s => s.status === 'completed' || s.status === 'skipped')
+        .map(s => s.number),
+      startedAt: existing?.startedAt ?? now,
+      updatedAt: now,
+    };
+
+    await this.storage.saveValue(ACTIVE_RUN_KEY, taskId);
+    await this.saveRun(run);
+
+    console.log(`[TaskRunner] ${existing ? 'Resumed' : 'Started'} run for ${taskId}`);
+    return run;
+  }
+
+  /**
+   * Stop a run; aborts the in-flight step if one is executing
+   */
+  async cancel(taskId: string): Promise<TaskRunState | null> {
+    const run = await this.getRun(taskId);
+    if (!run) return null;
+
+    if (run.status === 'running' || run.status === 'paused') {
+      this.controller?.abort(new DOMException('Task run cancelled', 'AbortError'));
+      run.status = 'cancelled';
+      run.updatedAt = Date.now();
+      await this.saveRun(run);
+      await this.clearActive(taskId);
+    }
+
+    return run;
+  }
+
+  async getRun(taskId: string): Promise<TaskRunState | null> {
+    return this.storage.loadValue<TaskRunState>(RUN_KEY_PREFIX + taskId);
+  }
+
+  /**
+   * True when the active run wants another alarm tick
+   */
+  async hasPendingWork(): Promise<boolean> {
+    const activeId = await this.storage.loadValue<string>(ACTIVE_RUN_KEY);
+    if (!activeId) return false;
+    const run = await this.getRun(activeId);
+    return run?.status === 'running';
+  }
+
+  // -----------------------------------------------------------
+  // Alarm Tick
+  // -----------------------------------------------------------
+
+  /**
+   * Execute the next pending step of the active run (if any)
+   */
+  async tick(): Promise<void> {
+    if (this.controller) return; // A step is already executing
+
+    const activeId = await this.storage.loadValue<string>(ACTIVE_RUN_KEY);
+    if (!activeId) return;
+
+    const run = await this.getRun(activeId);
+    if (!run || run.status !== 'running') return;
+
+    this.controller = new AbortController();
+    const signal = this.controller.signal;
+
+    try {
+      const todo = await this.loadTodo(run.taskId);
+      run.totalSteps = todo.steps.length;
+
+      const step = todo.steps.find(s => s.status !== 'completed' && s.status !== 'skipped');
+      if (!step) {
+        await this.finish(run, 'completed');
+        return;
+      }
+
+      const leaseToken = await this.acquireLease(run.taskId);
+      if (!leaseToken) {
+        // Someone else holds the task; the next alarm tick tries again
+        console.log(`[TaskRunner] ${run.taskId} is locked, deferring step ${step.number}`);
+        return;
+      }
+
+      run.currentStep = step.number;
+      await this.saveRun(run);
+
+      let outputs: string[];
+      const renewal = setInterval(() => {
+        this.acquireLease(run.taskId, leaseToken).then(token => {
+          if (!token) this.controller?.abort(new Error(`Lost the lease on ${run.taskId}`));
+        }).catch(error => console.warn(`[TaskRunner] Lease renewal failed for ${run.taskId}:`, error));
+      }, LEASE_SECONDS * 1000 / 3);
+
+      try {
+        outputs = await this.executeStep(todo, step, leaseToken, signal);
+      } finally {
+        clearInterval(renewal);
+        await this.tools.executeTool('planned_tasks', { action: 'unlock_task', taskId: run.taskId, leaseToken })
+          .catch(error => console.warn(`[TaskRunner] Failed to release lease on ${run.taskId}:`, error));
+      }
+
+      // The run may have been cancelled while the worker was executing
+      const latest = await this.getRun(run.taskId);
+      if (latest?.status !== 'running') return;
+
+      run.completedSteps = Array.from(new Set([...run.completedSteps, step.number]));
+      const remaining = todo.steps.filter(
+        s => s.number !== step.number && s.status !== 'completed' && s.status !== 'skipped'
+      );
+
+      this.hooks.broadcast({
+        type: 'step_complete',
+        stepNumber: step.number,
+        stepTitle: step.title,
+        outputs,
+        nextStepReady: remaining.length > 0 && !step.checkpoint,
+      });
+
+      if (remaining.length === 0) {
+        await this.finish(run, 'completed');
+      } else if (step.checkpoint) {
+        run.status = 'paused';
+        run.pausedAtStep = step.number;
+        run.currentStep = undefined;
+        await this.saveRun(run);
+        console.log(`[TaskRunner] Paused ${run.taskId} at checkpoint step ${step.number}`);
+      } else {
+        run.currentStep = undefined;
+        await this.saveRun(run);
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        console.log(`[TaskRunner] Step cancelled for ${run.taskId}`);
+        return;
+      }
+      console.error(`[TaskRunner] Run ${run.taskId} failed:`, error);
+      run.error = error instanceof Error ? error.message : String(error);
+      await this.finish(run, 'failed');
+    } finally {
+      this.controller = null;
+    }
+  }
+
+  // -----------------------------------------------------------
+  // Step Execution
+  // -----------------------------------------------------------
+
+  private async executeStep(
+    todo: TodoStructure,
+    step: TodoStep,
+    leaseToken: string,
+    signal: AbortSignal
+  ): Promise<string[]> {
+    this.hooks.broadcast({ type: 'step_started', stepNumber: step.number, stepTitle: step.title });
+
+    await this.runTool('planned_tasks', {
+      action: 'update_task',
+      taskId: todo.taskId,
+      leaseToken,
+      stepNumber: step.number,
+      stepStatus: 'in_progress',
+    }, signal);
+
+    // Built-in types and custom agent ids are resolved by delegate_to_worker
+    const workerType = step.workerType && step.workerType !== UNASSIGNED_WORKER
+      ? step.workerType
+      : 'research';
+
+    const filename = `step-${step.number}-${slugify(step.title) || 'output'}.md`;
+    const outputs = new Set<string>();
+    let defects: ReviewDefect[] = [];
+
+    for (;;) {
+      const saved = await this.runWorker(todo, step, workerType, filename, defects, leaseToken, signal);
+      [filename, ...saved].forEach(output => outputs.add(output));
+      if (!step.requireReview) break;
+
+      const { review, stepStatus } = await this.reviewStep(todo, step, leaseToken, signal);
+      if (review.verdict === 'pass') break;
+      if (stepStatus === 'failed') {
+        throw new Error(`Step ${step.number} failed review ${review.attempt} times: ${review.summary ?? 'no summary'}`);
+      }
+
+      defects = review.defects;
+      console.log(`[TaskRunner] Step ${step.number} of ${todo.taskId} failed review ${review.attempt}, reworking`);
+    }
+
+    await this.runTool('planned_tasks', {
+      action: 'update_task',
+      taskId: todo.taskId,
+      leaseToken,
+      stepNumber: step.number,
+      stepStatus: 'completed',
+      stepOutput: `Output saved to artifacts/${filename}`,
+    }, signal);
+
+    return [...outputs];
+  }
+
+  /**
+   * One attempt at the step; a rework attempt gets the review's defects
+   * as extra constraints. Returns the artifacts the worker saved.
+   */
+  private async runWorker(
+    todo: TodoStructure,
+    step: TodoStep,
+    workerType: string,
+    filename: string,
+    defects: ReviewDefect[],
+    leaseToken: string,
+    signal: AbortSignal
+  ): Promise<string[]> {
+    const delegation = await this.tools.executeTool('delegate_to_worker', {
+      worker_type: workerType,
+      objective: step.objective || step.title,
+      step_description: this.buildStepDescription(todo, step, defects.length > 0),
+      constraints: [...(step.requirements ?? []), ...defects.map(formatDefect)],
+      task_id: todo.taskId,
+      step_number: step.number,
+    }, { signal });
+    await this.hooks.onToolResult?.('delegate_to_worker', delegation);
+
+    signal.throwIfAborted();
+
+    const worker = delegation.data as WorkerResult | null;
+    if (!delegation.success || !worker) {
+      return this.failStep(todo, step, leaseToken, delegation.summary, signal);
+    }
+
+    await this.runTool('artifact_tool', {
+      action: 'write',
+      taskId: todo.taskId,
+      filename,
+      content: this.renderStepArtifact(step, workerType, worker),
+      mimeType: 'text/markdown',
+      author: workerType,
+      stepNumber: step.number,
+    }, signal);
+
+    const saved: string[] = delegation.metadata?.savedArtifacts ?? [];
+    return saved.map(path => path.replace(/^artifacts\//, ''));
+  }
+
+  /**
+   * Have the review worker judge the step's outputs and record its verdict
+   */
+  private async reviewStep(
+    todo: TodoStructure,
+    step: TodoStep,
+    leaseToken: string,
+    signal: AbortSignal
+  ): Promise<{ review: StepReview; stepStatus: TodoStep['status'] }> {
+    // Objective, requirements and the step's outputs are injected by delegate_to_worker
+    const delegation = await this.tools.executeTool('delegate_to_worker', {
+      worker_type: 'review',
+      objective: `Review the outputs of step ${step.number}: ${step.title}`,
+      task_id: todo.taskId,
+      step_number: step.number,
+    }, { signal });
+    await this.hooks.onToolResult?.('delegate_to_worker', delegation);
+
+    signal.throwIfAborted();
+
+    const reviewId: string | undefined = delegation.metadata?.reviewId;
+    if (!delegation.success || !reviewId) {
+      return this.failStep(todo, step, leaseToken, `Review failed: ${delegation.summary}`, signal);
+    }
+
+    const recorded = await this.runTool('planned_tasks', {
+      action: 'record_review',
+      taskId: todo.taskId,
+      leaseToken,
+      stepNumber: step.number,
+      reviewId,
+    }, signal);
+    return recorded.data;
+  }
+
+  private async failStep(
+    todo: TodoStructure,
+    step: TodoStep,
+    leaseToken: string,
+    reason: string,
+    signal: AbortSignal
+  ): Promise<never> {
+    await this.runTool('planned_tasks', {
+      action: 'update_task',
+      taskId: todo.taskId,
+      leaseToken,
+      stepNumber: step.number,
+      stepStatus: 'failed',
+      stepOutput: reason,
+    }, signal);
+    throw new Error(`Step ${step.number} failed: ${reason}`);
+  }
+
+  /**
+   * Execute a tool and throw when it fails so the run is marked failed
+   */
+  private async runTool(name: string, args: any, signal: AbortSignal): Promise<ToolResult> {
+    const result = await this.tools.executeTool(name, args, { signal });
+    await this.hooks.onToolResult?.(name, result);
+
+    if (!result.success) {
+      throw new Error(result.summary);
+    }
+    return result;
+  }
+
+  /**
+   * Take or renew the task's lease; null when another holder has it
+   */
+  private async acquireLease(taskId: string, leaseToken?: string): Promise<string | null> {
+    const result = await this.tools.executeTool('planned_tasks', {
+      action: 'lock_task',
+      taskId,
+      owner: LEASE_OWNER,
+      leaseSeconds: LEASE_SECONDS,
+      leaseToken,
+    });
+    return result.success ? result.metadata?.leaseToken ?? null : null;
+  }
+
+  private async loadTodo(taskId: string): Promise<TodoStructure> {
+    const result = await this.tools.executeTool('planned_tasks', { action: 'load_task', taskId });
+    if (!result.success || !result.data?.todo) {
+      throw new Error(result.summary || `Task not found: ${taskId}`);
+    }
+    return result.data.todo as TodoStructure;
+  }
+
+  private buildStepDescription(todo: TodoStructure, step: TodoStep, rework: boolean): string {
+    // Task overview and earlier outputs are injected by delegate_to_worker
+    const lines = [`Step ${step.number} of ${todo.steps.length}: ${step.title}`];
+    if (step.objective) lines.push(`Objective: ${step.objective}`);
+    if (step.outputs?.length) lines.push(`Expected outputs: ${step.outputs.join(', ')}`);
+    if (rework) lines.push('Rework: the previous attempt failed review. Redo the step and fix every defect listed in the constraints.');
+    return lines.join('\n');
+  }
+
+  private renderStepArtifact(step: TodoStep, workerType: string, worker: WorkerResult): string {
+    const lines = [
+      `# Step ${step.number}: ${step.title}`,
+      '',
+      `**Worker:** ${workerType} · ${worker.metadata.turnsUsed} turns`,
+      '',
+      '## Output',
+      '',
+      worker.output,
+    ];
+
+    if (worker.parsed !== undefined) {
+      lines.push('', '## Structured result', '', '```json', JSON.stringify(worker.parsed, null, 2), '```');
+    }
+
+    for (const artifact of worker.artifacts) {
+      if (artifact.path) {
+        lines.push('', `## ${artifact.title}`, '', `Saved as \`${artifact.path}\``);
+        continue;
+      }
+      const language = artifact.metadata?.language ?? '';
+      lines.push('', `## ${artifact.title}`, '', '```' + language, artifact.content, '```');
+    }
+    return lines.join('\n');
+  }
+
+  // -----------------------------------------------------------
+  // Persistence
+  // -----------------------------------------------------------
+
+  private async finish(run: TaskRunState, status: 'completed' | 'failed'): Promise<void> {
+    run.status = status;
+    run.currentStep = undefined;
+    await this.saveRun(run);
+    await this.clearActive(run.taskId);
+    console.log(`[TaskRunner] Run ${run.taskId} ${status}`);
+  }
+
+  private async saveRun(run: TaskRunState): Promise<void> {
+    run.updatedAt = Date.now();
+    await this.storage.saveValue(RUN_KEY_PREFIX + run.taskId, run);
+    this.hooks.broadcast({ type: 'task_run', run });
+  }
+
+  private async clearActive(taskId: string): Promise<void> {
+    const activeId = await this.storage.loadValue<string>(ACTIVE_RUN_KEY);
+    if (activeId === taskId) {
+      await this.storage.deleteValue(ACTIVE_RUN_KEY);
+    }
+  }
+}
+
+function formatDefect(defect: ReviewDefect): string {
+  return `Fix (${defect.severity}): ${defect.description}${defect.location ? ` [${defect.location}]` : ''}`;
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, '-').replace(/[^\w-]/g, '').replace(/--+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+}
@@ -5,6 +5,8 @@ import type { DurableObjectState } from '@cloudflare/workers-types';
 import type {
   Env,
   Message,
+  MessagePart,
+  MemoryEntry,
   Artifact,
   WSOutgoingMessage,
   WSIncomingMessage,
@@ -13,16 +15,42 @@ import type {
   StatusResponse,
   FileMetadata,
 } from './types';
-import { GeminiClient } from './gemini';
+import { GeminiClient, type ConversationMessage } from './gemini';
 import { DurableStorage } from './durable-storage';
-import { D1Manager } from './storage/d1-manager';
+import { D1Manager, DEFAULT_SESSION_TITLE } from './storage/d1-manager';
 import { MemoryManager } from './memory/memory-manager';
+import { MemoryExtractor } from './memory/memory-extractor';
 import { buildAdminSystemPrompt } from './prompts/admin-system-prompt';
 import { WorkerFactory } from './workers/specialized-workers';
+import { AgentRegistry } from './agents/agent-wrapper';
 import { AdminToolRegistry } from './tools-v2/tool-registry';
-import { PhaseManager, type ConversationPhase } from './core/phase-manager';
-import { Workspace } from './workspace/workspace';
-import type { ToolResult } from './tools-v2/tool-types';
+import {
+  PhaseManager,
+  type ConversationPhase,
+  type PhaseContext,
+  type PhaseSnapshot,
+} from './core/phase-manager';
+import { TaskRunner, type TaskRunState } from './core/task-runner';
+import { mapWithKeyedSerialization } from './core/concurrency';
+import { ContextBuilder } from './core/context-builder';
+import { Workspace, tenantPrefixFor, type ScopedWorkspace } from './workspace/workspace';
+import { PythonSandbox } from './sandbox/python-sandbox';
+import {
+  getMissingBackendSettings,
+  resolveBackendKind,
+  type WorkspaceBackendKind,
+} from './workspace/backends';
+import type { ToolProgress, ToolResult } from './tools-v2/tool-types';
+import type { BatchWorkerOutcome } from './tools-v2/delegate-batch-tool';
+
+const PHASE_STATE_KEY = 'phase_state';
+const SESSION_ID_KEY = 'session_id';
+const USER_ID_KEY = 'user_id';
+const UPLOADED_FILES_KEY = 'uploaded_files';
+const LAST_D1_SYNC_KEY = 'd1_last_sync';
+const D1_SYNC_INTERVAL_MS = 300000;
+const TASK_STEP_DELAY_MS = 1000;
+const DEFAULT_TOOL_CONCURRENCY = 3;
 
 /**
  * ORION Agent - Admin-Worker Architecture with B2 Workspace (PRODUCTION READY)
@@ -31,7 +59,7 @@ import type { ToolResult } from './tools-v2/tool-types';
  * - Admin Agent: Orchestration via function calling
  * - Worker Agents: Execution via native tools (search, code execution)
  * - Phase Manager: Explicit conversation state machine
- * - B2 Workspace: Persistent task and artifact storage
+ * - Workspace: Persistent task and artifact storage (S3/B2, R2, DO SQLite)
  * - D1 Database: Session and message persistence
  * - Vectorize: Semantic memory for RAG
  * 
@@ -56,14 +84,21 @@ export class OrionAgent extends DurableObject implements OrionRPC {
   private env: Env;
   private d1?: D1Manager;
   private memory?: MemoryManager;
+  private memoryExtractor?: MemoryExtractor;
   private sessionId?: string;
+  private userId?: string;
   private initialized = false;
   private workspaceEnabled = false;
+  private workspace: ScopedWorkspace | null = null;
   
   private workerFactory!: WorkerFactory;
   private toolRegistry!: AdminToolRegistry;
   private phaseManager!: PhaseManager;
+  private taskRunner!: TaskRunner;
+  private contextBuilder!: ContextBuilder;
   private adminSystemPrompt: string;
+  private activeRun: AbortController | null = null;
+  private titleChecked = false;
   
   private metrics = {
     totalRequests: 0,
@@ -98,6 +133,15 @@ export class OrionAgent extends DurableObject implements OrionRPC {
     
     console.log('[AgentV2] Starting initialization...');
     
+    // Step 0: Recover session ID (alarm invocations don't carry the DO name)
+    const storedSessionId = await this.storage.loadValue<string>(SESSION_ID_KEY);
+    if (!this.sessionId) {
+      this.sessionId = storedSessionId ?? undefined;
+    } else if (storedSessionId !== this.sessionId) {
+      await this.storage.saveValue(SESSION_ID_KEY, this.sessionId);
+    }
+    this.userId = this.userId ?? (await this.storage.loadValue<string>(USER_ID_KEY)) ?? undefined;
+    
     // Step 1: Initialize D1 Database
     if (this.env.DB) {
       this.d1 = new D1Manager(this.env.DB);
@@ -114,6 +158,12 @@ export class OrionAgent extends DurableObject implements OrionRPC {
           this.storage.getDurableObjectState().storage,
           {}
         );
+        this.memoryExtractor = new MemoryExtractor(this.gemini, this.memory);
+        
+        // Consult the user's shared memories at session start
+        if (this.userId) {
+          await this.memory.setUserId(this.userId);
+        }
         console.log('[AgentV2] ✅ Memory/Vectorize initialized');
       }
       
@@ -121,83 +171,36 @@ export class OrionAgent extends DurableObject implements OrionRPC {
       if (this.d1 && this.storage.getMessages().length === 0) {
         await this.hydrateFromD1();
       }
-
-      // Schedule periodic D1 sync (every 5 minutes)
-      await this.storage.setAlarm(Date.now() + 300000);
     }
     
-    // Step 3: Initialize B2 Workspace (CRITICAL: Before tools)
-    const workspaceConfigured = this.isWorkspaceConfigured();
+    // Step 3: Initialize Workspace (CRITICAL: Before tools)
+    let backendKind: WorkspaceBackendKind | null = null;
+    try {
+      backendKind = resolveBackendKind(this.env);
+    } catch (error) {
+      console.error('[AgentV2] ❌ Invalid workspace backend configuration:', error);
+    }
+    
+    const missingSettings = backendKind ? getMissingBackendSettings(this.env, backendKind) : [];
     
-    if (workspaceConfigured) {
+    if (backendKind && missingSettings.length === 0) {
       try {
-        console.log('[AgentV2] Initializing B2 Workspace...');
-        console.log('[AgentV2] B2 Environment Check:', {
-          hasKeyId: !!this.env.B2_KEY_ID,
-          hasAppKey: !!this.env.B2_APPLICATION_KEY,
-          hasEndpoint: !!this.env.B2_S3_ENDPOINT,
-          hasBucket: !!this.env.B2_BUCKET,
-          hasBasePath: !!this.env.B2_BASE_PATH,
-          keyIdPreview: this.env.B2_KEY_ID ? 
-            `${String(this.env.B2_KEY_ID).substring(0, 8)}...` : 'MISSING',
-          endpointValue: this.env.B2_S3_ENDPOINT || 'MISSING',
-          bucketValue: this.env.B2_BUCKET || 'MISSING',
-          basePathValue: this.env.B2_BASE_PATH || '(none - using root)'
-        });
-        
-        // Validate endpoint format before initialization
-        const endpoint = String(this.env.B2_S3_ENDPOINT || '');
-        if (!endpoint.startsWith('http://') && !endpoint.startsWith('https://')) {
-          throw new Error(
-            `B2_S3_ENDPOINT missing http:// or https:// prefix. ` +
-            `Got: "${endpoint}". ` +
-            `Expected: https://s3.<region>.backblazeb2.com (e.g., https://s3.us-west-004.backblazeb2.com)`
-          );
-        }
-        
-        if (!endpoint.includes('.backblazeb2.com')) {
-          throw new Error(
-            `B2_S3_ENDPOINT does not appear to be a valid Backblaze endpoint. ` +
-            `Got: "${endpoint}". ` +
-            `Expected format: https://s3.<region>.backblazeb2.com`
-          );
-        }
+        console.log(`[AgentV2] Initializing ${backendKind} Workspace...`);
         
         // Initialize workspace singleton
-        console.log('[AgentV2] Calling Workspace.initialize()...');
         Workspace.initialize(this.env);
         
         // Verify initialization succeeded
         if (Workspace.isInitialized()) {
           this.workspaceEnabled = true;
-          console.log('[AgentV2] ✅ B2 Workspace initialized successfully');
+          console.log('[AgentV2] ✅ Workspace initialized successfully');
           
-          // Test workspace by ensuring tasks directory exists
+          // Test workspace connectivity by listing the root
           try {
-            const config = Workspace.getConfig();
-            console.log('[AgentV2] Workspace config:', {
-              endpoint: config.endpoint,
-              region: config.region,
-              bucket: config.bucket,
-              basePath: config.basePath || '(root)'
-            });
-            
-            // Check if tasks directory exists
-            console.log('[AgentV2] Checking tasks directory existence...');
-            const tasksExists = await Workspace.exists('tasks');
-            console.log('[AgentV2] Tasks directory check result:', tasksExists);
+            console.log('[AgentV2] Workspace config:', Workspace.getConfig());
             
-            if (!tasksExists) {
-              console.log('[AgentV2] Creating tasks directory...');
-              await Workspace.mkdir('tasks');
-              console.log('[AgentV2] ✅ Created tasks directory');
-            } else {
-              console.log('[AgentV2] ✅ Tasks directory already exists');
-            }
-            
-            // Verify we can list the directory
-            const listing = await Workspace.readdir('tasks');
-            console.log('[AgentV2] ✅ Tasks directory verified:', {
+            const listing = await Workspace.readdir('');
+            console.log('[AgentV2] ✅ Workspace root verified:', {
               directories: listing.directories.length,
               files: listing.files.length
             });
@@ -217,7 +220,7 @@ export class OrionAgent extends DurableObject implements OrionRPC {
           this.workspaceEnabled = false;
         }
       } catch (error) {
-        console.error('[AgentV2] ❌ B2 Workspace initialization failed:', error);
+        console.error('[AgentV2] ❌ Workspace initialization failed:', error);
         console.error('[AgentV2] Error details:', {
           name: error instanceof Error ? error.name : 'Unknown',
           message: error instanceof Error ? error.message : String(error),
@@ -225,33 +228,30 @@ export class OrionAgent extends DurableObject implements OrionRPC {
         });
         this.workspaceEnabled = false;
       }
+    } else if (backendKind) {
+      console.warn(`[AgentV2] ⚠️  ${backendKind} Workspace missing: ${missingSettings.join(', ')}`);
+      this.workspaceEnabled = false;
     } else {
-      console.warn('[AgentV2] ⚠️  B2 Workspace not configured - missing required environment variables');
-      console.warn('[AgentV2] Required variables:');
-      console.warn('  - B2_KEY_ID:', this.env.B2_KEY_ID ? '✓ SET' : '✗ MISSING');
-      console.warn('  - B2_APPLICATION_KEY:', this.env.B2_APPLICATION_KEY ? '✓ SET' : '✗ MISSING');
-      console.warn('  - B2_S3_ENDPOINT:', this.env.B2_S3_ENDPOINT ? '✓ SET' : '✗ MISSING');
-      console.warn('  - B2_BUCKET:', this.env.B2_BUCKET ? '✓ SET' : '✗ MISSING');
-      console.warn('  - B2_BASE_PATH:', this.env.B2_BASE_PATH ? '✓ SET (optional)' : '(optional - not set)');
+      console.warn('[AgentV2] ⚠️  Workspace not configured - set WORKSPACE_BACKEND, bind WORKSPACE_BUCKET (R2), or provide S3/B2 credentials');
       this.workspaceEnabled = false;
     }
     
-    // Step 4: Initialize Core Components (AFTER workspace)
-    // CRITICAL FIX: Properly initialize worker factory and tool registry
-    this.workerFactory = new WorkerFactory(this.gemini);
+    // Step 4: Tenant workspace, Python sandbox, workers, tool registry and task runner
+    this.configureTools();
     
-    // FIXED: Pass all 4 parameters to AdminToolRegistry
-    // Note: workspace parameter is null because tools use Workspace singleton directly
-    this.toolRegistry = new AdminToolRegistry(
-      this.gemini,
-      this.memory || null,
-      this.workerFactory,
-      null // Tools use Workspace.method() singleton pattern
+    // Step 5: Restore phase state persisted before eviction/redeploy
+    this.phaseManager = PhaseManager.fromSnapshot(
+      await this.storage.loadValue<PhaseSnapshot>(PHASE_STATE_KEY)
     );
     
-    this.phaseManager = new PhaseManager('discovery');
+    // Step 6: Conversation context builder (rolling summaries + memory)
+    this.contextBuilder = new ContextBuilder(this.storage, this.gemini, this.memory || null);
     
     this.initialized = true;
+    
+    // Schedule periodic D1 sync and any pending task steps
+    await this.scheduleAlarm();
+
     console.log('[AgentV2] ✅ Initialization complete:', {
       workspace: this.workspaceEnabled ? 'enabled' : 'disabled',
       memory: this.memory ? 'enabled' : 'disabled',
@@ -262,15 +262,62 @@ export class OrionAgent extends DurableObject implements OrionRPC {
   }
 
   /**
-   * Check if B2 workspace environment variables are configured
+   * Build the tenant-scoped workspace and everything holding it. Re-run
+   * when the session is bound to a different user.
    */
-  private isWorkspaceConfigured(): boolean {
-    return !!(
-      this.env.B2_KEY_ID &&
-      this.env.B2_APPLICATION_KEY &&
-      this.env.B2_S3_ENDPOINT &&
-      this.env.B2_BUCKET
+  private configureTools(): void {
+    this.workspace = null;
+    if (this.workspaceEnabled) {
+      try {
+        this.workspace = Workspace.forScope({ userId: this.userId, sessionId: this.sessionId });
+        console.log(`[AgentV2] Workspace scoped to ${this.workspace.tenant}`);
+      } catch (err) {
+        console.error('[AgentV2] Failed to scope workspace:', err);
+      }
+    }
+    
+    // Sandbox mounts task folders from the same tenant workspace; builds
+    // without Pyodide get no run_python tool or python:run blocks
+    const sandbox = PythonSandbox.available
+      ? new PythonSandbox(this.workspace, {
+          indexURL: this.env.PYODIDE_INDEX_URL,
+          timeoutMs: Number(this.env.PYTHON_TIMEOUT_MS) || undefined,
+          cpuLimitMs: Number(this.env.PYTHON_CPU_LIMIT_MS) || undefined
+        })
+      : null;
+    // Custom worker types from the tenant's agents/ folder (not indexed:
+    // the Vectorize index is shared across tenants)
+    const agents = this.workspace ? new AgentRegistry(this.workspace, this.gemini, null) : null;
+    this.workerFactory = new WorkerFactory(this.gemini, { sandbox, workspace: this.workspace }, agents);
+    
+    this.toolRegistry = new AdminToolRegistry(
+      this.gemini,
+      this.memory || null,
+      this.workerFactory,
+      this.workspace,
+      sandbox,
+      () => this.sessionFiles()
     );
+    
+    // Background task runner (steps execute on alarm ticks)
+    this.taskRunner = new TaskRunner(this.storage, this.toolRegistry, {
+      broadcast: (message) => this.broadcast(message),
+      onToolResult: async (toolName, result) => {
+        this.handlePhaseTransitions(toolName, result);
+        await this.persistPhase();
+      },
+    });
+  }
+
+  /**
+   * Persist phase, active task/step and transition history to DO storage
+   */
+  private async persistPhase(): Promise<void> {
+    try {
+      await this.storage.saveValue(PHASE_STATE_KEY, this.phaseManager.toSnapshot());
+    } catch (err) {
+      console.error('[AgentV2] Failed to persist phase state:', err);
+    }
   }
 
   /**
@@ -288,7 +335,8 @@ export class OrionAgent extends DurableObject implements OrionRPC {
           await this.storage.saveMessage(
             msg.role,
             msg.parts || [{ text: (msg as any).content || '' }],
-            msg.timestamp
+            msg.timestamp,
+            msg.metadata
           );
         }
         console.log(`[AgentV2] ✅ Hydrated ${messages.length} messages from D1`);
@@ -299,20 +347,73 @@ export class OrionAgent extends DurableObject implements OrionRPC {
   }
 
   // =============================================================
-  // Alarm Handler (D1 Sync)
+  // Alarm Handler (Task Runner + D1 Sync)
   // =============================================================
 
   async alarm(): Promise<void> {
-    console.log('[AgentV2] ⏰ Alarm triggered - syncing to D1');
+    await this.init();
     
-    try {
-      await this.syncToD1();
-    } catch (err) {
-      console.error('[AgentV2] Alarm sync failed:', err);
+    if (await this.taskRunner.hasPendingWork()) {
+      console.log('[AgentV2] ⏰ Alarm triggered - running next task step');
+      try {
+        await this.taskRunner.tick();
+      } catch (err) {
+        console.error('[AgentV2] Task runner tick failed:', err);
+      }
+    }
+    
+    const lastSync = await this.storage.loadValue<number>(LAST_D1_SYNC_KEY) ?? 0;
+    if (this.sessionId && Date.now() - lastSync >= D1_SYNC_INTERVAL_MS) {
+      console.log('[AgentV2] ⏰ Alarm triggered - syncing to D1');
+      try {
+        await this.syncToD1();
+      } catch (err) {
+        console.error('[AgentV2] Alarm sync failed:', err);
+      }
+      await this.storage.saveValue(LAST_D1_SYNC_KEY, Date.now());
+    }
+    
+    await this.scheduleAlarm();
+  }
+
+  /**
+   * A DO has a single alarm: fire for the next task step if a run is active,
+   * otherwise at the next D1 sync interval
+   */
+  private async scheduleAlarm(): Promise<void> {
+    const now = Date.now();
+    const candidates: number[] = [];
+    
+    if (this.sessionId) {
+      let lastSync = await this.storage.loadValue<number>(LAST_D1_SYNC_KEY);
+      if (lastSync === null) {
+        lastSync = now;
+        await this.storage.saveValue(LAST_D1_SYNC_KEY, lastSync);
+      }
+      candidates.push(lastSync + D1_SYNC_INTERVAL_MS);
     }
     
-    // Reschedule for 5 minutes from now
-    await this.storage.setAlarm(Date.now() + 300000);
+    if (await this.taskRunner.hasPendingWork()) {
+      candidates.push(now + TASK_STEP_DELAY_MS);
+    }
+    
+    if (candidates.length > 0) {
+      await this.storage.setAlarm(Math.max(now, Math.min(...candidates)));
+    }
+  }
+
+  /**
+   * Push an event to every WebSocket attached to this session
+   */
+  private broadcast(message: WSOutgoingMessage): void {
+    const payload = JSON.stringify(message);
+    for (const ws of this.state.getWebSockets()) {
+      try {
+        ws.send(payload);
+      } catch (err) {
+        console.warn('[AgentV2] Broadcast failed:', err);
+      }
+    }
   }
 
   // =============================================================
@@ -358,21 +459,66 @@ export class OrionAgent extends DurableObject implements OrionRPC {
   async clear(): Promise<{ ok: boolean }> {
     await this.init();
     await this.storage.clearAll();
+    await this.contextBuilder.reset();
+    
+    // Session identity survives a clear
+    if (this.sessionId) await this.storage.saveValue(SESSION_ID_KEY, this.sessionId);
+    if (this.userId) await this.storage.saveValue(USER_ID_KEY, this.userId);
     if (this.memory) await this.memory.clearSessionMemory();
     this.phaseManager = new PhaseManager('discovery');
     return { ok: true };
   }
 
   async uploadFile(
-    base64: string,
+    data: Uint8Array,
     mimeType: string,
     name: string
   ): Promise<{ success: boolean; file: FileMetadata }> {
     await this.init();
-    const metadata = await this.gemini.uploadFile(base64, mimeType, name);
+    const metadata = await this.gemini.uploadFile(data, mimeType, name);
+    await this.trackUploadedFile(metadata.fileUri);
+    
     return { success: true, file: metadata };
   }
 
+  /**
+   * Register a file the Worker already streamed into this session's
+   * workspace with Gemini, so the bytes never cross the RPC boundary
+   */
+  async uploadFromWorkspace(
+    path: string,
+    mimeType: string,
+    name: string
+  ): Promise<{ success: boolean; file: FileMetadata; path: string }> {
+    await this.init();
+    if (!this.workspace) {
+      throw new Error('Workspace not available');
+    }
+    
+    const data = await this.workspace.readFileBytes(path);
+    const metadata = await this.gemini.uploadFile(data, mimeType, name);
+    await this.trackUploadedFile(metadata.fileUri);
+    
+    return { success: true, file: metadata, path };
+  }
+
+  /**
+   * Track uploads so deleting the session can remove them
+   */
+  private async trackUploadedFile(fileUri: string): Promise<void> {
+    const uploaded = await this.storage.loadValue<string[]>(UPLOADED_FILES_KEY) ?? [];
+    await this.storage.saveValue(UPLOADED_FILES_KEY, [...uploaded, fileUri]);
+  }
+
+  /**
+   * Gemini files uploaded in this session (listFiles covers the whole API key)
+   */
+  private async sessionFiles(): Promise<FileMetadata[]> {
+    const uploaded = new Set(await this.storage.loadValue<string[]>(UPLOADED_FILES_KEY) ?? []);
+    if (uploaded.size === 0) return [];
+    return (await this.gemini.listFiles()).filter(f => uploaded.has(f.fileUri));
+  }
+
   async listFiles(): Promise<{ files: FileMetadata[] }> {
     await this.init();
     const files = await this.gemini.listFiles();
@@ -382,9 +528,144 @@ export class OrionAgent extends DurableObject implements OrionRPC {
   async deleteFile(fileUri: string): Promise<{ ok: boolean }> {
     await this.init();
     await this.gemini.deleteFile(fileUri);
+    
+    const uploaded = await this.storage.loadValue<string[]>(UPLOADED_FILES_KEY) ?? [];
+    await this.storage.saveValue(UPLOADED_FILES_KEY, uploaded.filter(uri => uri !== fileUri));
+    return { ok: true };
+  }
+
+  /**
+   * Permanently delete this session: uploaded files, session memory
+   * vectors and all Durable Object storage. User-scoped memories survive.
+   */
+  async destroy(): Promise<{ ok: boolean; filesDeleted: number }> {
+    await this.init();
+    this.cancelActiveRun('Session deleted');
+    
+    const uploaded = await this.storage.loadValue<string[]>(UPLOADED_FILES_KEY) ?? [];
+    for (const fileUri of uploaded) {
+      await this.gemini.deleteFile(fileUri);
+    }
+    
+    if (this.memory) await this.memory.clearSessionMemory();
+    
+    // Session-scoped workspace files go with the session; a user's tree is shared
+    if (this.workspaceEnabled && this.sessionId && !this.userId) {
+      try {
+        await Workspace.rm(tenantPrefixFor({ sessionId: this.sessionId }));
+      } catch (err) {
+        console.warn('[AgentV2] Failed to remove session workspace:', err);
+      }
+    }
+    
+    await this.storage.destroy();
+    
+    for (const ws of this.state.getWebSockets()) {
+      try {
+        ws.close(1000, 'Session deleted');
+      } catch {
+        // Already closed
+      }
+    }
+    
+    // Next request starts from a blank slate
+    this.initialized = false;
+    this.titleChecked = false;
+    
+    console.log(`[AgentV2] 🗑️ Session ${this.sessionId} destroyed (${uploaded.length} files)`);
+    return { ok: true, filesDeleted: uploaded.length };
+  }
+
+  /**
+   * Abort the in-flight admin run (Gemini stream and pending worker turns)
+   */
+  async cancel(): Promise<{ ok: boolean; cancelled: boolean }> {
+    return { ok: true, cancelled: this.cancelActiveRun('Cancelled via API') };
+  }
+
+  private cancelActiveRun(reason: string): boolean {
+    if (!this.activeRun || this.activeRun.signal.aborted) return false;
+    
+    console.log(`[AgentV2] Cancelling active run: ${reason}`);
+    this.activeRun.abort(new DOMException(reason, 'AbortError'));
+    return true;
+  }
+
+  // -----------------------------------------------------------
+  // Background Task Runs
+  // -----------------------------------------------------------
+
+  async startTaskRun(taskId: string): Promise<TaskRunState> {
+    await this.init();
+    
+    if (!this.workspaceEnabled) {
+      throw new Error('Task runs require a configured workspace');
+    }
+    
+    const run = await this.taskRunner.start(taskId);
+    await this.scheduleAlarm();
+    return run;
+  }
+
+  async getTaskRun(taskId: string): Promise<TaskRunState | null> {
+    await this.init();
+    return this.taskRunner.getRun(taskId);
+  }
+
+  async cancelTaskRun(taskId: string): Promise<TaskRunState | null> {
+    await this.init();
+    const run = await this.taskRunner.cancel(taskId);
+    await this.scheduleAlarm();
+    return run;
+  }
+
+  // -----------------------------------------------------------
+  // Long-term Memory
+  // -----------------------------------------------------------
+
+  /**
+   * Bind this session to a user (called by the Worker on each request)
+   */
+  async setUser(userId: string): Promise<{ ok: boolean }> {
+    await this.init();
+    if (this.userId === userId) return { ok: true };
+    
+    this.userId = userId;
+    await this.storage.saveValue(USER_ID_KEY, userId);
+    if (this.memory) await this.memory.setUserId(userId);
+    
+    // Move from the session's workspace tenant to the user's
+    this.configureTools();
+    
+    console.log(`[AgentV2] Session bound to user ${userId}`);
     return { ok: true };
   }
 
+  async listMemories(): Promise<{ memories: MemoryEntry[]; userMemories: MemoryEntry[] }> {
+    await this.init();
+    if (!this.memory) return { memories: [], userMemories: [] };
+    return {
+      memories: await this.memory.listMemories(),
+      userMemories: await this.memory.loadUserMemories(),
+    };
+  }
+
+  async deleteMemory(id: string): Promise<{ ok: boolean }> {
+    await this.init();
+    if (!this.memory) return { ok: false };
+    
+    const existing = await this.memory.getMemory(id);
+    if (!existing) return { ok: false };
+    
+    await this.memory.deleteMemory(id);
+    return { ok: true };
+  }
+
+  async getPhase(): Promise<PhaseContext> {
+    await this.init();
+    return this.phaseManager.getContext();
+  }
+
   async getStatus(): Promise<StatusResponse> {
     await this.init();
     
@@ -392,9 +673,12 @@ export class OrionAgent extends DurableObject implements OrionRPC {
     
     return {
       sessionId: this.sessionId,
+      userId: this.userId,
       messageCount: this.storage.getMessages().length,
       artifactCount: this.storage.getArtifacts().length,
       conversationPhase: phaseContext.currentPhase,
+      phase: phaseContext,
+      context: await this.contextBuilder.getReport(),
       protocol: 'Admin-Worker Architecture v2.1',
       metrics: {
         ...this.metrics,
@@ -409,7 +693,8 @@ export class OrionAgent extends DurableObject implements OrionRPC {
       memory: this.memory ? this.memory.getMetrics() : null,
       workspace: { 
         enabled: this.workspaceEnabled,
-        initialized: Workspace.isInitialized()
+        initialized: Workspace.isInitialized(),
+        tenant: this.workspace?.tenant
       },
       availableWorkflows: 0,
       activeProject: phaseContext.activeTaskId ? {
@@ -471,6 +756,12 @@ export class OrionAgent extends DurableObject implements OrionRPC {
       
       if (msg.type === 'user_message') {
         await this.handleWebSocketChat(ws, msg.content, msg.images);
+      } else if (msg.type === 'cancel') {
+        const cancelled = this.cancelActiveRun('Cancelled via WebSocket');
+        ws.send(JSON.stringify({
+          type: 'status',
+          message: cancelled ? 'Cancelling...' : 'Nothing to cancel',
+        } as WSOutgoingMessage));
       } else if (msg.type === 'ping') {
         ws.send(JSON.stringify({ type: 'pong' } as WSOutgoingMessage));
       }
@@ -507,8 +798,18 @@ export class OrionAgent extends DurableObject implements OrionRPC {
         ws.send(JSON.stringify({ type: 'thought', content: thought } as WSOutgoingMessage)),
       onChunk: (chunk: string) =>
         ws.send(JSON.stringify({ type: 'chunk', content: chunk } as WSOutgoingMessage)),
-      onToolUse: (tool: string, params: any) =>
-        ws.send(JSON.stringify({ type: 'tool_use', tool, params } as WSOutgoingMessage)),
+      onToolUse: (tool: string, params: any, callId: string) =>
+        ws.send(JSON.stringify({ type: 'tool_use', tool, params, callId } as WSOutgoingMessage)),
+      onToolProgress: (tool: string, callId: string, progress: ToolProgress) =>
+        ws.send(JSON.stringify({ type: 'tool_progress', tool, callId, ...progress } as WSOutgoingMessage)),
+      onToolResult: (tool: string, callId: string, result: ToolResult) =>
+        ws.send(JSON.stringify({
+          type: 'tool_result',
+          tool,
+          callId,
+          success: result.success,
+          summary: result.summary,
+        } as WSOutgoingMessage)),
       onArtifact: (artifact: Artifact) =>
         ws.send(JSON.stringify({ type: 'artifact', artifact } as WSOutgoingMessage)),
     };
@@ -522,6 +823,7 @@ export class OrionAgent extends DurableObject implements OrionRPC {
           response: result.response,
           artifacts: result.artifacts,
           metadata: result.metadata,
+          cancelled: result.cancelled,
         } as WSOutgoingMessage)
       );
     } catch (error) {
@@ -545,7 +847,9 @@ export class OrionAgent extends DurableObject implements OrionRPC {
       onStatus?: (msg: string) => void;
       onThought?: (thought: string) => void;
       onChunk?: (chunk: string) => void;
-      onToolUse?: (tool: string, params: any) => void;
+      onToolUse?: (tool: string, params: any, callId: string) => void;
+      onToolProgress?: (tool: string, callId: string, progress: ToolProgress) => void;
+      onToolResult?: (tool: string, callId: string, result: ToolResult) => void;
       onArtifact?: (artifact: Artifact) => void;
     }
   ): Promise<ChatResponse> {
@@ -553,26 +857,34 @@ export class OrionAgent extends DurableObject implements OrionRPC {
     const maxTurns = 10;
     const artifacts: Artifact[] = [];
     const toolsUsed = new Set<string>();
+    const toolSummaries: string[] = [];
+    let lastModelText = '';
+    
+    const controller = new AbortController();
+    const signal = controller.signal;
+    this.activeRun = controller;
     
     try {
       // Save user message
       await this.saveMessage('user', userMessage);
+      this.scheduleSessionTitle(userMessage);
       
       // Get current phase context
       const currentPhase = this.phaseManager.getCurrentPhase();
       callbacks?.onStatus?.(`Phase: ${currentPhase}`);
       
-      // Build conversation context with phase awareness
+      // Build conversation context with phase awareness; the history already
+      // ends with the user message saved above
       const systemPrompt = this.buildPhaseAwareSystemPrompt(currentPhase);
-      const recentMessages = this.storage.getMessages().slice(-10);
-      const messages: Array<{ role: string; content: string }> = [
+      const history = await this.contextBuilder.build(userMessage, signal);
+      const messages: ConversationMessage[] = [
         { role: 'system', content: systemPrompt },
-        ...this.formatContextForGemini(recentMessages),
-        { role: 'user', content: userMessage }
+        ...history
       ];
       
       // Admin loop with function calling
       while (turn < maxTurns) {
+        signal.throwIfAborted();
         turn++;
         this.metrics.adminTurns++;
         
@@ -588,6 +900,7 @@ export class OrionAgent extends DurableObject implements OrionRPC {
             useSearch: false,
             useCodeExecution: false,
             maxOutputTokens: 8192,
+            signal,
           },
           callbacks?.onChunk,
           callbacks?.onThought
@@ -597,50 +910,107 @@ export class OrionAgent extends DurableObject implements OrionRPC {
           this.metrics.totalTokens += response.usageMetadata.totalTokens || 0;
         }
         
-        messages.push({ role: 'assistant', content: response.text });
-        await this.saveMessage('model', response.text);
+        // Record the model turn with its native functionCall parts
+        const modelParts: MessagePart[] = [];
+        if (response.text) {
+          modelParts.push({ text: response.text });
+          lastModelText = response.text;
+        }
+        for (const call of response.toolCalls ?? []) {
+          modelParts.push({
+            functionCall: { id: call.id, name: call.name, args: call.args },
+            thoughtSignature: call.thoughtSignature,
+          });
+        }
+        if (modelParts.length > 0) {
+          messages.push({ role: 'model', parts: modelParts });
+          await this.storage.saveMessage('model', modelParts, Date.now());
+        }
         
         // Process function calls
         if (response.toolCalls && response.toolCalls.length > 0) {
-          const toolResults: Array<{ name: string; result: ToolResult }> = [];
           let userInputRequired = false;
           
-          for (const toolCall of response.toolCalls) {
-            this.metrics.toolCalls++;
-            toolsUsed.add(toolCall.name);
-            callbacks?.onToolUse?.(toolCall.name, toolCall.args);
-            
-            const result = await this.toolRegistry.executeTool(
-              toolCall.name,
-              toolCall.args
-            );
-            
-            toolResults.push({ name: toolCall.name, result });
-            
-            // Handle phase transitions based on tool results
-            this.handlePhaseTransitions(toolCall.name, result);
-            
-            // Collect artifacts from worker results
-            if (toolCall.name === 'delegate_to_worker' && result.success) {
+          const calls = response.toolCalls;
+          
+          // Independent calls run concurrently; calls touching the same task run in order
+          const toolResults = await mapWithKeyedSerialization(
+            calls,
+            this.getToolConcurrency(),
+            call => this.getToolSerializationKey(call.name, call.args),
+            async call => {
+              this.metrics.toolCalls++;
+              toolsUsed.add(call.name);
+              
+              let result: ToolResult;
+              try {
+                callbacks?.onToolUse?.(call.name, call.args, call.id);
+                result = await this.toolRegistry.executeTool(
+                  call.name,
+                  call.args,
+                  {
+                    signal,
+                    onProgress: progress => callbacks?.onToolProgress?.(call.name, call.id, progress),
+                  }
+                );
+                callbacks?.onToolResult?.(call.name, call.id, result);
+              } catch (error) {
+                // Every call still needs a result to pair with its functionCall
+                result = signal.aborted
+                  ? { success: false, data: null, summary: `Tool execution cancelled: ${call.name}`, metadata: { error: 'CANCELLED' } }
+                  : { success: false, data: null, summary: `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`, metadata: { error: 'EXECUTION_ERROR' } };
+              }
+              return { id: call.id, name: call.name, result };
+            }
+          );
+          
+          // Save a functionResponse for every call before anything can end
+          // the run (cancel, ask_user), so stored history never has an
+          // unpaired functionCall
+          const responseParts = this.buildFunctionResponseParts(toolResults);
+          messages.push({ role: 'user', parts: responseParts });
+          await this.storage.saveMessage('user', responseParts, Date.now(), { kind: 'tool_results' });
+          
+          // Collect artifacts from worker results, including the partial
+          // artifacts of cancelled and failed workers, before honouring a cancel
+          for (const { name, result } of toolResults) {
+            const workerResults = name === 'delegate_to_worker' && result.data
+              ? [result.data]
+              : name === 'delegate_batch' && result.data?.workers
+                ? result.data.workers.map((w: BatchWorkerOutcome) => w.result)
+                : [];
+            for (const workerResult of workerResults) {
               this.metrics.workerDelegations++;
-              const workerResult = result.data;
               if (workerResult?.artifacts) {
                 artifacts.push(...workerResult.artifacts);
-                workerResult.artifacts.forEach(a => callbacks?.onArtifact?.(a));
+                workerResult.artifacts.forEach((a: Artifact) => callbacks?.onArtifact?.(a));
               }
             }
+          }
+          
+          signal.throwIfAborted();
+          
+          // Apply results in call order
+          for (const { name, result } of toolResults) {
+            toolSummaries.push(`${name}: ${result.summary}`);
+            
+            // Handle phase transitions based on tool results
+            this.handlePhaseTransitions(name, result);
             
             // Check if user input required
-            if (this.toolRegistry.isUserInputRequired(toolCall.name, result)) {
+            if (this.toolRegistry.isUserInputRequired(name, result)) {
               userInputRequired = true;
             }
           }
+          await this.persistPhase();
           
           // If ask_user was called, return immediately
           if (userInputRequired) {
             const askResult = toolResults.find(r => r.name === 'ask_user');
+            const question = askResult?.result.summary || 'Please provide more information.';
+            await this.saveMessage('model', question);
             return {
-              response: askResult?.result.summary || 'Please provide more information.',
+              response: question,
               artifacts,
               conversationPhase: this.phaseManager.getCurrentPhase(),
               metadata: {
@@ -650,13 +1020,10 @@ export class OrionAgent extends DurableObject implements OrionRPC {
             };
           }
           
-          // Feed results back to admin
-          const feedbackMessage = this.formatToolResults(toolResults);
-          messages.push({ role: 'function', content: feedbackMessage });
-          await this.saveMessage('user', feedbackMessage);
-          
         } else {
           // Admin provided final response (no more tool calls)
+          this.scheduleMemoryExtraction(userMessage, response.text, toolSummaries);
+          
           return {
             response: response.text,
             artifacts,
@@ -670,10 +1037,9 @@ export class OrionAgent extends DurableObject implements OrionRPC {
         }
       }
       
-      // Max turns reached
-      const finalMessage = messages[messages.length - 1].content;
+      // Max turns reached; the last turn is tool results, so answer with the model's last text
       return {
-        response: finalMessage || 'Processing complete.',
+        response: lastModelText || 'Processing complete.',
         artifacts,
         conversationPhase: this.phaseManager.getCurrentPhase(),
         metadata: {
@@ -683,6 +1049,21 @@ export class OrionAgent extends DurableObject implements OrionRPC {
       };
       
     } catch (error) {
+      if (signal.aborted) {
+        console.log(`[AgentV2] Admin loop cancelled at turn ${turn}`);
+        await this.saveMessage('model', '[Run cancelled by user]');
+        return {
+          response: 'Run cancelled.',
+          artifacts,
+          conversationPhase: this.phaseManager.getCurrentPhase(),
+          cancelled: true,
+          metadata: {
+            turnsUsed: turn,
+            toolsUsed: Array.from(toolsUsed),
+          }
+        };
+      }
+      
       console.error('[AgentV2] Admin loop error:', error);
       return {
         response: `Error: ${error instanceof Error ? error.message : String(error)}`,
@@ -693,6 +1074,10 @@ export class OrionAgent extends DurableObject implements OrionRPC {
           toolsUsed: Array.from(toolsUsed),
         }
       };
+    } finally {
+      if (this.activeRun === controller) {
+        this.activeRun = null;
+      }
     }
   }
 
@@ -700,6 +1085,99 @@ export class OrionAgent extends DurableObject implements OrionRPC {
   // Phase Management
   // =============================================================
 
+  /**
+   * Distill long-term memories from the completed exchange after responding
+   */
+  private scheduleMemoryExtraction(
+    userMessage: string,
+    response: string,
+    toolSummaries: string[]
+  ): void {
+    if (!this.memoryExtractor || !response.trim()) return;
+    
+    this.state.waitUntil(
+      this.memoryExtractor
+        .extractAndSave({ userMessage, response, toolSummaries })
+        .catch(err => console.error('[AgentV2] Memory extraction failed:', err))
+    );
+  }
+
+  /**
+   * Name the session from its first message while it still has the default title
+   */
+  private scheduleSessionTitle(userMessage: string): void {
+    if (!this.d1 || !this.sessionId || this.titleChecked) return;
+    this.titleChecked = true;
+    
+    const d1 = this.d1;
+    const sessionId = this.sessionId;
+    
+    this.state.waitUntil(
+      (async () => {
+        const session = await d1.getSession(sessionId);
+        if (session && session.title !== DEFAULT_SESSION_TITLE) return;
+        
+        const title = await this.generateSessionTitle(userMessage);
+        if (!title) return;
+        
+        if (!session) await d1.createSession(sessionId, undefined, this.userId);
+        await d1.updateSessionTitle(sessionId, title);
+        this.broadcast({ type: 'session_title', sessionId, title });
+        console.log(`[AgentV2] Session titled: ${title}`);
+      })().catch(err => console.error('[AgentV2] Session titling failed:', err))
+    );
+  }
+
+  private async generateSessionTitle(userMessage: string): Promise<string | null> {
+    const response = await this.gemini.generateWithNativeTools(
+      [{
+        role: 'user',
+        content: `Write a short title (at most 6 words) for a conversation that starts with the message below. Reply with the title only, no quotes or punctuation at the end.\n\n${userMessage.substring(0, 2000)}`,
+      }],
+      {
+        temperature: 0.3,
+        maxOutputTokens: 32,
+        thinkingConfig: { thinkingBudget: 0, includeThoughts: false },
+      }
+    );
+    
+    const title = response.text
+      .split('\n')[0]
+      .replace(/^["'#*\s]+|["'*.\s]+$/g, '')
+      .substring(0, 80);
+    return title || null;
+  }
+
+  /**
+   * Max tool calls executed concurrently within one admin turn
+   */
+  private getToolConcurrency(): number {
+    const configured = Number(this.env.TOOL_CONCURRENCY);
+    return Number.isFinite(configured) && configured >= 1
+      ? Math.floor(configured)
+      : DEFAULT_TOOL_CONCURRENCY;
+  }
+
+  /**
+   * Calls that mutate the same task must not interleave (todo.json and
+   * artifact writes are read-modify-write). Delegations and run_python save
+   * their artifacts to the task, so they share its key. Shell calls share
+   * the tool's working directory and always run in order. Returns null for
+   * independent calls.
+   */
+  private getToolSerializationKey(toolName: string, args: any): string | null {
+    if (toolName === 'workspace_shell') {
+      return 'workspace_shell';
+    }
+    if ((toolName === 'planned_tasks' || toolName === 'artifact_tool' || toolName === 'run_python') && args?.taskId) {
+      return `task:${args.taskId}`;
+    }
+    if ((toolName === 'delegate_to_worker' || toolName === 'delegate_batch') && args?.task_id) {
+      return `task:${args.task_id}`;
+    }
+    return null;
+  }
+
   private buildPhaseAwareSystemPrompt(phase: ConversationPhase): string {
     const basePrompt = this.adminSystemPrompt;
     
@@ -735,7 +1213,11 @@ Execute task steps systematically via workers.
       review: `
 CURRENT PHASE: REVIEW
 Validate step outputs and gather user feedback.
-- Present step results clearly
+- Check quality with delegate_to_worker(worker_type='review', task_id, step_number)
+- Record the verdict with planned_tasks(record_review, reviewId=<id the review returned>)
+- Review failed: redo the step with its defects as constraints, then review again
+- Steps with requireReview can only be completed after a passing review
+- Present step results and the review score clearly
 - Use ask_user for validation if needed
 - If approved: transition back to execution for next step
 - If complete: transition to delivery
@@ -765,13 +1247,29 @@ Present final results and prepare for next task.
         this.metrics.phaseTransitions++;
       }
       
+      if (action === 'load_task' && result.data?.todo) {
+        const nextStep = result.data.todo.steps?.find(
+          (s: any) => s.status !== 'completed' && s.status !== 'skipped'
+        );
+        this.phaseManager.setActiveTask(result.data.taskId, nextStep?.number ?? 1);
+      }
+      
       if (action === 'update_task') {
+        if (typeof result.data?.updatedStep === 'number') {
+          this.phaseManager.updateStepNumber(result.data.updatedStep);
+        }
+        
         const taskStatus = result.metadata?.taskStatus;
         if (taskStatus === 'completed' && currentPhase === 'execution') {
           this.phaseManager.transitionTo('delivery', 'All steps completed');
           this.metrics.phaseTransitions++;
         }
       }
+      
+      if (action === 'record_review' && result.metadata?.verdict === 'fail' && currentPhase === 'review') {
+        this.phaseManager.transitionTo('execution', 'Step failed review, reworking');
+        this.metrics.phaseTransitions++;
+      }
     }
   }
 
@@ -779,40 +1277,21 @@ Present final results and prepare for next task.
   // Helper Methods
   // =============================================================
 
-  private formatToolResults(
-    toolResults: Array<{ name: string; result: ToolResult }>
-  ): string {
-    const responses = toolResults.map(({ name, result }) => ({
-      name,
-      response: {
-        success: result.success,
-        data: result.data,
-        summary: result.summary,
-        metadata: result.metadata
+  private buildFunctionResponseParts(
+    toolResults: Array<{ id: string; name: string; result: ToolResult }>
+  ): MessagePart[] {
+    return toolResults.map(({ id, name, result }) => ({
+      functionResponse: {
+        id,
+        name,
+        response: {
+          success: result.success,
+          data: result.data,
+          summary: result.summary,
+          metadata: result.metadata
+        }
       }
     }));
-    
-    return JSON.stringify({ functionResponses: responses }, null, 2);
-  }
-
-  private formatContextForGemini(
-    messages: Message[]
-  ): Array<{ role: string; content: string }> {
-    return messages.map(msg => ({
-      role: msg.role === 'model' ? 'assistant' : 'user',
-      content: this.extractMessageContent(msg),
-    }));
-  }
-
-  private extractMessageContent(msg: Message): string {
-    if ((msg as any).content) return (msg as any).content;
-    if ((msg as any).parts) {
-      return (msg as any).parts
-        .map((p: any) => p.text || '')
-        .filter(Boolean)
-        .join('\n');
-    }
-    return '';
   }
 
   private async saveMessage(role: 'user' | 'model', content: string): Promise<void> {
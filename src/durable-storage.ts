@@ -129,7 +129,7 @@ export class DurableStorage {
 
       const rows = this.sql
         .exec(
-          `SELECT role, parts, timestamp, metadata FROM messages ORDER BY timestamp DESC LIMIT ?`,
+          `SELECT role, parts, timestamp, metadata FROM messages ORDER BY timestamp DESC, id DESC LIMIT ?`,
           actualLimit
         )
         .toArray();
@@ -167,12 +167,10 @@ export class DurableStorage {
     for (const msg of messages) {
       const last = result[result.length - 1];
 
-      // Skip if same role AND same content
+      // Skip if same role AND identical parts (text-only comparison would
+      // collapse distinct functionCall/functionResponse turns)
       if (last && last.role === msg.role) {
-        const lastContent = this.extractMessageContent(last);
-        const msgContent = this.extractMessageContent(msg);
-
-        if (lastContent === msgContent) {
+        if (this.serializeParts(last) === this.serializeParts(msg)) {
           continue;
         }
       }
@@ -183,14 +181,8 @@ export class DurableStorage {
     return result;
   }
 
-  private extractMessageContent(msg: Message): string {
-    if (msg.parts) {
-      return msg.parts
-        .map(p => p.text || '')
-        .filter(Boolean)
-        .join('\n');
-    }
-    return (msg as any).content || '';
+  private serializeParts(msg: Message): string {
+    return JSON.stringify(msg.parts ?? [{ text: (msg as any).content || '' }]);
   }
 
   private async pruneMessages(): Promise<void> {
@@ -204,7 +196,7 @@ export class DurableStorage {
         const toDelete = count - this.maxMessages;
         this.sql.exec(
           `DELETE FROM messages WHERE id IN (
-            SELECT id FROM messages ORDER BY timestamp ASC LIMIT ?
+            SELECT id FROM messages ORDER BY timestamp ASC, id ASC LIMIT ?
           )`,
           toDelete
         );
@@ -302,6 +294,55 @@ export class DurableStorage {
     }
   }
 
+  async loadValue<T>(key: string): Promise<T | null> {
+    await this.ensureSchema();
+
+    if (!this.sql) return null;
+
+    try {
+      const rows = this.sql
+        .exec(`SELECT value FROM kv WHERE key = ?`, key)
+        .toArray();
+
+      return rows.length === 1 ? (JSON.parse(rows[0].value as string) as T) : null;
+    } catch (e) {
+      console.warn(`[Storage] Load value failed for ${key}:`, e);
+      return null;
+    }
+  }
+
+  async saveValue(key: string, value: unknown): Promise<void> {
+    await this.ensureSchema();
+
+    if (!this.sql) return;
+
+    try {
+      this.sql.exec(
+        `INSERT INTO kv (key, value, updated_at) VALUES (?, ?, ?)
+         ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+        key,
+        JSON.stringify(value),
+        Date.now()
+      );
+    } catch (e) {
+      console.error(`[Storage] Save value failed for ${key}:`, e);
+      throw e;
+    }
+  }
+
+  async deleteValue(key: string): Promise<void> {
+    await this.ensureSchema();
+
+    if (!this.sql) return;
+
+    try {
+      this.sql.exec('DELETE FROM kv WHERE key = ?', key);
+    } catch (e) {
+      console.error(`[Storage] Delete value failed for ${key}:`, e);
+      throw e;
+    }
+  }
+
   // -----------------------------------------------------------
   // Artifact Operations
   // -----------------------------------------------------------
@@ -421,6 +462,19 @@ export class DurableStorage {
     }
   }
 
+  /**
+   * Remove everything this Durable Object has stored, including the
+   * KV-API entries written outside the SQL tables and any pending alarm.
+   * deleteAll() drops the SQL tables too, so the next call recreates them.
+   */
+  async destroy(): Promise<void> {
+    await this.clearAll();
+    await this.deleteAlarm();
+    await this.state.storage.deleteAll();
+    this.schemaInitialized = false;
+    console.log('[Storage] Durable Object storage destroyed');
+  }
+
   // -----------------------------------------------------------
   // Status & Metrics
   // -----------------------------------------------------------
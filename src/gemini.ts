@@ -1,16 +1,35 @@
 // src/gemini.ts - Gemini Client with Full Native Capabilities (Fixed)
 
 import { GoogleGenAI } from '@google/genai';
-import type { FileMetadata } from './types';
+import type { FileMetadata, MessagePart } from './types';
 
 // =============================================================
 //  Types
 // =============================================================
 
+/**
+ * A conversation turn. Plain `content` is sent as a text part; `parts`
+ * carry native content (functionCall/functionResponse, inline data).
+ */
+export interface ConversationMessage {
+  role: string;
+  content?: string;
+  parts?: MessagePart[];
+  files?: FileMetadata[];
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  thoughtSignature?: string;
+}
+
 export interface GenerateOptions {
   model?: string;
   stream?: boolean;
   timeoutMs?: number;
+  signal?: AbortSignal;
   
   thinkingConfig?: {
     thinkingBudget?: number;
@@ -45,16 +64,15 @@ export interface GenerateOptions {
 export interface GenerateResponse {
   text: string;
   thinking?: string;
-  toolCalls?: Array<{
-    name: string;
-    args: Record<string, any>;
-  }>;
+  toolCalls?: ToolCall[];
   searchResults?: any[];
   codeExecutionResults?: any[];
   finishReason?: string;
   usageMetadata?: {
     promptTokens: number;
     candidatesTokens: number;
+    /** Tokens spent on thinking; included in totalTokens */
+    thoughtsTokens?: number;
     totalTokens: number;
   };
 }
@@ -88,27 +106,29 @@ export class GeminiClient {
   // -----------------------------------------------------------
 
   async generateWithNativeTools(
-    conversationHistory: Array<{ role: string; content: string; files?: FileMetadata[] }>,
+    conversationHistory: ConversationMessage[],
     options: GenerateOptions = {},
     onChunk?: (chunk: string) => void,
     onThinking?: (thought: string) => void
   ): Promise<GenerateResponse> {
     return this.withRetry(async () => {
+      options.signal?.throwIfAborted();
+
       const model = options.model ?? 'gemini-2.5-flash';
       const contents = await this.formatMessages(conversationHistory, options);
       const config = this.buildConfig(options);
 
       if (options.stream) {
-        return await this.streamGenerate(model, contents, config, options.timeoutMs, onChunk, onThinking);
+        return await this.streamGenerate(model, contents, config, options.timeoutMs, onChunk, onThinking, options.signal);
       } else {
         return await this.generate(model, contents, config, options.timeoutMs);
       }
-    });
+    }, options.signal);
   }
 
   // Alias for backward compatibility
   async generateWithTools(
-    conversationHistory: Array<{ role: string; content: string; files?: FileMetadata[] }>,
+    conversationHistory: ConversationMessage[],
     tools: ToolDefinition[],
     options: GenerateOptions = {},
     onChunk?: (chunk: string) => void,
@@ -143,7 +163,8 @@ export class GeminiClient {
     config: any,
     timeoutMs?: number,
     onChunk?: (chunk: string) => void,
-    onThinking?: (thought: string) => void
+    onThinking?: (thought: string) => void,
+    signal?: AbortSignal
   ): Promise<GenerateResponse> {
     const streamResp = await this.withTimeout(
       this.ai.models.generateContentStream({ model, contents, config } as any),
@@ -153,7 +174,7 @@ export class GeminiClient {
 
     let fullText = '';
     let thinking = '';
-    const toolCalls: Array<{ name: string; args: Record<string, any> }> = [];
+    const toolCalls: ToolCall[] = [];
     const searchResults: any[] = [];
     const codeExecutionResults: any[] = [];
     let usageMetadata: any = null;
@@ -162,6 +183,8 @@ export class GeminiClient {
     try {
       if (streamResp && typeof streamResp[Symbol.asyncIterator] === 'function') {
         for await (const chunk of streamResp) {
+          if (signal?.aborted) break;
+
           // Extract and stream text content
           const text = chunk?.text ?? chunk?.delta ?? '';
           if (text) {
@@ -188,10 +211,7 @@ export class GeminiClient {
           if (chunk?.candidates?.[0]?.content?.parts) {
             for (const part of chunk.candidates[0].content.parts) {
               if (part.functionCall) {
-                toolCalls.push({
-                  name: part.functionCall.name,
-                  args: part.functionCall.args || {},
-                });
+                toolCalls.push(toToolCall(part, toolCalls.length));
               }
             }
           }
@@ -223,9 +243,14 @@ export class GeminiClient {
         }
       }
     } catch (e) {
-      console.error('[Gemini] Stream error:', e);
+      if (!signal?.aborted) {
+        console.error('[Gemini] Stream error:', e);
+      }
     }
 
+    // Surface cancellation instead of returning a truncated response
+    signal?.throwIfAborted();
+
     return {
       text: fullText,
       thinking: thinking || undefined,
@@ -242,7 +267,7 @@ export class GeminiClient {
   // -----------------------------------------------------------
 
   private async formatMessages(
-    history: Array<{ role: string; content: string; files?: FileMetadata[] }>,
+    history: ConversationMessage[],
     options: GenerateOptions
   ): Promise<any[]> {
     const contents: any[] = [];
@@ -253,12 +278,14 @@ export class GeminiClient {
       if (msg.role === 'system') {
         contents.push({
           role: 'user',
-          parts: [{ text: `[System Instructions]\n${msg.content}` }],
+          parts: [{ text: `[System Instructions]\n${msg.content ?? ''}` }],
         });
         continue;
       }
 
-      if (msg.content) {
+      if (msg.parts) {
+        parts.push(...msg.parts.map(toGeminiPart).filter(Boolean));
+      } else if (msg.content) {
         parts.push({ text: msg.content });
       }
 
@@ -284,6 +311,9 @@ export class GeminiClient {
         }
       }
 
+      if (parts.length === 0) continue;
+
+      // Function responses (role 'function'/'tool') are sent as user turns
       contents.push({
         role: msg.role === 'model' || msg.role === 'assistant' ? 'model' : 'user',
         parts,
@@ -313,6 +343,8 @@ export class GeminiClient {
       responseSchema: options.responseSchema,
       
       safetySettings: options.safetySettings,
+      
+      abortSignal: options.signal,
     };
 
     const tools: any[] = [];
@@ -383,10 +415,7 @@ export class GeminiClient {
 
       const functionCalls = parts.filter((p: any) => p.functionCall);
       if (functionCalls.length > 0) {
-        result.toolCalls = functionCalls.map((fc: any) => ({
-          name: fc.functionCall.name,
-          args: fc.functionCall.args || {},
-        }));
+        result.toolCalls = functionCalls.map((fc: any, index: number) => toToolCall(fc, index));
       }
 
       const codeResults = parts.filter((p: any) => p.codeExecutionResult);
@@ -402,6 +431,7 @@ export class GeminiClient {
         result.usageMetadata = {
           promptTokens: response.usageMetadata.promptTokenCount,
           candidatesTokens: response.usageMetadata.candidatesTokenCount,
+          thoughtsTokens: response.usageMetadata.thoughtsTokenCount,
           totalTokens: response.usageMetadata.totalTokenCount,
         };
       }
@@ -421,19 +451,19 @@ export class GeminiClient {
   // -----------------------------------------------------------
 
   async uploadFile(
-    fileDataBase64: string,
+    data: Uint8Array,
     mimeType: string,
     displayName: string
   ): Promise<FileMetadata> {
     return this.withRetry(async () => {
-      const buffer = Buffer.from(fileDataBase64, 'base64');
+      const blob = new Blob([new Uint8Array(data)], { type: mimeType });
 
       // Dynamic timeout based on file size
-      const timeoutMs = Math.max(60000, buffer.length / 1000);
+      const timeoutMs = Math.max(60000, data.byteLength / 1000);
 
       const uploadResp: any = await this.withTimeout(
         this.ai.files.upload({
-          file: buffer as any,
+          file: blob,
           config: { mimeType, displayName },
         }),
         'Upload timeout',
@@ -466,7 +496,7 @@ export class GeminiClient {
         fileUri: meta?.uri,
         mimeType: meta?.mimeType ?? mimeType,
         name: meta?.displayName ?? displayName,
-        sizeBytes: meta?.sizeBytes ?? buffer.length,
+        sizeBytes: meta?.sizeBytes ?? data.byteLength,
         uploadedAt: Date.now(),
         state: meta?.state ?? 'ACTIVE',
         expiresAt: meta?.expirationTime
@@ -621,13 +651,16 @@ export class GeminiClient {
   // Resilience Helpers
   // -----------------------------------------------------------
 
-  private async withRetry<T>(fn: () => Promise<T>): Promise<T> {
+  private async withRetry<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
     let lastErr: any;
 
     for (let i = 0; i < this.maxRetries; i++) {
       try {
         return await this.circuitBreaker.execute(fn);
       } catch (err) {
+        // Never retry a cancelled request
+        if (signal?.aborted || isAbortError(err)) throw err;
+
         lastErr = err;
         console.warn(`[Gemini] Attempt ${i + 1}/${this.maxRetries} failed:`, err);
 
@@ -661,6 +694,40 @@ export class GeminiClient {
   }
 }
 
+/**
+ * Normalize a functionCall part; the API doesn't always assign call ids
+ */
+function toToolCall(part: any, index: number): ToolCall {
+  return {
+    id: part.functionCall.id || `call_${Date.now().toString(36)}_${index + 1}`,
+    name: part.functionCall.name,
+    args: part.functionCall.args || {},
+    thoughtSignature: part.thoughtSignature,
+  };
+}
+
+/**
+ * Convert a stored MessagePart to a Gemini content part.
+ * Our `thought` text is display-only and is not sent back.
+ */
+function toGeminiPart(part: MessagePart): any | null {
+  if (part.functionCall) {
+    return {
+      functionCall: part.functionCall,
+      ...(part.thoughtSignature ? { thoughtSignature: part.thoughtSignature } : {}),
+    };
+  }
+  if (part.functionResponse) return { functionResponse: part.functionResponse };
+  if (part.inlineData) return { inlineData: part.inlineData };
+  if (part.fileData) return { fileData: part.fileData };
+  if (part.text) return { text: part.text };
+  return null;
+}
+
+function isAbortError(err: unknown): boolean {
+  return err instanceof Error && err.name === 'AbortError';
+}
+
 // =============================================================
 // Circuit Breaker
 // =============================================================
@@ -681,7 +748,8 @@ class CircuitBreaker {
       this.onSuccess();
       return result;
     } catch (e) {
-      this.onFailure();
+      // Cancellations are not upstream failures
+      if (!isAbortError(e)) this.onFailure();
       throw e;
     }
   }
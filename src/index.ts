@@ -2,10 +2,19 @@
 
 import { OrionAgent } from './durable-agent';
 import { D1Manager } from './storage/d1-manager';
+import { authenticate, isAuthEnabled } from './auth/auth';
+import { WorkspaceStore, getMissingBackendSettings, resolveBackendKind } from './workspace/backends';
+import { Workspace, type ScopedWorkspace } from './workspace/workspace';
+import { CURRENT_STATE, SnapshotManager } from './workspace/snapshots';
+import { LeaseHeldError } from './workspace/lease';
+import { ArtifactVersions, isVersionHistoryPath } from './workspace/versions';
+import { AgentRegistry } from './agents/agent-wrapper';
+import { BUILT_IN_WORKER_TYPES } from './workers/specialized-workers';
+import { GeminiClient } from './gemini';
 import type { Env, OrionRPC } from './types';
 import type { DurableObjectStub } from '@cloudflare/workers-types';
 
-export { OrionAgent };
+export { OrionAgent, WorkspaceStore };
 
 // =============================================================
 // Helper Functions
@@ -34,6 +43,206 @@ function isValidSessionId(sessionId: string): boolean {
   return /^[a-zA-Z0-9_-]{1,64}$/.test(sessionId);
 }
 
+function isValidUserId(userId: string): boolean {
+  return /^[a-zA-Z0-9_.@-]{1,128}$/.test(userId);
+}
+
+function getAgentStub(env: Env, sessionId: string): DurableObjectStub<OrionRPC> {
+  const id = env.AGENT.idFromName(`session:${sessionId}`);
+  return env.AGENT.get(id) as DurableObjectStub<OrionRPC>;
+}
+
+// =============================================================
+// Uploads
+// =============================================================
+
+interface UploadBody {
+  name: string;
+  mimeType: string;
+  body: ReadableStream<Uint8Array>;
+}
+
+/**
+ * multipart/form-data with a `file` field, or a raw body named by
+ * ?name= / X-File-Name (streamed end to end)
+ */
+async function readUpload(request: Request): Promise<UploadBody | null> {
+  const contentType = request.headers.get('Content-Type') || '';
+
+  if (contentType.startsWith('multipart/form-data')) {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!file || typeof file === 'string') return null;
+    return { name: file.name, mimeType: file.type || 'application/octet-stream', body: file.stream() };
+  }
+
+  const name = new URL(request.url).searchParams.get('name') || request.headers.get('X-File-Name');
+  if (!name || !request.body) return null;
+  return { name, mimeType: contentType || 'application/octet-stream', body: request.body };
+}
+
+function safeFileName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9._-]/g, '_').replace(/^\.+/, '').slice(0, 200) || 'upload';
+}
+
+/**
+ * The same tenant workspace the session's agent uses, or null when no
+ * backend is configured
+ */
+function getRequestWorkspace(env: Env, sessionId: string, userId: string | null): ScopedWorkspace | null {
+  const kind = resolveBackendKind(env);
+  if (!kind || getMissingBackendSettings(env, kind).length > 0) return null;
+
+  try {
+    Workspace.initialize(env);
+    return Workspace.forScope({ userId: userId ?? undefined, sessionId });
+  } catch (err) {
+    console.error('[Worker] Workspace unavailable:', err);
+    return null;
+  }
+}
+
+// =============================================================
+// Session Access
+// =============================================================
+
+type SessionAccess =
+  | { ok: true; stub: DurableObjectStub<OrionRPC>; userId: string | null }
+  | { ok: false; response: Response };
+
+/**
+ * Authenticate the caller and verify they may reach this session's
+ * Durable Object. With auth enabled, sessions owned by someone else or by
+ * no one (created before auth was turned on) are rejected with 403, and a
+ * missing D1 binding fails with 503 rather than skipping the check.
+ */
+async function resolveSessionAccess(
+  request: Request,
+  env: Env,
+  sessionId: string
+): Promise<SessionAccess> {
+  const auth = await authenticate(request, env);
+  if (!auth.ok) {
+    return { ok: false, response: errorResponse(auth.error, auth.status) };
+  }
+
+  const userId = auth.identity?.userId ?? null;
+  if (userId && !isValidUserId(userId)) {
+    return { ok: false, response: errorResponse('Invalid user ID format', 400) };
+  }
+
+  if (isAuthEnabled(env) && !env.DB) {
+    return { ok: false, response: errorResponse('Session storage not configured', 503) };
+  }
+
+  // Ensure session exists in D1 and belongs to the caller
+  if (env.DB) {
+    const d1 = new D1Manager(env.DB);
+    const existing = await d1.getSession(sessionId);
+
+    let ownerId = existing?.userId ?? null;
+
+    if (!existing) {
+      await d1.createSession(sessionId, undefined, userId ?? undefined);
+      ownerId = userId;
+    }
+
+    // Without auth, X-User-ID is only advisory and ownership is not enforced
+    if (isAuthEnabled(env) && ownerId !== userId) {
+      return { ok: false, response: errorResponse('Session belongs to another user', 403) };
+    }
+  }
+
+  const stub = getAgentStub(env, sessionId);
+
+  // An unauthenticated X-User-ID only labels the session; it must not pick
+  // the tenant workspace or the user-scoped memories
+  const verifiedUserId = auth.identity?.method === 'anonymous' ? null : userId;
+
+  // Bind session to user so user-scoped memory is shared across sessions
+  if (verifiedUserId) {
+    await stub.setUser(verifiedUserId);
+  }
+
+  return { ok: true, stub, userId: verifiedUserId };
+}
+
+// =============================================================
+// Session Management
+// =============================================================
+
+/**
+ * /api/sessions (list) and /api/sessions/:id (rename, delete).
+ * These address sessions by path rather than session_id, so they are
+ * routed before the per-session RPC handler.
+ */
+async function routeToSessions(
+  request: Request,
+  env: Env,
+  path: string
+): Promise<Response> {
+  const auth = await authenticate(request, env);
+  if (!auth.ok) return errorResponse(auth.error, auth.status);
+
+  const userId = auth.identity?.userId ?? null;
+  if (userId && !isValidUserId(userId)) {
+    return errorResponse('Invalid user ID format', 400);
+  }
+
+  const d1 = env.DB ? new D1Manager(env.DB) : null;
+
+  try {
+    if (path === '/api/sessions') {
+      if (request.method !== 'GET') return new Response('Method Not Allowed', { status: 405 });
+      if (!d1) return errorResponse('Session storage not configured', 503);
+
+      const url = new URL(request.url);
+      const limit = Math.min(Math.max(Number(url.searchParams.get('limit')) || 50, 1), 200);
+      const sessions = await d1.listSessions(limit, userId ?? undefined);
+      return jsonResponse({ sessions });
+    }
+
+    const sessionId = decodeURIComponent(path.slice('/api/sessions/'.length));
+    if (!isValidSessionId(sessionId)) {
+      return errorResponse('Invalid session ID format', 400);
+    }
+
+    const existing = d1 ? await d1.getSession(sessionId) : null;
+    if (existing && isAuthEnabled(env) && existing.userId !== userId) {
+      return errorResponse('Session belongs to another user', 403);
+    }
+
+    if (request.method === 'PATCH') {
+      if (!d1) return errorResponse('Session storage not configured', 503);
+      if (!existing) return errorResponse('Session not found', 404);
+
+      const { title } = await request.json() as { title?: string };
+      const trimmed = typeof title === 'string' ? title.trim() : '';
+      if (!trimmed || trimmed.length > 200) {
+        return errorResponse('title must be 1-200 characters', 400);
+      }
+
+      await d1.updateSessionTitle(sessionId, trimmed);
+      return jsonResponse({ session: { ...existing, title: trimmed } });
+    }
+
+    if (request.method === 'DELETE') {
+      if (!d1) return errorResponse('Session storage not configured', 503);
+      // Only sessions D1 knows about (and whose ownership was checked) are destroyed
+      if (!existing) return errorResponse('Session not found', 404);
+
+      const result = await getAgentStub(env, sessionId).destroy();
+      await d1.deleteSession(sessionId);
+      return jsonResponse({ ok: true, sessionId, filesDeleted: result.filesDeleted });
+    }
+
+    return new Response('Method Not Allowed', { status: 405 });
+  } catch (err: any) {
+    console.error('[Worker] Session route error:', err);
+    return errorResponse(err.message || 'Session request failed', 500);
+  }
+}
+
 // =============================================================
 // RPC Routing
 // =============================================================
@@ -54,23 +263,92 @@ async function routeToRPC(
   }
 
   try {
-    // Get Durable Object stub
-    const id = env.AGENT.idFromName(`session:${sessionId}`);
-    const stub = env.AGENT.get(id) as DurableObjectStub<OrionRPC>;
-
-    // Ensure session exists in D1
-    if (env.DB) {
-      const d1 = new D1Manager(env.DB);
-      const existing = await d1.getSession(sessionId);
-      if (!existing) {
-        await d1.createSession(sessionId);
-      }
-    }
+    const access = await resolveSessionAccess(request, env, sessionId);
+    if (!access.ok) return access.response;
+    const { stub, userId } = access;
 
     const url = new URL(request.url);
     const path = url.pathname;
 
+    // Background task runs: /api/tasks/:id/run
+    const taskRunMatch = path.match(/^\/api\/tasks\/([^/]+)\/run$/);
+    if (taskRunMatch) {
+      const taskId = decodeURIComponent(taskRunMatch[1]);
+
+      if (request.method === 'POST') {
+        const result = await stub.startTaskRun(taskId);
+        return jsonResponse({ run: result });
+      }
+      if (request.method === 'GET') {
+        const result = await stub.getTaskRun(taskId);
+        if (!result) return errorResponse('No run found for task', 404);
+        return jsonResponse({ run: result });
+      }
+      if (request.method === 'DELETE') {
+        const result = await stub.cancelTaskRun(taskId);
+        if (!result) return errorResponse('No run found for task', 404);
+        return jsonResponse({ run: result });
+      }
+      return new Response('Method Not Allowed', { status: 405 });
+    }
+
+    // Task snapshots: /api/tasks/:id/snapshots[/:snapshotId[/diff|/restore]]
+    const snapshotMatch = path.match(/^\/api\/tasks\/([^/]+)\/snapshots(?:\/([^/]+)(?:\/(diff|restore))?)?$/);
+    if (snapshotMatch) {
+      const workspace = getRequestWorkspace(env, sessionId, userId);
+      if (!workspace) return errorResponse('Workspace not configured', 503);
+
+      const [, taskId, snapshotId, operation] = snapshotMatch.map(p => p && decodeURIComponent(p));
+      const snapshots = await SnapshotManager.forTask(workspace, taskId);
+      if (!snapshots) return errorResponse('Task not found', 404);
+
+      return routeSnapshotRequest(request, url, snapshots, snapshotId, operation);
+    }
+
+    // Task list and artifact history for the UI panel
+    if (path === '/api/tasks' && request.method === 'GET') {
+      const workspace = getRequestWorkspace(env, sessionId, userId);
+      return jsonResponse({ tasks: workspace ? await listTasks(workspace) : [] });
+    }
+
+    const artifactMatch = path.match(/^\/api\/tasks\/([^/]+)\/artifacts(?:\/(history|version|diff))?$/);
+    if (artifactMatch && request.method === 'GET') {
+      const workspace = getRequestWorkspace(env, sessionId, userId);
+      if (!workspace) return errorResponse('Workspace not configured', 503);
+
+      const versions = await ArtifactVersions.forTask(workspace, decodeURIComponent(artifactMatch[1]));
+      if (!versions) return errorResponse('Task not found', 404);
+
+      return routeArtifactRequest(url, workspace, versions, artifactMatch[2]);
+    }
+
+    // Custom worker types: /api/agents[/:id]
+    const agentMatch = path.match(/^\/api\/agents(?:\/([^/]+))?$/);
+    if (agentMatch) {
+      const workspace = getRequestWorkspace(env, sessionId, userId);
+      if (!workspace) return errorResponse('Workspace not configured', 503);
+
+      // Same tenant registry the session's WorkerFactory reads (no Vectorize)
+      const agents = new AgentRegistry(workspace, new GeminiClient({ apiKey: env.GEMINI_API_KEY }), null);
+      return routeAgentRequest(request, agents, agentMatch[1] && decodeURIComponent(agentMatch[1]));
+    }
+
+    // Long-term memory: /api/memory/:id
+    const memoryMatch = path.match(/^\/api\/memory\/([^/]+)$/);
+    if (memoryMatch && request.method === 'DELETE') {
+      const result = await stub.deleteMemory(decodeURIComponent(memoryMatch[1]));
+      if (!result.ok) return errorResponse('Memory not found', 404);
+      return jsonResponse(result);
+    }
+
     switch (path) {
+      case '/api/memory':
+        if (request.method === 'GET') {
+          const result = await stub.listMemories();
+          return jsonResponse(result);
+        }
+        break;
+
       case '/api/chat':
         if (request.method === 'POST') {
           const { message, images } = await request.json();
@@ -100,6 +378,13 @@ async function routeToRPC(
         }
         break;
 
+      case '/api/cancel':
+        if (request.method === 'POST') {
+          const result = await stub.cancel();
+          return jsonResponse(result);
+        }
+        break;
+
       case '/api/status':
         if (request.method === 'GET') {
           const result = await stub.getStatus();
@@ -107,16 +392,30 @@ async function routeToRPC(
         }
         break;
 
+      case '/api/phase':
+        if (request.method === 'GET') {
+          const result = await stub.getPhase();
+          return jsonResponse(result);
+        }
+        break;
+
       case '/api/upload':
         if (request.method === 'POST') {
-          const formData = await request.formData();
-          const file = formData.get('file') as File;
-          if (!file) return errorResponse('No file provided', 400);
-
-          const buffer = await file.arrayBuffer();
-          const base64 = btoa(String.fromCharCode(...new Uint8Array(buffer)));
+          const upload = await readUpload(request);
+          if (!upload) return errorResponse('No file provided', 400);
+
+          // Stream into the workspace; the agent hands it to Gemini from there
+          const workspace = getRequestWorkspace(env, sessionId, userId);
+          if (workspace) {
+            const uploadPath = `uploads/${Date.now()}_${safeFileName(upload.name)}`;
+            await workspace.writeFile(uploadPath, upload.body, upload.mimeType);
+            const result = await stub.uploadFromWorkspace(uploadPath, upload.mimeType, upload.name);
+            return jsonResponse(result);
+          }
 
-          const result = await stub.uploadFile(base64, file.type, file.name);
+          // No workspace: raw bytes over RPC
+          const data = new Uint8Array(await new Response(upload.body).arrayBuffer());
+          const result = await stub.uploadFile(data, upload.mimeType, upload.name);
           return jsonResponse(result);
         }
         break;
@@ -145,6 +444,173 @@ async function routeToRPC(
   }
 }
 
+async function listTasks(workspace: ScopedWorkspace) {
+  if (await workspace.exists('tasks') !== 'directory') return [];
+  const tasksDir = await workspace.readdir('tasks');
+
+  return Promise.all(tasksDir.directories.map(async taskId => {
+    try {
+      const metadata = JSON.parse(await workspace.readFileText(`tasks/${taskId}/metadata.json`));
+      return { taskId, title: metadata.title, status: metadata.status, updatedAt: metadata.updatedAt };
+    } catch {
+      return { taskId, title: taskId, status: 'unknown', updatedAt: 0 };
+    }
+  }));
+}
+
+/**
+ * GET /artifacts                                  list (with version counts)
+ * GET /artifacts/history?filename=                versions of one artifact
+ * GET /artifacts/version?filename=&version=       content of one version
+ * GET /artifacts/diff?filename=&from=&to=         unified diff (to defaults to latest)
+ */
+async function routeArtifactRequest(
+  url: URL,
+  workspace: ScopedWorkspace,
+  versions: ArtifactVersions,
+  operation: string | undefined
+): Promise<Response> {
+  if (!operation) {
+    const files = (await workspace.listFiles(`${versions.taskPath}/artifacts`))
+      .filter(f => !isVersionHistoryPath(f.name));
+    const artifacts = await Promise.all(files.map(async f => ({
+      name: f.name,
+      size: f.size,
+      modified: f.modified,
+      versions: (await versions.history(f.name)).length
+    })));
+    return jsonResponse({ artifacts });
+  }
+
+  const filename = url.searchParams.get('filename');
+  if (!filename) return errorResponse('filename required', 400);
+
+  if (operation === 'history') {
+    return jsonResponse({ filename, versions: await versions.history(filename) });
+  }
+
+  if (operation === 'version') {
+    const result = await versions.read(filename, Number(url.searchParams.get('version')));
+    if (!result) return errorResponse('Version not found', 404);
+    return jsonResponse({ filename, version: result.version, content: new TextDecoder().decode(result.content) });
+  }
+
+  const from = Number(url.searchParams.get('from'));
+  const to = url.searchParams.get('to') ? Number(url.searchParams.get('to')) : undefined;
+  try {
+    return jsonResponse({ filename, ...await versions.diff(filename, from, to) });
+  } catch (err: any) {
+    return errorResponse(err.message, err.message.includes('not found') ? 404 : 400);
+  }
+}
+
+/**
+ * GET    /agents          list valid definitions
+ * POST   /agents          create (409 if the id exists)
+ * GET    /agents/:id      one definition
+ * PUT    /agents/:id      create or replace (the URL id wins)
+ * DELETE /agents/:id      remove
+ */
+async function routeAgentRequest(
+  request: Request,
+  agents: AgentRegistry,
+  agentId: string | undefined
+): Promise<Response> {
+  const save = async (body: any, status: number): Promise<Response> => {
+    if (BUILT_IN_WORKER_TYPES.includes(body?.id)) {
+      return errorResponse(`"${body.id}" is a built-in worker type`, 400);
+    }
+    try {
+      return jsonResponse({ agent: await agents.saveAgent(body) }, status);
+    } catch (err: any) {
+      return errorResponse(err.message, 400);
+    }
+  };
+
+  if (!agentId) {
+    if (request.method === 'GET') {
+      return jsonResponse({ agents: await agents.listAllAgents() });
+    }
+    if (request.method === 'POST') {
+      const body = await request.json().catch(() => null) as { id?: string } | null;
+      if (body?.id && await agents.loadAgent(body.id)) {
+        return errorResponse(`Agent already exists: ${body.id}`, 409);
+      }
+      return save(body, 201);
+    }
+    return new Response('Method Not Allowed', { status: 405 });
+  }
+
+  if (!AgentRegistry.isValidId(agentId)) return errorResponse('Invalid agent id', 400);
+
+  switch (request.method) {
+    case 'GET': {
+      const agent = await agents.loadAgent(agentId);
+      return agent ? jsonResponse({ agent }) : errorResponse('Agent not found', 404);
+    }
+    case 'PUT': {
+      const body = await request.json().catch(() => null) as Record<string, unknown> | null;
+      return save(body && { ...body, id: agentId }, 200);
+    }
+    case 'DELETE':
+      return await agents.deleteAgent(agentId)
+        ? jsonResponse({ ok: true })
+        : errorResponse('Agent not found', 404);
+    default:
+      return new Response('Method Not Allowed', { status: 405 });
+  }
+}
+
+/**
+ * GET    /snapshots                  list
+ * POST   /snapshots                  create ({ label? })
+ * GET    /snapshots/:id              manifest
+ * GET    /snapshots/:id/diff?to=     diff against another snapshot or current
+ * POST   /snapshots/:id/restore      restore ({ prune?, leaseToken? })
+ */
+async function routeSnapshotRequest(
+  request: Request,
+  url: URL,
+  snapshots: SnapshotManager,
+  snapshotId: string | undefined,
+  operation: string | undefined
+): Promise<Response> {
+  if (!snapshotId) {
+    if (request.method === 'GET') {
+      return jsonResponse({ snapshots: await snapshots.list() });
+    }
+    if (request.method === 'POST') {
+      const body = await request.json().catch(() => ({})) as { label?: string };
+      return jsonResponse({ snapshot: await snapshots.create({ reason: 'manual', label: body.label }) }, 201);
+    }
+    return new Response('Method Not Allowed', { status: 405 });
+  }
+
+  if (!await snapshots.get(snapshotId)) return errorResponse('Snapshot not found', 404);
+
+  if (operation === 'diff' && request.method === 'GET') {
+    const to = url.searchParams.get('to') || CURRENT_STATE;
+    if (to !== CURRENT_STATE && !await snapshots.get(to)) return errorResponse('Snapshot not found', 404);
+    return jsonResponse({ diff: await snapshots.diff(snapshotId, to) });
+  }
+
+  if (operation === 'restore' && request.method === 'POST') {
+    const body = await request.json().catch(() => ({})) as { prune?: boolean; leaseToken?: string };
+    try {
+      return jsonResponse({ result: await snapshots.restore(snapshotId, body) });
+    } catch (err) {
+      if (err instanceof LeaseHeldError) return errorResponse(err.message, 409);
+      throw err;
+    }
+  }
+
+  if (!operation && request.method === 'GET') {
+    return jsonResponse({ snapshot: await snapshots.get(snapshotId) });
+  }
+
+  return new Response('Method Not Allowed', { status: 405 });
+}
+
 // =============================================================
 // WebSocket Routing
 // =============================================================
@@ -161,19 +627,10 @@ async function routeToWebSocket(
   }
 
   try {
-    const id = env.AGENT.idFromName(`session:${sessionId}`);
-    const stub = env.AGENT.get(id);
-
-    // Ensure session in D1
-    if (env.DB) {
-      const d1 = new D1Manager(env.DB);
-      const existing = await d1.getSession(sessionId);
-      if (!existing) {
-        await d1.createSession(sessionId);
-      }
-    }
+    const access = await resolveSessionAccess(request, env, sessionId);
+    if (!access.ok) return access.response;
 
-    return await stub.fetch(request);
+    return await access.stub.fetch(request);
   } catch (err: any) {
     console.error('[Worker] WebSocket routing error:', err);
     return errorResponse(err.message || 'WebSocket routing failed', 500);
@@ -196,8 +653,8 @@ export default {
     // CORS
     const corsHeaders = {
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Session-ID',
+      'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Session-ID, X-User-ID, X-API-Key, X-File-Name',
     };
 
     if (request.method === 'OPTIONS') {
@@ -216,36 +673,29 @@ export default {
           };
         }
 
-        // Check B2 configuration
-        const b2Status = {
-          configured: !!(
-            env.B2_KEY_ID &&
-            env.B2_APPLICATION_KEY &&
-            env.B2_S3_ENDPOINT &&
-            env.B2_BUCKET
-          ),
-          validation: {
-            hasKeyId: !!env.B2_KEY_ID,
-            hasAppKey: !!env.B2_APPLICATION_KEY,
-            hasEndpoint: !!env.B2_S3_ENDPOINT,
-            hasBucket: !!env.B2_BUCKET,
-            hasBasePath: !!env.B2_BASE_PATH,
-            endpointFormat: env.B2_S3_ENDPOINT ? 
-              (String(env.B2_S3_ENDPOINT).startsWith('http') ? 'valid' : 'invalid (missing protocol)') : 
-              'missing',
-            endpointValue: env.B2_S3_ENDPOINT ? 
-              String(env.B2_S3_ENDPOINT) : 
-              'not set'
-          }
-        };
+        // Check workspace backend configuration
+        let workspaceStatus: Record<string, unknown>;
+        try {
+          const backend = resolveBackendKind(env);
+          const missing = backend ? getMissingBackendSettings(env, backend) : [];
+          workspaceStatus = {
+            backend: backend ?? 'none',
+            configured: !!backend && missing.length === 0,
+            missing,
+            basePath: env.WORKSPACE_BASE_PATH ?? env.B2_BASE_PATH ?? '',
+          };
+        } catch (err: any) {
+          workspaceStatus = { backend: 'invalid', configured: false, error: err.message };
+        }
 
         return jsonResponse({
           status: 'ok',
           name: 'ORION AI-Collaborator',
           version: '2.1.0',
-          architecture: 'Admin-Worker v2 with B2 Workspace',
+          architecture: 'Admin-Worker v2 with pluggable Workspace',
           d1: d1Status,
-          workspace: b2Status,
+          workspace: workspaceStatus,
+          auth: { enabled: isAuthEnabled(env) },
           timestamp: new Date().toISOString()
         });
       }
@@ -256,6 +706,11 @@ export default {
         return await routeToWebSocket(request, env, ctx);
       }
 
+      // Session management
+      if (path === '/api/sessions' || path.startsWith('/api/sessions/')) {
+        return await routeToSessions(request, env, path);
+      }
+
       // API routes
       if (path.startsWith('/api/')) {
         return await routeToRPC(request, env, ctx);
@@ -0,0 +1,159 @@
+// src/memory/memory-extractor.ts - Post-turn extraction of long-term memories
+
+import type { GeminiClient } from '../gemini';
+import type { MemoryEntry, MemoryScope } from '../types';
+import type { MemoryManager } from './memory-manager';
+
+export type ExtractedMemoryType = 'fact' | 'preference' | 'procedure';
+
+export interface ConversationExchange {
+  userMessage: string;
+  response: string;
+  toolSummaries?: string[];
+}
+
+interface ExtractedMemory {
+  content: string;
+  type: ExtractedMemoryType;
+  scope: MemoryScope;
+  importance: number;
+}
+
+const EXTRACTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    memories: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          content: { type: 'string' },
+          type: { type: 'string', enum: ['fact', 'preference', 'procedure'] },
+          scope: { type: 'string', enum: ['session', 'user'] },
+          importance: { type: 'number' },
+        },
+        required: ['content', 'type', 'scope', 'importance'],
+      },
+    },
+  },
+  required: ['memories'],
+};
+
+const EXTRACTION_TYPES: ExtractedMemoryType[] = ['fact', 'preference', 'procedure'];
+
+/**
+ * Distills durable facts, preferences and procedures from a completed
+ * exchange and saves them to semantic memory, skipping near-duplicates.
+ */
+export class MemoryExtractor {
+  private readonly duplicateThreshold = 0.9;
+  private readonly minImportance = 0.3;
+  private readonly maxPerExchange = 5;
+
+  constructor(
+    private gemini: GeminiClient,
+    private memory: MemoryManager
+  ) {}
+
+  async extractAndSave(exchange: ConversationExchange): Promise<MemoryEntry[]> {
+    const candidates = await this.extract(exchange);
+    if (candidates.length === 0) return [];
+
+    const fresh: Omit<MemoryEntry, 'id'>[] = [];
+
+    for (const candidate of candidates) {
+      if (await this.isDuplicate(candidate.content)) {
+        console.log(`[MemoryExtractor] Skipping duplicate: ${candidate.content.substring(0, 60)}`);
+        continue;
+      }
+      fresh.push({
+        content: candidate.content,
+        type: candidate.type,
+        scope: candidate.scope,
+        importance: candidate.importance,
+        timestamp: Date.now(),
+        metadata: { source: 'extraction' },
+      });
+    }
+
+    if (fresh.length === 0) return [];
+
+    const ids = await this.memory.saveMemoryBatch(fresh);
+    console.log(`[MemoryExtractor] Saved ${ids.length} memories`);
+
+    return fresh.map((entry, i) => ({ ...entry, id: ids[i] }));
+  }
+
+  // -----------------------------------------------------------
+  // Extraction
+  // -----------------------------------------------------------
+
+  private async extract(exchange: ConversationExchange): Promise<ExtractedMemory[]> {
+    const tools = exchange.toolSummaries?.length
+      ? `\n\nTool results:\n${exchange.toolSummaries.map(s => `- ${s}`).join('\n')}`
+      : '';
+
+    const prompt = `Extract information worth remembering long-term from this exchange between a user and an AI assistant.
+
+Types:
+- fact: durable facts about the user, their projects, or their domain
+- preference: how the user likes things done (tone, formats, tools, constraints)
+- procedure: reusable steps or workflows that worked
+
+Scopes:
+- user: true of the user in any future conversation (preferences, role, background, standing constraints)
+- session: only relevant to the current project or task
+
+Rules:
+- Each memory must be a self-contained sentence understandable without the conversation.
+- Skip small talk, transient requests and anything only relevant to this turn.
+- importance is 0-1 (1 = essential to future conversations).
+- Return an empty list if nothing qualifies.
+
+User: ${exchange.userMessage}
+
+Assistant: ${exchange.response}${tools}`;
+
+    const response = await this.gemini.generateWithNativeTools(
+      [{ role: 'user', content: prompt }],
+      {
+        temperature: 0.2,
+        maxOutputTokens: 1024,
+        thinkingConfig: { thinkingBudget: 0, includeThoughts: false },
+        responseMimeType: 'application/json',
+        responseSchema: EXTRACTION_SCHEMA,
+      }
+    );
+
+    try {
+      const parsed = JSON.parse(response.text);
+      const memories: any[] = Array.isArray(parsed?.memories) ? parsed.memories : [];
+
+      return memories
+        .filter(m =>
+          typeof m?.content === 'string' &&
+          m.content.trim().length > 0 &&
+          EXTRACTION_TYPES.includes(m.type)
+        )
+        .map(m => ({
+          content: m.content.trim(),
+          type: m.type as ExtractedMemoryType,
+          scope: (m.scope === 'user' ? 'user' : 'session') as MemoryScope,
+          importance: Math.min(1, Math.max(0, Number(m.importance) || 0)),
+        }))
+        .filter(m => m.importance >= this.minImportance)
+        .slice(0, this.maxPerExchange);
+    } catch (e) {
+      console.warn('[MemoryExtractor] Failed to parse extraction:', e);
+      return [];
+    }
+  }
+
+  private async isDuplicate(content: string): Promise<boolean> {
+    const matches = await this.memory.searchMemory(content, {
+      topK: 1,
+      threshold: this.duplicateThreshold,
+    });
+    return matches.length > 0;
+  }
+}
@@ -3,7 +3,7 @@
 import type { VectorizeIndex } from '@cloudflare/workers-types';
 import type { DurableObjectStorage } from '@cloudflare/workers-types';
 import type { GeminiClient } from '../gemini';
-import type { MemoryEntry, MemorySearchResult } from '../types';
+import type { MemoryEntry, MemoryScope, MemorySearchResult } from '../types';
 
 // =============================================================
 // Memory Manager Configuration
@@ -25,6 +25,18 @@ const DEFAULT_CONFIG: MemoryConfig = {
   cacheTTL: 3600000, // 1 hour
 };
 
+const USER_MEMORY_CACHE_KEY = 'user_mem_cache';
+const USER_MEMORY_LIMIT = 20;
+const STORAGE_DELETE_BATCH = 128;
+// Memories added or deleted in the user's other sessions show up after this
+const USER_MEMORY_CACHE_TTL = 60000;
+
+interface UserMemoryCache {
+  userId: string;
+  memories: MemoryEntry[];
+  loadedAt: number;
+}
+
 // =============================================================
 // Persistent Embedding Cache
 // =============================================================
@@ -142,7 +154,11 @@ export class MemoryManager {
   private vectorize: VectorizeIndex | null;
   private gemini: GeminiClient;
   private sessionId: string;
+  private userId?: string;
+  private userMemories: MemoryEntry[] = [];
+  private userMemoriesLoadedAt = 0;
   private config: MemoryConfig;
+  private storage: DurableObjectStorage;
   private embeddingCache: PersistentEmbeddingCache;
 
   private metrics = {
@@ -163,6 +179,7 @@ export class MemoryManager {
     this.gemini = gemini;
     this.sessionId = sessionId;
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.storage = storage;
     this.embeddingCache = new PersistentEmbeddingCache(
       storage,
       this.config.cacheSize,
@@ -243,20 +260,15 @@ export class MemoryManager {
 
     const id = `mem_${this.sessionId}_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
     const embedding = await this.generateEmbedding(entry.content);
+    const scoped = this.applyScope({ ...entry, id });
 
     await this.vectorize.upsert([{
       id,
       values: embedding,
-      metadata: {
-        sessionId: this.sessionId,
-        content: entry.content,
-        type: entry.type,
-        importance: entry.importance,
-        timestamp: entry.timestamp,
-        ...entry.metadata,
-      },
+      metadata: this.toVectorMetadata(scoped),
     }]);
 
+    await this.indexMemories([scoped]);
     return id;
   }
 
@@ -267,32 +279,183 @@ export class MemoryManager {
     const texts = entries.map(e => e.content);
     const embeddings = await this.generateEmbeddingBatch(texts);
 
+    const scopedEntries: MemoryEntry[] = [];
+
     const vectors = entries.map((entry, i) => {
       const id = `mem_${this.sessionId}_${Date.now()}_${i}_${Math.random().toString(36).substr(2, 4)}`;
       ids.push(id);
 
+      const scoped = this.applyScope({ ...entry, id });
+      scopedEntries.push(scoped);
+
       return {
         id,
         values: embeddings[i],
-        metadata: {
-          sessionId: this.sessionId,
-          content: entry.content,
-          type: entry.type,
-          importance: entry.importance,
-          timestamp: entry.timestamp,
-          ...entry.metadata,
-        },
+        metadata: this.toVectorMetadata(scoped),
       };
     });
 
     await this.vectorize.upsert(vectors);
+    await this.indexMemories(scopedEntries);
     return ids;
   }
 
+  // -----------------------------------------------------------
+  // Local Index (Vectorize can't list by metadata)
+  // -----------------------------------------------------------
+
+  /**
+   * List memories saved from this session, newest first
+   */
+  async listMemories(): Promise<MemoryEntry[]> {
+    try {
+      const entries = await this.storage.list<MemoryEntry>({ prefix: 'mem:' });
+      return Array.from(entries.values()).sort((a, b) => b.timestamp - a.timestamp);
+    } catch (e) {
+      console.warn('[Memory] List failed:', e);
+      return [];
+    }
+  }
+
+  async getMemory(id: string): Promise<MemoryEntry | null> {
+    const local = await this.storage.get<MemoryEntry>(`mem:${id}`);
+    return local ?? this.userMemories.find(m => m.id === id) ?? null;
+  }
+
+  private async indexMemories(entries: MemoryEntry[]): Promise<void> {
+    try {
+      const batch: Record<string, MemoryEntry> = {};
+      for (const entry of entries) {
+        batch[`mem:${entry.id}`] = entry;
+      }
+      await this.storage.put(batch);
+
+      const userEntries = entries.filter(e => e.scope === 'user');
+      if (userEntries.length > 0 && this.userId) {
+        this.userMemories = [...userEntries, ...this.userMemories].slice(0, USER_MEMORY_LIMIT);
+        await this.saveUserCache();
+      }
+    } catch (e) {
+      console.warn('[Memory] Index update failed:', e);
+    }
+  }
+
+  // -----------------------------------------------------------
+  // User Scope
+  // -----------------------------------------------------------
+
+  /**
+   * Attach the session to a user so user-scoped memories are shared
+   * across that user's sessions
+   */
+  async setUserId(userId: string): Promise<void> {
+    if (this.userId === userId) return;
+    this.userId = userId;
+    this.userMemories = [];
+    this.userMemoriesLoadedAt = 0;
+    await this.loadUserMemories();
+  }
+
+  getUserId(): string | undefined {
+    return this.userId;
+  }
+
+  /**
+   * User-scoped memories, shared across the user's sessions. Loaded from
+   * Vectorize and cached in memory and DO storage for USER_MEMORY_CACHE_TTL,
+   * so changes made in other sessions are picked up within a minute.
+   */
+  async loadUserMemories(force = false): Promise<MemoryEntry[]> {
+    if (!this.userId) return [];
+
+    if (!force) {
+      if (Date.now() - this.userMemoriesLoadedAt < USER_MEMORY_CACHE_TTL) {
+        return this.userMemories;
+      }
+      const cached = await this.storage.get<UserMemoryCache>(USER_MEMORY_CACHE_KEY);
+      if (cached && cached.userId === this.userId && Date.now() - cached.loadedAt < USER_MEMORY_CACHE_TTL) {
+        this.userMemories = cached.memories;
+        this.userMemoriesLoadedAt = cached.loadedAt;
+        return this.userMemories;
+      }
+    }
+
+    if (!this.vectorize) return [];
+
+    // A failed load is not retried until the TTL runs out
+    this.userMemoriesLoadedAt = Date.now();
+    try {
+      // Vectorize can't list by filter alone; query with a broad profile probe
+      const embedding = await this.generateEmbedding('user preferences, background, facts and working style');
+      const results = await this.vectorize.query(embedding, {
+        topK: USER_MEMORY_LIMIT,
+        filter: { userId: this.userId, scope: 'user' },
+        returnMetadata: true,
+      });
+
+      this.userMemories = (results.matches || []).map(match => this.fromVectorMetadata(
+        match.id,
+        match.metadata as Record<string, unknown>
+      ));
+      await this.saveUserCache();
+
+      console.log(`[Memory] Loaded ${this.userMemories.length} user memories for ${this.userId}`);
+    } catch (e) {
+      console.warn('[Memory] User memory load failed:', e);
+    }
+
+    return this.userMemories;
+  }
+
+  private async saveUserCache(): Promise<void> {
+    if (!this.userId) return;
+    await this.storage.put<UserMemoryCache>(USER_MEMORY_CACHE_KEY, {
+      userId: this.userId,
+      memories: this.userMemories,
+      loadedAt: this.userMemoriesLoadedAt,
+    });
+  }
+
+  /**
+   * User scope requires a known user; otherwise memories stay in the session
+   */
+  private applyScope(entry: MemoryEntry): MemoryEntry {
+    const scope: MemoryScope = entry.scope === 'user' && this.userId ? 'user' : 'session';
+    return { ...entry, scope, userId: this.userId };
+  }
+
+  private toVectorMetadata(entry: MemoryEntry): Record<string, VectorizeVectorMetadata> {
+    return {
+      sessionId: this.sessionId,
+      content: entry.content,
+      type: entry.type,
+      importance: entry.importance,
+      timestamp: entry.timestamp,
+      scope: entry.scope ?? 'session',
+      ...(entry.userId ? { userId: entry.userId } : {}),
+      ...(entry.metadata as Record<string, VectorizeVectorMetadata> | undefined),
+    };
+  }
+
+  private fromVectorMetadata(id: string, metadata: Record<string, unknown>): MemoryEntry {
+    return {
+      id,
+      content: String(metadata?.content ?? ''),
+      type: (metadata?.type as MemoryEntry['type']) ?? 'fact',
+      importance: Number(metadata?.importance ?? 0.5),
+      timestamp: Number(metadata?.timestamp ?? 0),
+      scope: (metadata?.scope as MemoryScope) ?? 'session',
+      userId: metadata?.userId as string | undefined,
+    };
+  }
+
   // -----------------------------------------------------------
   // Memory Search
   // -----------------------------------------------------------
 
+  /**
+   * Search this session's memories plus the user's shared memories
+   */
   async searchMemory(
     query: string,
     options: {
@@ -310,17 +473,32 @@ export class MemoryManager {
 
     const queryEmbedding = await this.generateEmbedding(query);
 
-    const results = await this.vectorize.query(queryEmbedding, {
-      topK,
-      filter: {
-        sessionId: this.sessionId,
-        ...options.filter,
-      },
-      returnMetadata: true,
-    });
+    // Vectorize filters have no $or, so query each namespace separately
+    const filters: Record<string, unknown>[] = [
+      { sessionId: this.sessionId, ...options.filter },
+    ];
+    if (this.userId) {
+      filters.push({ userId: this.userId, scope: 'user', ...options.filter });
+    }
 
-    return (results.matches || [])
-      .filter(match => match.score >= threshold)
+    const responses = await Promise.all(filters.map(filter =>
+      this.vectorize!.query(queryEmbedding, {
+        topK,
+        filter: filter as VectorizeVectorMetadataFilter,
+        returnMetadata: true,
+      })
+    ));
+
+    const seen = new Set<string>();
+    return responses
+      .flatMap(r => r.matches || [])
+      .filter(match => {
+        if (seen.has(match.id) || match.score < threshold) return false;
+        seen.add(match.id);
+        return true;
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
       .map(match => ({
         id: match.id,
         content: (match.metadata as any)?.content || '',
@@ -390,12 +568,32 @@ export class MemoryManager {
 
   async clearSessionMemory(): Promise<void> {
     await this.embeddingCache.clear();
-    console.log(`[Memory] Cleared cache for session ${this.sessionId}`);
+
+    // User-scoped memories outlive the session
+    const ids = (await this.listMemories())
+      .filter(m => m.scope !== 'user')
+      .map(m => m.id);
+    if (ids.length > 0) {
+      if (this.vectorize) await this.vectorize.deleteByIds(ids);
+      // DO storage deletes at most 128 keys per call
+      for (let i = 0; i < ids.length; i += STORAGE_DELETE_BATCH) {
+        await this.storage.delete(ids.slice(i, i + STORAGE_DELETE_BATCH).map(id => `mem:${id}`));
+      }
+    }
+
+    console.log(`[Memory] Cleared cache and ${ids.length} memories for session ${this.sessionId}`);
   }
 
   async deleteMemory(id: string): Promise<void> {
-    if (!this.vectorize) return;
-    await this.vectorize.deleteByIds([id]);
+    if (this.vectorize) {
+      await this.vectorize.deleteByIds([id]);
+    }
+    await this.storage.delete(`mem:${id}`);
+
+    if (this.userMemories.some(m => m.id === id)) {
+      this.userMemories = this.userMemories.filter(m => m.id !== id);
+      await this.saveUserCache();
+    }
   }
 
   // -----------------------------------------------------------
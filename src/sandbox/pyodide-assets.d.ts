@@ -0,0 +1,26 @@
+// src/sandbox/pyodide-assets.d.ts - Pyodide runtime files bundled by wrangler
+
+// CompiledWasm rule in wrangler.toml: imported as a precompiled module
+declare module 'pyodide/pyodide.asm.wasm' {
+  const module: WebAssembly.Module;
+  export default module;
+}
+
+// Side-effect import; defines globalThis._createPyodideModule
+declare module 'pyodide/pyodide.asm.js';
+
+/**
+ * Emscripten module factory that loadPyodide calls with its settings
+ */
+declare var _createPyodideModule: (settings: {
+  instantiateWasm?: (
+    imports: WebAssembly.Imports,
+    receive: (instance: WebAssembly.Instance, module: WebAssembly.Module) => void
+  ) => object;
+  [key: string]: unknown;
+}) => Promise<unknown>;
+
+/**
+ * Build flag (wrangler `define`): true when Pyodide is bundled into the Worker
+ */
+declare const PYTHON_SANDBOX: boolean;
@@ -0,0 +1,39 @@
+// src/sandbox/pyodide-runtime.ts - Bundled Pyodide runtime (PYTHON_SANDBOX builds only)
+
+/// <reference path="./pyodide-assets.d.ts" />
+import { loadPyodide, type PyodideInterface } from 'pyodide';
+// Workers can't compile Wasm fetched at runtime or import remote scripts, so
+// the runtime is bundled: the asm.js glue registers its module factory on
+// globalThis and the Wasm arrives precompiled through the CompiledWasm rule
+import 'pyodide/pyodide.asm.js';
+import pyodideWasm from 'pyodide/pyodide.asm.wasm';
+
+/**
+ * loadPyodide builds its Emscripten settings internally and hands them to
+ * this factory; Emscripten's instantiateWasm setting is where the
+ * precompiled module goes in. (loadPyodide still starts a request for the
+ * indexURL copy of the Wasm, which is never read.)
+ */
+const createPyodideModule = globalThis._createPyodideModule;
+globalThis._createPyodideModule = settings => {
+  settings.instantiateWasm = (imports, receive) => {
+    WebAssembly.instantiate(pyodideWasm, imports)
+      .then(instance => receive(instance, pyodideWasm))
+      .catch(err => console.error('[PythonSandbox] Wasm instantiation failed:', err));
+    return {};
+  };
+  return createPyodideModule(settings);
+};
+
+/**
+ * A new interpreter. Python's `js` module sees only the timer functions
+ * asyncio needs, not the Worker's globals (fetch, bindings, ...).
+ */
+export function loadBundledPyodide(indexURL: string): Promise<PyodideInterface> {
+  return loadPyodide({
+    indexURL,
+    jsglobals: { setTimeout, clearTimeout },
+    // matplotlib would otherwise pick its browser backend, which needs `js`
+    env: { MPLBACKEND: 'Agg' }
+  });
+}
@@ -0,0 +1,547 @@
+// src/sandbox/python-sandbox.ts - Pyodide (WASM) Python runtime with workspace mounting
+
+/// <reference path="./pyodide-assets.d.ts" />
+import type { PyodideInterface } from 'pyodide';
+import type { PyProxy } from 'pyodide/ffi';
+import type { ScopedWorkspace } from '../workspace/workspace';
+import { inferMimeType } from '../workspace/mime';
+import { isVersionHistoryPath } from '../workspace/versions';
+
+// =============================================================
+// Types
+// =============================================================
+
+export interface PythonSandboxOptions {
+  indexURL?: string;      // Where the stdlib zip, lock file and packages are fetched from
+  timeoutMs?: number;     // Wall-clock limit per run, including package loading (see HARNESS)
+  cpuLimitMs?: number;    // Python CPU time limit per run
+  maxOutputChars?: number;
+}
+
+export interface PythonRunRequest {
+  code: string;
+  taskId?: string;
+  timeoutMs?: number;
+}
+
+export interface GeneratedFile {
+  path: string;           // Workspace path the file was saved to ('' when not persisted)
+  name: string;           // Path relative to the mounted task folder
+  size: number;
+}
+
+export interface PythonRunResult {
+  success: boolean;
+  stdout: string;
+  stderr: string;
+  error?: string;
+  timedOut: boolean;
+  durationMs: number;
+  taskFolder?: string;
+  files: GeneratedFile[];
+  logPath?: string;
+}
+
+// =============================================================
+// Limits
+// =============================================================
+
+const DEFAULT_INDEX_URL = 'https://cdn.jsdelivr.net/pyodide/v0.26.4/full/';
+const DEFAULT_TIMEOUT_MS = 30_000;
+const MAX_TIMEOUT_MS = 120_000;
+const DEFAULT_MAX_OUTPUT_CHARS = 20_000;
+const SUMMARY_OUTPUT_CHARS = 1500;
+
+const MOUNT_DIR = '/workspace';
+const MAX_MOUNT_FILES = 200;
+const MAX_MOUNT_BYTES = 20 * 1024 * 1024;
+const MAX_GENERATED_FILES = 50;
+const MAX_GENERATED_FILE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Top-level modules user code may not import: the JavaScript bridge and
+ * Pyodide's own API, which reach fetch, loadPackage from any URL and the
+ * interpreter internals
+ */
+const BLOCKED_MODULES = ['js', 'pyodide', 'pyodide_js', '_pyodide', '_pyodide_core', 'micropip'];
+
+/**
+ * Takes the blocked modules out of sys.modules for the run; the caller
+ * holds the returned dict and puts them back afterwards
+ */
+const HIDE_MODULES = `
+import sys
+{name: sys.modules.pop(name) for name in list(sys.modules) if name.split(".")[0] in __blocked__}
+`;
+
+/**
+ * Runs user code in a fresh __main__ namespace, with an import hook that
+ * refuses BLOCKED_MODULES (they are also out of sys.modules, see
+ * HIDE_MODULES). The trace function is the
+ * only thing enforcing the wall-clock and CPU deadlines during execution:
+ * synchronous Python holds the isolate's only thread, so the JS-side
+ * timeout can't fire until it yields. It checks between Python lines, so
+ * code stuck inside a single native call isn't interrupted at all and runs
+ * into the Worker's own CPU limit instead.
+ */
+const HARNESS = `
+import json, sys, time, traceback
+
+class __OrionImportBlocker:
+    @staticmethod
+    def find_spec(name, path=None, target=None):
+        if name.split(".")[0] in __blocked__:
+            raise ModuleNotFoundError(f"No module named {name!r} (not available in the sandbox)")
+        return None
+
+def __orion_run():
+    wall_deadline = time.monotonic() + __wall_limit__
+    cpu_deadline = time.process_time() + __cpu_limit__
+    state = {"timed_out": False}
+
+    def tracer(frame, event, arg):
+        if time.monotonic() > wall_deadline or time.process_time() > cpu_deadline:
+            state["timed_out"] = True
+            raise TimeoutError("Execution limit exceeded")
+        return tracer
+
+    error = None
+    sys.meta_path.insert(0, __OrionImportBlocker)
+    sys.settrace(tracer)
+    try:
+        exec(compile(__code__, "<run_python>", "exec"), {"__name__": "__main__"})
+    except BaseException as exc:
+        error = "".join(traceback.format_exception_only(type(exc), exc)).strip()
+        if not state["timed_out"]:
+            traceback.print_exc()
+    finally:
+        sys.settrace(None)
+        if __OrionImportBlocker in sys.meta_path:
+            sys.meta_path.remove(__OrionImportBlocker)
+        sys.stdout.flush()
+        sys.stderr.flush()
+    return json.dumps({"error": error, "timed_out": state["timed_out"]})
+
+__orion_run()
+`;
+
+// =============================================================
+// Sandbox
+// =============================================================
+
+/**
+ * Python sandbox backed by one Pyodide instance per isolate, reloaded
+ * whenever a different tenant runs code so interpreter state (imported
+ * modules, files outside /workspace) never crosses tenants.
+ *
+ * Each run gets a clean /workspace populated from the task's folder
+ * (tasks/<id>/). Files the code creates or changes are saved to
+ * tasks/<id>/artifacts/ along with a log of stdout/stderr; the rest of the
+ * task folder is never written back, so task state can't be clobbered.
+ *
+ * Pyodide is only bundled into PYTHON_SANDBOX builds (see wrangler.toml);
+ * it pushes the Worker past the free plan's 3 MiB size limit.
+ */
+export class PythonSandbox {
+  private static runtime: { tenant: string; pyodide: Promise<PyodideInterface> } | null = null;
+  private static queue: Promise<unknown> = Promise.resolve();
+
+  /** Whether this build includes the Pyodide runtime */
+  static readonly available = PYTHON_SANDBOX;
+
+  private tenant: string;
+  private indexURL: string;
+  private timeoutMs: number;
+  private cpuLimitMs: number;
+  private maxOutputChars: number;
+
+  constructor(
+    private workspace: ScopedWorkspace | null,
+    options: PythonSandboxOptions = {}
+  ) {
+    this.indexURL = options.indexURL || DEFAULT_INDEX_URL;
+    this.timeoutMs = Math.min(options.timeoutMs || DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS);
+    this.cpuLimitMs = options.cpuLimitMs || this.timeoutMs;
+    this.maxOutputChars = options.maxOutputChars || DEFAULT_MAX_OUTPUT_CHARS;
+    // Without a workspace there is no tenant to share a runtime with
+    this.tenant = workspace?.tenant ?? `sandbox:${crypto.randomUUID()}`;
+  }
+
+  /**
+   * Pyodide is single-threaded: runs are queued so they never share
+   * stdout handlers or the mounted directory.
+   */
+  async run(request: PythonRunRequest): Promise<PythonRunResult> {
+    const next = PythonSandbox.queue.then(() => this.runExclusive(request));
+    PythonSandbox.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async runExclusive(request: PythonRunRequest): Promise<PythonRunResult> {
+    const startTime = Date.now();
+    const timeoutMs = Math.min(request.timeoutMs || this.timeoutMs, MAX_TIMEOUT_MS);
+    const cpuLimitMs = Math.min(this.cpuLimitMs, timeoutMs);
+
+    const taskFolder = request.taskId ? await this.resolveTaskFolder(request.taskId) : undefined;
+    if (request.taskId && !taskFolder) {
+      throw new Error(`Task not found: ${request.taskId}`);
+    }
+
+    const pyodide = await this.withTimeout(this.getRuntime(), timeoutMs, 'Pyodide failed to load');
+
+    // Fresh working directory with the task folder mounted
+    this.resetMount(pyodide);
+    const mounted = taskFolder ? await this.mountTaskFolder(pyodide, taskFolder) : new Map<string, Uint8Array>();
+    pyodide.FS.chdir(MOUNT_DIR);
+
+    const stdout = new OutputBuffer(this.maxOutputChars);
+    const stderr = new OutputBuffer(this.maxOutputChars);
+    pyodide.setStdout({ batched: (line: string) => stdout.push(line) });
+    pyodide.setStderr({ batched: (line: string) => stderr.push(line) });
+
+    let error: string | undefined;
+    let timedOut = false;
+
+    const namespace = pyodide.toPy({
+      __code__: request.code,
+      __wall_limit__: timeoutMs / 1000,
+      __cpu_limit__: cpuLimitMs / 1000,
+      __blocked__: BLOCKED_MODULES
+    });
+    let hidden: PyProxy | undefined;
+
+    try {
+      const remaining = () => Math.max(timeoutMs - (Date.now() - startTime), 1);
+      await this.withTimeout(pyodide.loadPackagesFromImports(request.code), remaining(), 'Package loading timed out');
+
+      hidden = pyodide.runPython(HIDE_MODULES, { globals: namespace });
+      const outcome = await this.withTimeout(
+        pyodide.runPythonAsync(HARNESS, { globals: namespace }),
+        remaining(),
+        'Execution timed out'
+      );
+      const parsed = JSON.parse(String(outcome)) as { error: string | null; timed_out: boolean };
+      error = parsed.error || undefined;
+      timedOut = parsed.timed_out;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      timedOut = /timed out/i.test(error);
+    } finally {
+      if (hidden) {
+        // Pyodide's own code needs them between runs
+        const sys = pyodide.pyimport('sys');
+        sys.modules.update(hidden);
+        sys.destroy();
+        hidden.destroy();
+      }
+      namespace.destroy();
+      pyodide.setStdout();
+      pyodide.setStderr();
+    }
+
+    const files = await this.collectGeneratedFiles(pyodide, taskFolder, mounted);
+
+    const result: PythonRunResult = {
+      success: !error,
+      stdout: stdout.toString(),
+      stderr: stderr.toString(),
+      error,
+      timedOut,
+      durationMs: Date.now() - startTime,
+      taskFolder,
+      files
+    };
+
+    if (taskFolder && this.workspace) {
+      result.logPath = await this.writeRunLog(taskFolder, request.code, result);
+    }
+
+    console.log(`[PythonSandbox] Run ${result.success ? 'succeeded' : 'failed'} in ${result.durationMs}ms (${files.length} files)`);
+    return result;
+  }
+
+  // -----------------------------------------------------------
+  // Runtime
+  // -----------------------------------------------------------
+
+  private getRuntime(): Promise<PyodideInterface> {
+    if (PythonSandbox.runtime?.tenant === this.tenant) {
+      return PythonSandbox.runtime.pyodide;
+    }
+    // Runs are queued, so nothing is still using the previous tenant's interpreter
+    console.log(`[PythonSandbox] Loading Pyodide for ${this.tenant} (stdlib and packages from ${this.indexURL})`);
+    // A constant condition, so builds without the flag drop the import
+    const load = PYTHON_SANDBOX
+      ? import('./pyodide-runtime').then(({ loadBundledPyodide }) => loadBundledPyodide(this.indexURL))
+      : Promise.reject(new Error('This build does not include the Python sandbox (deploy with --define PYTHON_SANDBOX:true)'));
+    const runtime = {
+      tenant: this.tenant,
+      pyodide: load.catch(err => {
+        // Allow a later run to retry the load
+        if (PythonSandbox.runtime === runtime) PythonSandbox.runtime = null;
+        throw err;
+      })
+    };
+    PythonSandbox.runtime = runtime;
+    return runtime.pyodide;
+  }
+
+  /**
+   * Bounds the asynchronous parts of a run (loading, package fetches);
+   * see HARNESS for why it can't stop synchronous Python
+   */
+  private async withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`${message} after ${ms}ms`)), ms);
+    });
+
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // -----------------------------------------------------------
+  // Mounting
+  // -----------------------------------------------------------
+
+  private async resolveTaskFolder(taskId: string): Promise<string | undefined> {
+    if (!this.workspace) {
+      throw new Error('Workspace not initialized');
+    }
+    const tasksDir = await this.workspace.readdir('tasks');
+    return tasksDir.directories.find(d => d.includes(taskId));
+  }
+
+  private resetMount(pyodide: PyodideInterface): void {
+    const FS = pyodide.FS;
+    // Leave the mount point before removing it
+    FS.chdir('/');
+    if (this.pathExists(pyodide, MOUNT_DIR)) {
+      this.removeTree(pyodide, MOUNT_DIR);
+    }
+    FS.mkdirTree(MOUNT_DIR);
+  }
+
+  /**
+   * Copy tasks/<folder>/ into /workspace, returning the mounted bytes so
+   * changes can be detected after the run
+   */
+  private async mountTaskFolder(pyodide: PyodideInterface, taskFolder: string): Promise<Map<string, Uint8Array>> {
+    const mounted = new Map<string, Uint8Array>();
+    // Snapshot and version history stay out of the sandbox
+    const files = (await this.workspace!.listFiles(`tasks/${taskFolder}`))
+      .filter(file => !file.name.startsWith('checkpoints/') && !isVersionHistoryPath(file.name));
+    let totalBytes = 0;
+
+    for (const file of files) {
+      if (mounted.size >= MAX_MOUNT_FILES || totalBytes + file.size > MAX_MOUNT_BYTES) {
+        console.warn(`[PythonSandbox] Mount limit reached; skipping remaining files in tasks/${taskFolder}`);
+        break;
+      }
+
+      const bytes = await this.workspace!.readFileBytes(`tasks/${taskFolder}/${file.name}`);
+      const target = `${MOUNT_DIR}/${file.name}`;
+      pyodide.FS.mkdirTree(target.slice(0, target.lastIndexOf('/')));
+      pyodide.FS.writeFile(target, bytes);
+
+      mounted.set(file.name, bytes);
+      totalBytes += bytes.byteLength;
+    }
+
+    console.log(`[PythonSandbox] Mounted ${mounted.size} files (${totalBytes} bytes) from tasks/${taskFolder}`);
+    return mounted;
+  }
+
+  /**
+   * Save new or modified files under tasks/<folder>/artifacts/.
+   * Without a task the files are reported but not persisted.
+   */
+  private async collectGeneratedFiles(
+    pyodide: PyodideInterface,
+    taskFolder: string | undefined,
+    mounted: Map<string, Uint8Array>
+  ): Promise<GeneratedFile[]> {
+    const generated: GeneratedFile[] = [];
+
+    for (const name of this.walk(pyodide, MOUNT_DIR)) {
+      if (generated.length >= MAX_GENERATED_FILES) {
+        console.warn(`[PythonSandbox] Generated file limit (${MAX_GENERATED_FILES}) reached`);
+        break;
+      }
+
+      const bytes: Uint8Array = pyodide.FS.readFile(`${MOUNT_DIR}/${name}`);
+      const original = mounted.get(name);
+      if (original && bytesEqual(original, bytes)) continue;
+
+      if (bytes.byteLength > MAX_GENERATED_FILE_BYTES) {
+        console.warn(`[PythonSandbox] Skipping oversized output file: ${name} (${bytes.byteLength} bytes)`);
+        continue;
+      }
+
+      let path = '';
+      if (taskFolder && this.workspace) {
+        const relative = name.startsWith('artifacts/') ? name : `artifacts/${name}`;
+        path = `tasks/${taskFolder}/${relative}`;
+        await this.workspace.writeFile(path, bytes, inferMimeType(name));
+      }
+
+      generated.push({ path, name, size: bytes.byteLength });
+    }
+
+    return generated;
+  }
+
+  private async writeRunLog(taskFolder: string, code: string, result: PythonRunResult): Promise<string> {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const path = `tasks/${taskFolder}/artifacts/python-run-${stamp}.md`;
+
+    const sections = [
+      `# Python run ${stamp}`,
+      '',
+      `- Status: ${result.success ? 'success' : result.timedOut ? 'timed out' : 'error'}`,
+      `- Duration: ${result.durationMs}ms`,
+      ...(result.files.length > 0 ? [`- Files: ${result.files.map(f => f.path).join(', ')}`] : []),
+      '',
+      '## Code',
+      '```python',
+      code,
+      '```',
+      '',
+      '## stdout',
+      '```',
+      result.stdout,
+      '```',
+      '',
+      '## stderr',
+      '```',
+      result.stderr,
+      '```'
+    ];
+
+    await this.workspace!.writeFile(path, sections.join('\n'), 'text/markdown');
+    return path;
+  }
+
+  // -----------------------------------------------------------
+  // FS Helpers
+  // -----------------------------------------------------------
+
+  private pathExists(pyodide: PyodideInterface, path: string): boolean {
+    return pyodide.FS.analyzePath(path).exists;
+  }
+
+  /**
+   * Relative paths of all regular files below a directory
+   */
+  private walk(pyodide: PyodideInterface, root: string, relative = ''): string[] {
+    const FS = pyodide.FS;
+    const dir = relative ? `${root}/${relative}` : root;
+    const files: string[] = [];
+
+    for (const entry of FS.readdir(dir) as string[]) {
+      if (entry === '.' || entry === '..') continue;
+
+      const name = relative ? `${relative}/${entry}` : entry;
+      const mode = FS.stat(`${root}/${name}`).mode;
+
+      if (FS.isDir(mode)) {
+        files.push(...this.walk(pyodide, root, name));
+      } else if (FS.isFile(mode)) {
+        files.push(name);
+      }
+    }
+
+    return files;
+  }
+
+  private removeTree(pyodide: PyodideInterface, path: string): void {
+    const FS = pyodide.FS;
+
+    for (const entry of FS.readdir(path) as string[]) {
+      if (entry === '.' || entry === '..') continue;
+
+      const child = `${path}/${entry}`;
+      if (FS.isDir(FS.stat(child).mode)) {
+        this.removeTree(pyodide, child);
+      } else {
+        FS.unlink(child);
+      }
+    }
+
+    FS.rmdir(path);
+  }
+}
+
+// =============================================================
+// Helpers
+// =============================================================
+
+/**
+ * Line collector that stops growing past a character cap
+ */
+class OutputBuffer {
+  private lines: string[] = [];
+  private size = 0;
+  private truncated = false;
+
+  constructor(private maxChars: number) {}
+
+  push(line: string): void {
+    if (this.truncated) return;
+
+    if (this.size + line.length + 1 > this.maxChars) {
+      this.lines.push(line.slice(0, Math.max(this.maxChars - this.size, 0)));
+      this.lines.push(`... [output truncated at ${this.maxChars} chars]`);
+      this.truncated = true;
+      return;
+    }
+
+    this.lines.push(line);
+    this.size += line.length + 1;
+  }
+
+  toString(): string {
+    return this.lines.join('\n');
+  }
+}
+
+/**
+ * Compact run report shared by the tool and worker code blocks
+ */
+export function formatRunSummary(result: PythonRunResult): string {
+  const parts: string[] = [];
+  const status = result.success ? 'succeeded' : result.timedOut ? 'timed out' : 'failed';
+  parts.push(`Python run ${status} in ${result.durationMs}ms`);
+
+  if (result.error) {
+    parts.push(`Error: ${result.error}`);
+  }
+  if (result.stdout) {
+    parts.push(`stdout:\n${truncateOutput(result.stdout)}`);
+  }
+  if (result.stderr && !result.success) {
+    parts.push(`stderr:\n${truncateOutput(result.stderr)}`);
+  }
+  if (result.files.length > 0) {
+    parts.push(`Files: ${result.files.map(f => f.path || f.name).join(', ')}`);
+  }
+
+  return parts.join('\n');
+}
+
+function truncateOutput(text: string): string {
+  return text.length > SUMMARY_OUTPUT_CHARS
+    ? `${text.slice(0, SUMMARY_OUTPUT_CHARS)}\n... (truncated)`
+    : text;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.byteLength !== b.byteLength) return false;
+  for (let i = 0; i < a.byteLength; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
@@ -2,6 +2,8 @@
 
 import type { Message, Session } from '../types';
 
+export const DEFAULT_SESSION_TITLE = 'New Session';
+
 // =============================================================
 // D1 Manager Class
 // =============================================================
@@ -45,10 +47,19 @@ export class D1Manager {
           created_at INTEGER NOT NULL,
           last_activity_at INTEGER NOT NULL,
           message_count INTEGER DEFAULT 0,
-          metadata TEXT DEFAULT '{}'
+          metadata TEXT DEFAULT '{}',
+          user_id TEXT
         )
       `).run();
 
+      // Migration: sessions created before ownership existed
+      try {
+        await this.db.prepare(`ALTER TABLE sessions ADD COLUMN user_id TEXT`).run();
+        console.log('[D1] Added sessions.user_id column');
+      } catch {
+        // Column already exists
+      }
+
       // Messages table
       await this.db.prepare(`
         CREATE TABLE IF NOT EXISTS messages (
@@ -86,6 +97,10 @@ export class D1Manager {
         CREATE INDEX IF NOT EXISTS idx_sessions_activity ON sessions(last_activity_at DESC)
       `).run();
 
+      await this.db.prepare(`
+        CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id, last_activity_at DESC)
+      `).run();
+
       console.log('[D1] Schema initialized successfully');
     } catch (error) {
       console.error('[D1] Initialization failed:', error);
@@ -99,19 +114,20 @@ export class D1Manager {
   // Session Operations
   // -----------------------------------------------------------
 
-  async createSession(sessionId: string, title?: string): Promise<Session> {
+  async createSession(sessionId: string, title?: string, userId?: string): Promise<Session> {
     await this.ensureInitialized();
     const now = Date.now();
-    const sessionTitle = title || 'New Session';
+    const sessionTitle = title || DEFAULT_SESSION_TITLE;
 
     await this.db.prepare(`
-      INSERT INTO sessions (session_id, title, created_at, last_activity_at, message_count, metadata)
-      VALUES (?, ?, ?, ?, 0, '{}')
+      INSERT INTO sessions (session_id, title, created_at, last_activity_at, message_count, metadata, user_id)
+      VALUES (?, ?, ?, ?, 0, '{}', ?)
       ON CONFLICT(session_id) DO NOTHING
-    `).bind(sessionId, sessionTitle, now, now).run();
+    `).bind(sessionId, sessionTitle, now, now, userId ?? null).run();
 
     return {
       sessionId,
+      userId,
       title: sessionTitle,
       createdAt: now,
       lastActivityAt: now,
@@ -132,12 +148,14 @@ export class D1Manager {
       last_activity_at: number;
       message_count: number;
       metadata: string;
+      user_id: string | null;
     }>();
 
     if (!row) return null;
 
     return {
       sessionId: row.session_id,
+      userId: row.user_id ?? undefined,
       title: row.title,
       createdAt: row.created_at,
       lastActivityAt: row.last_activity_at,
@@ -146,15 +164,20 @@ export class D1Manager {
     };
   }
 
-  async listSessions(limit = 50): Promise<Session[]> {
+  async listSessions(limit = 50, userId?: string): Promise<Session[]> {
     await this.ensureInitialized();
 
-    const result = await this.db.prepare(`
-      SELECT * FROM sessions ORDER BY last_activity_at DESC LIMIT ?
-    `).bind(limit).all();
+    const result = userId
+      ? await this.db.prepare(`
+          SELECT * FROM sessions WHERE user_id = ? ORDER BY last_activity_at DESC LIMIT ?
+        `).bind(userId, limit).all()
+      : await this.db.prepare(`
+          SELECT * FROM sessions ORDER BY last_activity_at DESC LIMIT ?
+        `).bind(limit).all();
 
     return (result.results || []).map((row: any) => ({
       sessionId: row.session_id,
+      userId: row.user_id ?? undefined,
       title: row.title,
       createdAt: row.created_at,
       lastActivityAt: row.last_activity_at,
@@ -182,9 +205,12 @@ export class D1Manager {
   async deleteSession(sessionId: string): Promise<void> {
     await this.ensureInitialized();
 
-    await this.db.prepare(`
-      DELETE FROM sessions WHERE session_id = ?
-    `).bind(sessionId).run();
+    // Explicit deletes in case foreign key enforcement is off
+    await this.db.batch([
+      this.db.prepare(`DELETE FROM messages WHERE session_id = ?`).bind(sessionId),
+      this.db.prepare(`DELETE FROM artifacts WHERE session_id = ?`).bind(sessionId),
+      this.db.prepare(`DELETE FROM sessions WHERE session_id = ?`).bind(sessionId),
+    ]);
   }
 
   // -----------------------------------------------------------
@@ -2,14 +2,21 @@
 
 import type { GeminiClient } from '../gemini';
 import type { MemoryManager } from '../memory/memory-manager';
+import type { FileMetadata } from '../types';
 import type { WorkerFactory } from '../workers/specialized-workers';
 import type { WorkerContext, WorkerResult } from '../workers/worker-types';
+import { gatherWorkerContext } from '../workers/step-context';
+import type { ScopedWorkspace } from '../workspace/workspace';
+import { persistWorkerArtifacts } from '../workspace/worker-artifacts';
+import { savePendingReview } from '../workspace/reviews';
+import { resolveTaskPath } from '../workspace/task-paths';
 import type { 
   AdminTool, 
   ToolResult, 
   FunctionDeclaration,
   SearchResult,
-  MemoryResult
+  MemoryResult,
+  ToolExecutionContext
 } from './tool-types';
 
 /**
@@ -213,15 +220,32 @@ export class KnowledgeSearchTool implements AdminTool<{ query: string }, string>
 
 /**
  * Delegate Tool - Worker invocation
+ *
+ * With a task_id (and a workspace), the worker sees the task overview and
+ * the contents of the step's dependencies, and its artifacts are saved to
+ * the task's artifacts/ folder and listed in the step's outputs. The
+ * session's uploaded files are attached; injected context is capped by
+ * context_budget. A review worker gets the step's own outputs instead and
+ * its artifacts are not saved: its verdict is stored under a review id that
+ * planned_tasks record_review takes. delegate_batch passes an artifactVariant so workers
+ * running the same step don't overwrite each other's files.
  */
 export class DelegateTool implements AdminTool<{
-  worker_type: 'research' | 'code' | 'analysis' | 'content';
+  worker_type: string;
   objective: string;
   step_description?: string;
   constraints?: string[];
   max_turns?: number;
+  task_id?: string;
+  step_number?: number;
+  context_budget?: number;
+  output_schema?: Record<string, any>;
 }, WorkerResult> {
-  constructor(private workerFactory: WorkerFactory) {}
+  constructor(
+    private workerFactory: WorkerFactory,
+    private workspace: ScopedWorkspace | null = null,
+    private sessionFiles: (() => Promise<FileMetadata[]>) | null = null
+  ) {}
   
   getDeclaration(): FunctionDeclaration {
     return {
@@ -232,8 +256,7 @@ export class DelegateTool implements AdminTool<{
         properties: {
           worker_type: {
             type: 'string',
-            enum: ['research', 'code', 'analysis', 'content'],
-            description: 'Type of worker: research (web search), code (execution), analysis (data), content (writing)'
+            description: 'Type of worker: research (web search), code (execution), analysis (data), content (writing), review (scores a step\'s outputs against its objective and requirements; needs task_id and step_number), or the id of a custom agent defined in agents/'
           },
           objective: {
             type: 'string',
@@ -251,6 +274,22 @@ export class DelegateTool implements AdminTool<{
           max_turns: {
             type: 'number',
             description: 'Maximum conversation turns for worker (default 5)'
+          },
+          task_id: {
+            type: 'string',
+            description: 'Active task this work belongs to; artifacts are saved to its artifacts/ folder'
+          },
+          step_number: {
+            type: 'number',
+            description: 'Step of the task being worked on; its dependencies are passed to the worker and saved artifacts are added to its outputs'
+          },
+          context_budget: {
+            type: 'number',
+            description: 'Token budget for injected task context, dependency contents and files (default 16000)'
+          },
+          output_schema: {
+            type: 'object',
+            description: 'JSON schema for the final result (type, properties, required, items, enum). The worker ends with a JSON turn validated against it; the parsed object is returned as data.parsed'
           }
         },
         required: ['worker_type', 'objective']
@@ -259,28 +298,62 @@ export class DelegateTool implements AdminTool<{
   }
   
   async execute(args: {
-    worker_type: 'research' | 'code' | 'analysis' | 'content';
+    worker_type: string;
     objective: string;
     step_description?: string;
     constraints?: string[];
     max_turns?: number;
-  }): Promise<ToolResult<WorkerResult>> {
+    task_id?: string;
+    step_number?: number;
+    context_budget?: number;
+    output_schema?: Record<string, any>;
+  }, execContext?: ToolExecutionContext, options: { artifactVariant?: string } = {}): Promise<ToolResult<WorkerResult>> {
     try {
-      const worker = this.workerFactory.createWorker(args.worker_type);
+      const worker = await this.workerFactory.resolveWorker(args.worker_type);
+      const injected = await gatherWorkerContext(this.workspace, {
+        taskId: args.task_id,
+        stepNumber: args.step_number,
+        files: await this.loadSessionFiles(),
+        budgetTokens: args.context_budget,
+        review: args.worker_type === 'review'
+      });
       
       const context: WorkerContext = {
         type: args.worker_type,
         objective: args.objective,
         stepDescription: args.step_description || args.objective,
         constraints: args.constraints || [],
-        maxTurns: args.max_turns || 5
+        maxTurns: args.max_turns || 5,
+        taskId: args.task_id,
+        stepNumber: args.step_number,
+        taskContext: injected.taskContext || undefined,
+        previousStepOutputs: injected.previousStepOutputs,
+        files: injected.files,
+        // Reviews always end with the review schema record_review expects
+        outputSchema: args.worker_type === 'review' ? undefined : args.output_schema
       };
       
-      const result = await worker.execute(context);
+      const result = await worker.execute(context, execContext?.signal);
+      const saved = await this.saveArtifacts(args, result, options.artifactVariant);
+      const reviewId = await this.saveReview(args, result);
       
-      const summary = result.success
-        ? `Worker completed in ${result.metadata.turnsUsed} turns. ${result.output.substring(0, 150)}...`
-        : `Worker failed: ${result.output}`;
+      let summary = result.metadata.cancelled
+        ? `Worker cancelled after ${result.metadata.turnsUsed} turns (${result.artifacts.length} partial artifacts)`
+        : result.success
+          ? `Worker completed in ${result.metadata.turnsUsed} turns. ${result.output.substring(0, 150)}...`
+          : `Worker failed: ${result.output}`;
+      if (saved.length > 0) {
+        summary += `\nSaved to task ${args.task_id}: ${saved.join(', ')}`;
+      }
+      if (result.parsed !== undefined) {
+        summary += `\nStructured result: ${JSON.stringify(result.parsed).substring(0, 300)}`;
+      }
+      if (reviewId) {
+        summary += `\nReview id: ${reviewId} (store it with planned_tasks record_review)`;
+      }
+      if (injected.omitted.length > 0) {
+        summary += `\nLeft out of the worker's context (budget): ${injected.omitted.join(', ')}`;
+      }
       
       return {
         success: result.success,
@@ -290,7 +363,14 @@ export class DelegateTool implements AdminTool<{
           workerType: args.worker_type,
           turnsUsed: result.metadata.turnsUsed,
           toolsUsed: result.metadata.toolsUsed,
-          artifactCount: result.artifacts.length
+          artifactCount: result.artifacts.length,
+          savedArtifacts: saved,
+          structured: result.parsed !== undefined,
+          schemaErrors: result.metadata.schemaErrors,
+          contextTokens: injected.tokens,
+          contextOmitted: injected.omitted,
+          cancelled: result.metadata.cancelled === true,
+          reviewId
         }
       };
     } catch (error) {
@@ -307,6 +387,68 @@ export class DelegateTool implements AdminTool<{
       };
     }
   }
+  
+  /**
+   * Files uploaded in this session; a lookup failure just means no attachments
+   */
+  private async loadSessionFiles(): Promise<FileMetadata[]> {
+    if (!this.sessionFiles) return [];
+    try {
+      const now = Date.now();
+      return (await this.sessionFiles()).filter(f => f.state !== 'FAILED' && (!f.expiresAt || f.expiresAt > now));
+    } catch (error) {
+      console.warn('[DelegateTool] Could not list session files:', error);
+      return [];
+    }
+  }
+  
+  /**
+   * Persist artifacts when delegating inside a task. Partial artifacts of
+   * a cancelled run are kept too. A failed save is logged, not fatal:
+   * the worker's result is still returned.
+   */
+  private async saveArtifacts(
+    args: { worker_type: string; task_id?: string; step_number?: number },
+    result: WorkerResult,
+    variant?: string
+  ): Promise<string[]> {
+    if (!this.workspace || !args.task_id || result.artifacts.length === 0) return [];
+    // A review's code blocks quote the step's outputs; they aren't deliverables
+    if (args.worker_type === 'review') return [];
+    
+    try {
+      const saved = await persistWorkerArtifacts(this.workspace, args.task_id, result.artifacts, {
+        workerType: args.worker_type,
+        stepNumber: args.step_number,
+        variant
+      });
+      return saved.map(a => a.path);
+    } catch (error) {
+      console.warn(`[DelegateTool] Could not save artifacts to task ${args.task_id}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Store a finished review of a task step so record_review can use it.
+   * Returns the review id, or undefined when there is nothing to store.
+   */
+  private async saveReview(
+    args: { worker_type: string; task_id?: string; step_number?: number },
+    result: WorkerResult
+  ): Promise<string | undefined> {
+    if (args.worker_type !== 'review' || !this.workspace || !args.task_id || args.step_number === undefined) return undefined;
+    if (!result.success || !result.parsed || typeof result.parsed !== 'object') return undefined;
+
+    try {
+      const taskPath = await resolveTaskPath(this.workspace, args.task_id);
+      if (!taskPath) return undefined;
+      return await savePendingReview(this.workspace, taskPath, args.step_number, result.parsed as Record<string, unknown>);
+    } catch (error) {
+      console.warn(`[DelegateTool] Could not store review for task ${args.task_id}:`, error);
+      return undefined;
+    }
+  }
 }
 
 /**
@@ -1,6 +1,7 @@
-// src/tools-v2/artifact-tool.ts - FIXED: Use Workspace singleton
+// src/tools-v2/artifact-tool.ts - Artifact lifecycle in the tenant workspace
 
-import { Workspace } from '../workspace/workspace';
+import type { ScopedWorkspace } from '../workspace/workspace';
+import { ArtifactVersions, isVersionHistoryPath, type ArtifactVersion } from '../workspace/versions';
 import type {
   AdminTool,
   ToolResult,
@@ -8,27 +9,33 @@ import type {
 } from './tool-types';
 
 /**
- * Artifact Tool - Manages artifacts in B2 workspace (FIXED)
+ * Artifact Tool - Manages artifacts in the session's workspace
  * 
- * FIXES APPLIED:
- * ✅ Removed workspace constructor parameter
- * ✅ Uses Workspace singleton directly
- * ✅ Better error messages with workspace status checks
+ * Operates on a ScopedWorkspace, so task lookups only see the
+ * current user's (or session's) tasks.
  */
 export class ArtifactTool implements AdminTool {
-  // No constructor needed - uses Workspace singleton
+  constructor(private handle: ScopedWorkspace | null = null) {}
+
+  /**
+   * Tenant-scoped workspace; only reached after the availability check in execute()
+   */
+  private get workspace(): ScopedWorkspace {
+    if (!this.handle) throw new Error('Workspace not initialized');
+    return this.handle;
+  }
 
   getDeclaration(): FunctionDeclaration {
     return {
       name: 'artifact_tool',
-      description: 'Manage artifacts in the workspace. Write, read, list, or delete artifacts in task directories.',
+      description: 'Manage artifacts in the workspace. Write, read, list, delete, rename, or copy artifacts in task directories. Every write keeps a numbered version: history lists them, read_version reads one, diff compares two, revert makes an old version current again.',
       parameters: {
         type: 'object',
         properties: {
           action: {
             type: 'string',
-            enum: ['write', 'read', 'list', 'delete'],
-            description: 'Action: write (save), read (retrieve), list (list all), delete (remove)'
+            enum: ['write', 'read', 'list', 'delete', 'rename', 'copy', 'history', 'read_version', 'diff', 'revert'],
+            description: 'Action: write (save), read (retrieve), list (list all), delete (remove), rename (within the task), copy (within or to another task), history (list versions), read_version, diff (between versions), revert (restore a version as the newest)'
           },
           taskId: {
             type: 'string',
@@ -36,7 +43,15 @@ export class ArtifactTool implements AdminTool {
           },
           filename: {
             type: 'string',
-            description: 'Artifact filename (required for write, read, delete)'
+            description: 'Artifact filename (required for write, read, delete, rename, copy)'
+          },
+          newFilename: {
+            type: 'string',
+            description: 'New filename (required for rename; for copy defaults to the same name)'
+          },
+          targetTaskId: {
+            type: 'string',
+            description: 'Task to copy the artifact into (copy only; defaults to the same task)'
           },
           content: {
             type: 'string',
@@ -45,6 +60,26 @@ export class ArtifactTool implements AdminTool {
           mimeType: {
             type: 'string',
             description: 'MIME type for the artifact (optional, defaults to text/plain)'
+          },
+          version: {
+            type: 'number',
+            description: 'Version number (required for read_version and revert)'
+          },
+          fromVersion: {
+            type: 'number',
+            description: 'diff: older version (defaults to the one before toVersion)'
+          },
+          toVersion: {
+            type: 'number',
+            description: 'diff: newer version (defaults to the latest)'
+          },
+          author: {
+            type: 'string',
+            description: 'write/revert: who produced this version (defaults to admin)'
+          },
+          stepNumber: {
+            type: 'number',
+            description: 'write/revert: plan step that produced this version'
           }
         },
         required: ['action', 'taskId']
@@ -53,25 +88,42 @@ export class ArtifactTool implements AdminTool {
   }
 
   async execute(args: {
-    action: 'write' | 'read' | 'list' | 'delete';
+    action: 'write' | 'read' | 'list' | 'delete' | 'rename' | 'copy' | 'history' | 'read_version' | 'diff' | 'revert';
     taskId: string;
     filename?: string;
     content?: string;
     mimeType?: string;
+    newFilename?: string;
+    targetTaskId?: string;
+    version?: number;
+    fromVersion?: number;
+    toVersion?: number;
+    author?: string;
+    stepNumber?: number;
   }): Promise<ToolResult> {
-    // Check workspace availability using singleton
-    if (!Workspace.isInitialized()) {
+    // Check workspace availability
+    if (!this.handle) {
       return {
         success: false,
         data: null,
-        summary: 'Artifact management is not available. The workspace requires B2 storage configuration.',
+        summary: 'Artifact management is not available. The workspace requires a configured backend.',
         metadata: { 
           error: 'WORKSPACE_NOT_AVAILABLE',
-          hint: 'Configure B2_KEY_ID, B2_APPLICATION_KEY, B2_S3_ENDPOINT, and B2_BUCKET'
+          hint: 'Set WORKSPACE_BACKEND (s3, r2, durable-object or memory) and its settings: S3_* / B2_* credentials for s3, a WORKSPACE_BUCKET binding for r2, a WORKSPACE_STORE binding for durable-object'
         }
       };
     }
 
+    // Version history is managed through the history actions only
+    if ([args.filename, args.newFilename].some(name => name && isVersionHistoryPath(`/${name}`))) {
+      return {
+        success: false,
+        data: null,
+        summary: 'Artifact filenames cannot point into .versions/',
+        metadata: { error: 'INVALID_FILENAME' }
+      };
+    }
+
     try {
       switch (args.action) {
         case 'write':
@@ -82,6 +134,18 @@ export class ArtifactTool implements AdminTool {
           return await this.listArtifacts(args);
         case 'delete':
           return await this.deleteArtifact(args);
+        case 'rename':
+          return await this.renameArtifact(args);
+        case 'copy':
+          return await this.copyArtifact(args);
+        case 'history':
+          return await this.artifactHistory(args);
+        case 'read_version':
+          return await this.readArtifactVersion(args);
+        case 'diff':
+          return await this.diffArtifact(args);
+        case 'revert':
+          return await this.revertArtifact(args);
         default:
           return {
             success: false,
@@ -103,6 +167,8 @@ export class ArtifactTool implements AdminTool {
     filename?: string;
     content?: string;
     mimeType?: string;
+    author?: string;
+    stepNumber?: number;
   }): Promise<ToolResult> {
     if (!args.filename || !args.content) {
       return {
@@ -112,8 +178,8 @@ export class ArtifactTool implements AdminTool {
       };
     }
 
-    // Find task folder using Workspace singleton
-    const tasksDir = await Workspace.readdir('tasks');
+    // Find task folder
+    const tasksDir = await this.workspace.readdir('tasks');
     const taskFolder = tasksDir.directories.find(d => d.includes(args.taskId));
 
     if (!taskFolder) {
@@ -128,10 +194,14 @@ export class ArtifactTool implements AdminTool {
     const artifactPath = `tasks/${taskFolder}/artifacts/${args.filename}`;
     const mimeType = args.mimeType || this.inferMimeType(args.filename);
 
-    // Write artifact using Workspace singleton
-    await Workspace.writeFile(artifactPath, args.content, mimeType);
+    // Write artifact as a new version
+    const version = await new ArtifactVersions(this.workspace, `tasks/${taskFolder}`).write(args.filename, args.content, {
+      author: args.author,
+      stepNumber: args.stepNumber,
+      mimeType
+    });
 
-    console.log(`[ArtifactTool] ✅ Wrote artifact: ${args.filename} (${args.content.length} bytes)`);
+    console.log(`[ArtifactTool] ✅ Wrote artifact: ${args.filename} v${version.version} (${args.content.length} bytes)`);
 
     return {
       success: true,
@@ -140,12 +210,14 @@ export class ArtifactTool implements AdminTool {
         filename: args.filename,
         path: artifactPath,
         size: args.content.length,
-        mimeType
+        mimeType,
+        version: version.version
       },
-      summary: `Wrote artifact: ${args.filename} (${args.content.length} bytes)`,
+      summary: `Wrote artifact: ${args.filename} v${version.version} (${args.content.length} bytes)`,
       metadata: {
         action: 'write',
-        artifactPath
+        artifactPath,
+        version: version.version
       }
     };
   }
@@ -166,7 +238,7 @@ export class ArtifactTool implements AdminTool {
       };
     }
 
-    const tasksDir = await Workspace.readdir('tasks');
+    const tasksDir = await this.workspace.readdir('tasks');
     const taskFolder = tasksDir.directories.find(d => d.includes(args.taskId));
 
     if (!taskFolder) {
@@ -180,8 +252,8 @@ export class ArtifactTool implements AdminTool {
 
     const artifactPath = `tasks/${taskFolder}/artifacts/${args.filename}`;
 
-    // Check if artifact exists using Workspace singleton
-    const exists = await Workspace.exists(artifactPath);
+    // Check if artifact exists
+    const exists = await this.workspace.exists(artifactPath);
     if (!exists) {
       return {
         success: false,
@@ -191,8 +263,8 @@ export class ArtifactTool implements AdminTool {
       };
     }
 
-    // Read artifact using Workspace singleton
-    const content = await Workspace.readFileText(artifactPath);
+    // Read artifact
+    const content = await this.workspace.readFileText(artifactPath);
 
     console.log(`[ArtifactTool] ✅ Read artifact: ${args.filename} (${content.length} bytes)`);
 
@@ -219,7 +291,7 @@ export class ArtifactTool implements AdminTool {
   private async listArtifacts(args: {
     taskId: string;
   }): Promise<ToolResult> {
-    const tasksDir = await Workspace.readdir('tasks');
+    const tasksDir = await this.workspace.readdir('tasks');
     const taskFolder = tasksDir.directories.find(d => d.includes(args.taskId));
 
     if (!taskFolder) {
@@ -233,8 +305,8 @@ export class ArtifactTool implements AdminTool {
 
     const artifactsPath = `tasks/${taskFolder}/artifacts`;
 
-    // List artifacts using Workspace singleton
-    const listing = await Workspace.readdir(artifactsPath);
+    // List artifacts
+    const listing = await this.workspace.readdir(artifactsPath);
 
     const artifacts = listing.files.map(f => ({
       name: f.name,
@@ -271,7 +343,7 @@ export class ArtifactTool implements AdminTool {
       };
     }
 
-    const tasksDir = await Workspace.readdir('tasks');
+    const tasksDir = await this.workspace.readdir('tasks');
     const taskFolder = tasksDir.directories.find(d => d.includes(args.taskId));
 
     if (!taskFolder) {
@@ -286,7 +358,7 @@ export class ArtifactTool implements AdminTool {
     const artifactPath = `tasks/${taskFolder}/artifacts/${args.filename}`;
 
     // Check if artifact exists
-    const exists = await Workspace.exists(artifactPath);
+    const exists = await this.workspace.exists(artifactPath);
     if (!exists) {
       return {
         success: false,
@@ -296,8 +368,8 @@ export class ArtifactTool implements AdminTool {
       };
     }
 
-    // Delete artifact using Workspace singleton
-    await Workspace.unlink(artifactPath);
+    // Delete artifact
+    await this.workspace.unlink(artifactPath);
 
     console.log(`[ArtifactTool] ✅ Deleted artifact: ${args.filename}`);
 
@@ -316,10 +388,321 @@ export class ArtifactTool implements AdminTool {
     };
   }
 
+  // -----------------------------------------------------------
+  // Rename Artifact
+  // -----------------------------------------------------------
+
+  private async renameArtifact(args: {
+    taskId: string;
+    filename?: string;
+    newFilename?: string;
+  }): Promise<ToolResult> {
+    if (!args.filename || !args.newFilename) {
+      return {
+        success: false,
+        data: null,
+        summary: 'filename and newFilename are required for rename action'
+      };
+    }
+
+    const tasksDir = await this.workspace.readdir('tasks');
+    const taskFolder = tasksDir.directories.find(d => d.includes(args.taskId));
+
+    if (!taskFolder) {
+      return {
+        success: false,
+        data: null,
+        summary: `Task not found: ${args.taskId}`,
+        metadata: { error: 'TASK_NOT_FOUND' }
+      };
+    }
+
+    const artifactPath = `tasks/${taskFolder}/artifacts/${args.filename}`;
+    const newPath = `tasks/${taskFolder}/artifacts/${args.newFilename}`;
+
+    if (!await this.workspace.exists(artifactPath)) {
+      return {
+        success: false,
+        data: null,
+        summary: `Artifact not found: ${args.filename}`,
+        metadata: { error: 'ARTIFACT_NOT_FOUND' }
+      };
+    }
+    if (await this.workspace.exists(newPath)) {
+      return {
+        success: false,
+        data: null,
+        summary: `Artifact already exists: ${args.newFilename}`,
+        metadata: { error: 'ARTIFACT_EXISTS' }
+      };
+    }
+
+    // Server-side move; newFilename may include a subfolder
+    await this.workspace.move(artifactPath, newPath);
+    await new ArtifactVersions(this.workspace, `tasks/${taskFolder}`).moveHistory(args.filename, args.newFilename);
+
+    console.log(`[ArtifactTool] ✅ Renamed artifact: ${args.filename} -> ${args.newFilename}`);
+
+    return {
+      success: true,
+      data: {
+        taskId: args.taskId,
+        filename: args.newFilename,
+        previousFilename: args.filename,
+        path: newPath
+      },
+      summary: `Renamed artifact: ${args.filename} -> ${args.newFilename}`,
+      metadata: {
+        action: 'rename',
+        artifactPath: newPath
+      }
+    };
+  }
+
+  // -----------------------------------------------------------
+  // Copy Artifact
+  // -----------------------------------------------------------
+
+  private async copyArtifact(args: {
+    taskId: string;
+    filename?: string;
+    newFilename?: string;
+    targetTaskId?: string;
+  }): Promise<ToolResult> {
+    if (!args.filename) {
+      return {
+        success: false,
+        data: null,
+        summary: 'filename is required for copy action'
+      };
+    }
+
+    const targetTaskId = args.targetTaskId || args.taskId;
+    const newFilename = args.newFilename || args.filename;
+
+    const tasksDir = await this.workspace.readdir('tasks');
+    const taskFolder = tasksDir.directories.find(d => d.includes(args.taskId));
+    const targetFolder = tasksDir.directories.find(d => d.includes(targetTaskId));
+
+    if (!taskFolder || !targetFolder) {
+      return {
+        success: false,
+        data: null,
+        summary: `Task not found: ${!taskFolder ? args.taskId : targetTaskId}`,
+        metadata: { error: 'TASK_NOT_FOUND' }
+      };
+    }
+
+    const artifactPath = `tasks/${taskFolder}/artifacts/${args.filename}`;
+    const copyPath = `tasks/${targetFolder}/artifacts/${newFilename}`;
+
+    if (artifactPath === copyPath) {
+      return {
+        success: false,
+        data: null,
+        summary: 'Copy needs a newFilename or a different targetTaskId'
+      };
+    }
+    if (!await this.workspace.exists(artifactPath)) {
+      return {
+        success: false,
+        data: null,
+        summary: `Artifact not found: ${args.filename}`,
+        metadata: { error: 'ARTIFACT_NOT_FOUND' }
+      };
+    }
+    if (await this.workspace.exists(copyPath)) {
+      return {
+        success: false,
+        data: null,
+        summary: `Artifact already exists: ${newFilename} in task ${targetTaskId}`,
+        metadata: { error: 'ARTIFACT_EXISTS' }
+      };
+    }
+
+    await this.workspace.copy(artifactPath, copyPath);
+
+    console.log(`[ArtifactTool] ✅ Copied artifact: ${artifactPath} -> ${copyPath}`);
+
+    return {
+      success: true,
+      data: {
+        taskId: targetTaskId,
+        filename: newFilename,
+        sourceTaskId: args.taskId,
+        sourceFilename: args.filename,
+        path: copyPath
+      },
+      summary: `Copied artifact: ${args.filename} -> ${newFilename}${targetTaskId !== args.taskId ? ` (task ${targetTaskId})` : ''}`,
+      metadata: {
+        action: 'copy',
+        artifactPath: copyPath
+      }
+    };
+  }
+
+  // -----------------------------------------------------------
+  // Version History
+  // -----------------------------------------------------------
+
+  private async artifactHistory(args: {
+    taskId: string;
+    filename?: string;
+  }): Promise<ToolResult> {
+    if (!args.filename) {
+      return {
+        success: false,
+        data: null,
+        summary: 'filename is required for history action'
+      };
+    }
+
+    const versions = await this.versionsFor(args.taskId);
+    if (!versions) return this.taskNotFound(args.taskId);
+
+    const history = await versions.history(args.filename);
+    if (history.length === 0) {
+      return {
+        success: false,
+        data: null,
+        summary: `No version history for ${args.filename}`,
+        metadata: { error: 'ARTIFACT_NOT_FOUND' }
+      };
+    }
+
+    return {
+      success: true,
+      data: { taskId: args.taskId, filename: args.filename, versions: history },
+      summary: `${args.filename}: ${history.length} versions\n${history.map(formatVersion).join('\n')}`,
+      metadata: {
+        action: 'history',
+        count: history.length,
+        latest: history[history.length - 1].version
+      }
+    };
+  }
+
+  private async readArtifactVersion(args: {
+    taskId: string;
+    filename?: string;
+    version?: number;
+  }): Promise<ToolResult> {
+    if (!args.filename || args.version === undefined) {
+      return {
+        success: false,
+        data: null,
+        summary: 'filename and version are required for read_version action'
+      };
+    }
+
+    const versions = await this.versionsFor(args.taskId);
+    if (!versions) return this.taskNotFound(args.taskId);
+
+    const result = await versions.read(args.filename, args.version);
+    if (!result) {
+      return {
+        success: false,
+        data: null,
+        summary: `Version ${args.version} of ${args.filename} not found`,
+        metadata: { error: 'VERSION_NOT_FOUND' }
+      };
+    }
+
+    const content = new TextDecoder().decode(result.content);
+    return {
+      success: true,
+      data: { taskId: args.taskId, filename: args.filename, content, version: result.version },
+      summary: `Read ${args.filename} v${args.version} (${content.length} bytes)`,
+      metadata: { action: 'read_version', version: args.version }
+    };
+  }
+
+  private async diffArtifact(args: {
+    taskId: string;
+    filename?: string;
+    fromVersion?: number;
+    toVersion?: number;
+  }): Promise<ToolResult> {
+    if (!args.filename) {
+      return {
+        success: false,
+        data: null,
+        summary: 'filename is required for diff action'
+      };
+    }
+
+    const versions = await this.versionsFor(args.taskId);
+    if (!versions) return this.taskNotFound(args.taskId);
+
+    const history = await versions.history(args.filename);
+    const to = args.toVersion ?? history[history.length - 1]?.version;
+    const from = args.fromVersion ?? (to !== undefined ? to - 1 : undefined);
+    if (from === undefined || from < 1) {
+      return {
+        success: false,
+        data: null,
+        summary: `${args.filename} needs at least two versions to diff`,
+        metadata: { error: 'VERSION_NOT_FOUND' }
+      };
+    }
+
+    const result = await versions.diff(args.filename, from, to);
+    return {
+      success: true,
+      data: { taskId: args.taskId, filename: args.filename, ...result },
+      summary: result.diff || `v${from} and v${to} of ${args.filename} are identical`,
+      metadata: { action: 'diff', fromVersion: from, toVersion: to }
+    };
+  }
+
+  private async revertArtifact(args: {
+    taskId: string;
+    filename?: string;
+    version?: number;
+    author?: string;
+    stepNumber?: number;
+  }): Promise<ToolResult> {
+    if (!args.filename || args.version === undefined) {
+      return {
+        success: false,
+        data: null,
+        summary: 'filename and version are required for revert action'
+      };
+    }
+
+    const versions = await this.versionsFor(args.taskId);
+    if (!versions) return this.taskNotFound(args.taskId);
+
+    const version = await versions.revert(args.filename, args.version, {
+      author: args.author,
+      stepNumber: args.stepNumber
+    });
+
+    return {
+      success: true,
+      data: { taskId: args.taskId, filename: args.filename, version },
+      summary: `Reverted ${args.filename} to v${args.version} (now v${version.version})`,
+      metadata: { action: 'revert', version: version.version, revertedTo: args.version }
+    };
+  }
+
   // -----------------------------------------------------------
   // Helper Methods
   // -----------------------------------------------------------
 
+  private async versionsFor(taskId: string): Promise<ArtifactVersions | null> {
+    return ArtifactVersions.forTask(this.workspace, taskId);
+  }
+
+  private taskNotFound(taskId: string): ToolResult {
+    return {
+      success: false,
+      data: null,
+      summary: `Task not found: ${taskId}`,
+      metadata: { error: 'TASK_NOT_FOUND' }
+    };
+  }
+
   private inferMimeType(filename: string): string {
     const ext = filename.split('.').pop()?.toLowerCase();
     
@@ -392,3 +775,9 @@ export class ArtifactTool implements AdminTool {
     };
   }
 }
+
+function formatVersion(v: ArtifactVersion): string {
+  const step = v.stepNumber !== undefined ? `, step ${v.stepNumber}` : '';
+  const note = v.note ? ` - ${v.note}` : '';
+  return `v${v.version} ${new Date(v.createdAt).toISOString()} by ${v.author}${step} (${v.size} bytes)${note}`;
+}
@@ -0,0 +1,346 @@
+// src/tools-v2/delegate-batch-tool.ts - Fan-out delegation with a merged result
+
+import type { GeminiClient } from '../gemini';
+import { mapWithConcurrency } from '../core/concurrency';
+import type { WorkerResult } from '../workers/worker-types';
+import type { DelegateTool } from './admin-tools';
+import type {
+  AdminTool,
+  ToolResult,
+  FunctionDeclaration,
+  ToolExecutionContext
+} from './tool-types';
+
+// =============================================================
+// Types
+// =============================================================
+
+export interface BatchSubtask {
+  objective: string;
+  /** Defaults to the batch's worker_type */
+  worker_type?: string;
+  step_description?: string;
+  constraints?: string[];
+}
+
+interface DelegateBatchArgs {
+  objective: string;
+  subtasks: BatchSubtask[];
+  worker_type?: string;
+  constraints?: string[];
+  max_turns?: number;
+  concurrency?: number;
+  task_id?: string;
+  step_number?: number;
+  context_budget?: number;
+  merge?: boolean;
+}
+
+export interface BatchWorkerOutcome {
+  /** Citation label in the merged result, e.g. "W2" */
+  label: string;
+  objective: string;
+  workerType: string;
+  success: boolean;
+  summary: string;
+  savedArtifacts: string[];
+  result: WorkerResult;
+}
+
+export interface BatchResult {
+  /** Combined report citing workers by label; concatenated outputs when no merge ran */
+  merged: string;
+  workers: BatchWorkerOutcome[];
+  /** Worker metadata summed over the batch, plus the merge pass's tokens */
+  metadata: {
+    workerCount: number;
+    succeeded: number;
+    failed: number;
+    turnsUsed: number;
+    toolsUsed: string[];
+    tokensConsumed: number;
+    thinkingTokens: number;
+    /** Wall-clock time of the whole batch */
+    executionTime: number;
+    cancelled: boolean;
+    mergedBy: 'gemini' | 'concatenation';
+    mergeError?: string;
+  };
+}
+
+const DEFAULT_CONCURRENCY = 3;
+const MAX_CONCURRENCY = 8;
+const MAX_SUBTASKS = 20;
+
+/** Worker output handed to the merge pass, split evenly between workers */
+const MERGE_INPUT_CHARS = 120000;
+
+// =============================================================
+// Delegate Batch Tool
+// =============================================================
+
+/**
+ * Delegate Batch Tool - One objective fanned out to many workers
+ *
+ * Each subtask runs through delegate_to_worker, so task context injection
+ * and artifact saving work as for a single delegation. At most
+ * `concurrency` workers run at once; a progress event is reported as each
+ * one starts and finishes. A final Gemini pass merges the outputs,
+ * deduplicating findings and citing the workers ([W1], [W2, W3]) each
+ * point came from.
+ */
+export class DelegateBatchTool implements AdminTool<DelegateBatchArgs, BatchResult | null> {
+  constructor(
+    private delegate: DelegateTool,
+    private gemini: GeminiClient
+  ) {}
+
+  getDeclaration(): FunctionDeclaration {
+    return {
+      name: 'delegate_batch',
+      description: 'Split one objective into sub-objectives (sources, sub-questions, segments) and run a worker on each concurrently, then merge their outputs into one deduplicated report that cites which worker produced each point. Use instead of several delegate_to_worker calls when the parts are independent.',
+      parameters: {
+        type: 'object',
+        properties: {
+          objective: {
+            type: 'string',
+            description: 'The overall objective the subtasks together answer; guides the merge'
+          },
+          subtasks: {
+            type: 'array',
+            description: `Sub-objectives, one worker each (max ${MAX_SUBTASKS})`,
+            items: {
+              type: 'object',
+              properties: {
+                objective: { type: 'string', description: 'What this worker should cover' },
+                worker_type: { type: 'string', description: 'Overrides the batch worker_type for this subtask' },
+                step_description: { type: 'string', description: 'Detailed instructions for this worker' },
+                constraints: { type: 'array', items: { type: 'string' }, description: 'Added to the batch constraints' }
+              },
+              required: ['objective']
+            }
+          },
+          worker_type: {
+            type: 'string',
+            description: 'Worker for every subtask (default research); same types as delegate_to_worker'
+          },
+          constraints: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Constraints every worker must follow'
+          },
+          max_turns: {
+            type: 'number',
+            description: 'Maximum conversation turns per worker (default 5)'
+          },
+          concurrency: {
+            type: 'number',
+            description: `Workers running at once (default ${DEFAULT_CONCURRENCY}, max ${MAX_CONCURRENCY})`
+          },
+          task_id: {
+            type: 'string',
+            description: 'Active task; every worker gets its context and artifacts are saved to it'
+          },
+          step_number: {
+            type: 'number',
+            description: 'Step of the task the batch works on'
+          },
+          context_budget: {
+            type: 'number',
+            description: 'Token budget for injected context, per worker (default 16000)'
+          },
+          merge: {
+            type: 'boolean',
+            description: 'Merge the outputs with a final model pass (default true); false returns them concatenated'
+          }
+        },
+        required: ['objective', 'subtasks']
+      }
+    };
+  }
+
+  async execute(args: DelegateBatchArgs, execContext?: ToolExecutionContext): Promise<ToolResult<BatchResult | null>> {
+    const subtasks = (args.subtasks ?? []).filter(s => s?.objective?.trim());
+    if (subtasks.length === 0) {
+      return { success: false, data: null, summary: 'subtasks must list at least one sub-objective' };
+    }
+    if (subtasks.length > MAX_SUBTASKS) {
+      return { success: false, data: null, summary: `Too many subtasks: ${subtasks.length} (max ${MAX_SUBTASKS})` };
+    }
+
+    const startedAt = Date.now();
+    const signal = execContext?.signal;
+    const report = execContext?.onProgress;
+    const limit = Math.min(Math.max(1, Math.floor(args.concurrency ?? DEFAULT_CONCURRENCY)), MAX_CONCURRENCY);
+    let finished = 0;
+
+    const workers = await mapWithConcurrency(subtasks, limit, async (subtask, index): Promise<BatchWorkerOutcome> => {
+      const label = `W${index + 1}`;
+      const workerType = subtask.worker_type || args.worker_type || 'research';
+      report?.({ message: `${label} started: ${subtask.objective}`, detail: { label, index, workerType, status: 'started' } });
+
+      const delegation = await this.delegate.execute({
+        worker_type: workerType,
+        objective: subtask.objective,
+        step_description: subtask.step_description || `Part of a larger objective: ${args.objective}\n\nCover only your part: ${subtask.objective}`,
+        constraints: [...(args.constraints ?? []), ...(subtask.constraints ?? [])],
+        max_turns: args.max_turns,
+        task_id: args.task_id,
+        step_number: args.step_number,
+        context_budget: args.context_budget
+      }, { signal }, { artifactVariant: label.toLowerCase() });
+
+      finished++;
+      const status = delegation.data.metadata.cancelled ? 'cancelled' : delegation.success ? 'completed' : 'failed';
+      report?.({
+        message: `${label} ${status} (${finished}/${subtasks.length})`,
+        detail: { label, index, workerType, status, turnsUsed: delegation.data.metadata.turnsUsed }
+      });
+
+      return {
+        label,
+        objective: subtask.objective,
+        workerType,
+        success: delegation.success,
+        summary: delegation.summary,
+        savedArtifacts: delegation.metadata?.savedArtifacts ?? [],
+        result: delegation.data
+      };
+    });
+
+    const batch: BatchResult = { merged: '', workers, metadata: aggregateMetadata(workers) };
+    const succeeded = workers.filter(w => w.success);
+
+    if (succeeded.length === 0) {
+      batch.metadata.executionTime = Date.now() - startedAt;
+      // Workers are only cancelled through the batch's signal
+      if (batch.metadata.cancelled) {
+        return {
+          success: false,
+          data: batch,
+          summary: `Batch cancelled before any of its ${workers.length} workers finished:\n${workers.map(w => `- [${w.label}] ${w.summary}`).join('\n')}`,
+          metadata: { ...batch.metadata, error: 'CANCELLED' }
+        };
+      }
+      return {
+        success: false,
+        data: batch,
+        summary: `All ${workers.length} workers failed:\n${workers.map(w => `- [${w.label}] ${w.summary}`).join('\n')}`,
+        metadata: { ...batch.metadata, error: 'ALL_WORKERS_FAILED' }
+      };
+    }
+
+    batch.merged = concatenate(succeeded);
+    if (args.merge !== false && succeeded.length > 1 && !signal?.aborted) {
+      report?.({ message: `Merging ${succeeded.length} worker outputs`, detail: { status: 'merging' } });
+      try {
+        const merge = await this.mergeOutputs(args.objective, succeeded, signal);
+        batch.merged = merge.text;
+        batch.metadata.mergedBy = 'gemini';
+        batch.metadata.tokensConsumed += merge.tokens;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.warn('[DelegateBatch] Merge failed, returning concatenated outputs:', error);
+        batch.metadata.mergeError = error instanceof Error ? error.message : String(error);
+      }
+    }
+    batch.merged += `\n\n${renderSources(workers)}`;
+    batch.metadata.executionTime = Date.now() - startedAt;
+
+    const failed = workers.filter(w => !w.success);
+    const saved = workers.flatMap(w => w.savedArtifacts);
+    let summary = `Batch of ${workers.length} workers: ${succeeded.length} succeeded, ${failed.length} failed ` +
+      `(${batch.metadata.turnsUsed} turns, ${batch.metadata.mergedBy === 'gemini' ? 'merged' : 'concatenated'}). ` +
+      `${batch.merged.substring(0, 300)}...`;
+    for (const worker of failed) {
+      summary += `\n[${worker.label}] ${worker.summary}`;
+    }
+    if (saved.length > 0) {
+      summary += `\nSaved to task ${args.task_id}: ${saved.join(', ')}`;
+    }
+
+    return {
+      success: !batch.metadata.cancelled,
+      data: batch,
+      summary,
+      metadata: { ...batch.metadata, savedArtifacts: saved }
+    };
+  }
+
+  // -----------------------------------------------------------
+  // Merge
+  // -----------------------------------------------------------
+
+  private async mergeOutputs(
+    objective: string,
+    workers: BatchWorkerOutcome[],
+    signal?: AbortSignal
+  ): Promise<{ text: string; tokens: number }> {
+    const perWorker = Math.floor(MERGE_INPUT_CHARS / workers.length);
+    const blocks = workers.map(w => {
+      const output = w.result.output.length > perWorker
+        ? `${w.result.output.slice(0, perWorker)}\n[... truncated]`
+        : w.result.output;
+      return `<worker id="${w.label}" objective="${w.objective.replace(/"/g, "'")}">\n${output}\n</worker>`;
+    });
+
+    const prompt = `You are merging the results of ${workers.length} workers that each covered part of one objective.
+
+Objective: ${objective}
+
+Combine the worker outputs below into a single report:
+- Merge findings that overlap into one point instead of repeating them
+- Cite the worker(s) each point came from in square brackets, e.g. [W1] or [W2, W4]
+- Where workers disagree, say so and cite each side
+- Keep every substantive finding, figure and source URL; drop filler and preambles
+- Do not add information that is not in the worker outputs
+- Organize by topic, not by worker
+
+${blocks.join('\n\n')}`;
+
+    const response = await this.gemini.generateWithNativeTools(
+      [{ role: 'user', content: prompt }],
+      {
+        temperature: 0.3,
+        maxOutputTokens: 8192,
+        signal
+      }
+    );
+    if (!response.text?.trim()) {
+      throw new Error('Merge pass returned no text');
+    }
+    return { text: response.text.trim(), tokens: response.usageMetadata?.totalTokens ?? 0 };
+  }
+}
+
+// -----------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------
+
+function aggregateMetadata(workers: BatchWorkerOutcome[]): BatchResult['metadata'] {
+  const metadata = workers.map(w => w.result.metadata);
+  return {
+    workerCount: workers.length,
+    succeeded: workers.filter(w => w.success).length,
+    failed: workers.filter(w => !w.success).length,
+    turnsUsed: metadata.reduce((sum, m) => sum + m.turnsUsed, 0),
+    toolsUsed: Array.from(new Set(metadata.flatMap(m => m.toolsUsed))),
+    tokensConsumed: metadata.reduce((sum, m) => sum + m.tokensConsumed, 0),
+    thinkingTokens: metadata.reduce((sum, m) => sum + m.thinkingTokens, 0),
+    executionTime: 0,
+    cancelled: metadata.some(m => m.cancelled === true),
+    mergedBy: 'concatenation'
+  };
+}
+
+function concatenate(workers: BatchWorkerOutcome[]): string {
+  return workers.map(w => `## [${w.label}] ${w.objective}\n\n${w.result.output}`).join('\n\n');
+}
+
+function renderSources(workers: BatchWorkerOutcome[]): string {
+  const lines = ['## Sources'];
+  for (const w of workers) {
+    lines.push(`- [${w.label}] ${w.workerType}: ${w.objective}${w.success ? '' : ' (failed, not included)'}`);
+  }
+  return lines.join('\n');
+}
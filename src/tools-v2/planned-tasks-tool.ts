@@ -1,6 +1,10 @@
 // src/tools-v2/planned-tasks-tool.ts - FULLY FIXED & COMPILABLE
 
-import { Workspace } from '../workspace/workspace';
+import { WorkspaceConflictError, type ScopedWorkspace } from '../workspace/workspace';
+import { acquireLease, LeaseHeldError, readLease, releaseLease, TASK_LEASE_FILE, type LeaseRecord } from '../workspace/lease';
+import { CURRENT_STATE, SnapshotManager, formatSnapshotDiff } from '../workspace/snapshots';
+import { discardPendingReview, readPendingReview } from '../workspace/reviews';
+import { resolveTaskPath } from '../workspace/task-paths';
 import type { AdminTool, ToolResult, FunctionDeclaration } from './tool-types';
 
 // =============================================================
@@ -18,10 +22,34 @@ export interface TodoStep {
   checkpoint?: boolean;
   objective?: string;
   requirements?: string[];
+  /** Outputs of earlier steps handed to the worker; outputPath is relative to the task folder */
+  dependencies?: Array<{ stepNumber: number; outputPath: string }>;
   outputs?: string[];
   notes?: string;
   startedAt?: number;
   completedAt?: number;
+  /** The step can only be completed after its latest review passed */
+  requireReview?: boolean;
+  /** Failed reviews that send the step back for rework before it fails (default 2) */
+  maxRework?: number;
+  reviews?: StepReview[];
+}
+
+export interface ReviewDefect {
+  severity: 'critical' | 'major' | 'minor';
+  description: string;
+  location?: string;
+}
+
+export interface StepReview {
+  /** 1-based, one per review of the step */
+  attempt: number;
+  verdict: 'pass' | 'fail';
+  score: number;
+  rubric?: Array<{ criterion: string; score: number; comment?: string }>;
+  defects: ReviewDefect[];
+  summary?: string;
+  reviewedAt: number;
 }
 
 export interface TodoMetadata {
@@ -39,40 +67,67 @@ export interface TodoStructure {
   metadata: TodoMetadata;
 }
 
+const DEFAULT_LEASE_SECONDS = 600;
+const DEFAULT_MAX_REWORK = 2;
+
+type PlannedTasksArgs = { action: 'new_task'|'load_task'|'update_task'|'record_review'|'list_tasks'|'clone_task'|'lock_task'|'unlock_task'|'snapshot'|'list_snapshots'|'diff_snapshots'|'restore_snapshot'; taskId?: string; title?: string; description?: string; todo?: Partial<TodoStructure>; stepNumber?: number; stepStatus?: TodoStep['status']; stepOutput?: string; includeArtifacts?: boolean; resetProgress?: boolean; owner?: string; leaseSeconds?: number; leaseToken?: string; label?: string; snapshotId?: string; compareTo?: string; prune?: boolean; reviewId?: string };
+
 // =============================================================
 // PlannedTasksTool Implementation
 // =============================================================
 
 export class PlannedTasksTool implements AdminTool {
+  constructor(private handle: ScopedWorkspace | null = null) {}
+
+  /**
+   * Tenant-scoped workspace; only reached after the availability check in execute()
+   */
+  private get workspace(): ScopedWorkspace {
+    if (!this.handle) throw new Error('Workspace not initialized');
+    return this.handle;
+  }
 
   getDeclaration(): FunctionDeclaration {
     return {
       name: 'planned_tasks',
-      description: 'Manage structured todo tasks: create, load, update, or list.',
+      description: 'Manage structured todo tasks: create, load, update, list, or clone (copy a task as a fresh starting point). Steps with requireReview can only be completed after record_review stores a passing review; a failing review sends the step back to in_progress for rework, and fails it once maxRework reworks are used up. lock_task takes a time-limited lease on a task for a long step execution; while it is held, update_task needs the lease token. unlock_task releases it. Snapshots capture the task folder (taken automatically when a checkpoint step completes): snapshot, list_snapshots, diff_snapshots (against another snapshot or the current state) and restore_snapshot.',
       parameters: {
         type: 'object',
         properties: {
-          action: { type: 'string', enum: ['new_task', 'load_task', 'update_task', 'list_tasks'], description: 'Action to perform on tasks' },
-          taskId: { type: 'string', description: 'Task ID for load/update' },
-          title: { type: 'string', description: 'Task title for new_task' },
+          action: { type: 'string', enum: ['new_task', 'load_task', 'update_task', 'record_review', 'list_tasks', 'clone_task', 'lock_task', 'unlock_task', 'snapshot', 'list_snapshots', 'diff_snapshots', 'restore_snapshot'], description: 'Action to perform on tasks' },
+          taskId: { type: 'string', description: 'Task ID for every action except new_task and list_tasks' },
+          title: { type: 'string', description: 'Task title for new_task, or the clone\'s title (defaults to "<title> (copy)")' },
           description: { type: 'string', description: 'Task description for new_task' },
-          todo: { type: 'object', description: 'Todo structure with steps for new_task' },
+          todo: { type: 'object', description: 'Todo structure with steps for new_task; a step may list dependencies: [{stepNumber, outputPath}] whose contents are given to its worker, and set requireReview (plus maxRework, default 2) to gate completion on a review' },
           stepNumber: { type: 'number', description: 'Step number to update' },
           stepStatus: { type: 'string', enum: ['pending','in_progress','completed','skipped','failed'], description: 'Status for updating a step' },
-          stepOutput: { type: 'string', description: 'Notes/output for step update' }
+          stepOutput: { type: 'string', description: 'Notes/output for step update' },
+          reviewId: { type: 'string', description: 'record_review: the review id returned by delegate_to_worker(worker_type=\'review\') for this step' },
+          includeArtifacts: { type: 'boolean', description: 'clone_task: copy the source artifacts (default true)' },
+          resetProgress: { type: 'boolean', description: 'clone_task: reset every step to pending (default true)' },
+          owner: { type: 'string', description: 'lock_task: who holds the lease (default "agent")' },
+          leaseSeconds: { type: 'number', description: `lock_task: lease duration (default ${DEFAULT_LEASE_SECONDS})` },
+          leaseToken: { type: 'string', description: 'Token from lock_task; renews the lease with lock_task, authorizes update_task/record_review/restore_snapshot, releases with unlock_task' },
+          label: { type: 'string', description: 'snapshot: short description of the snapshot' },
+          snapshotId: { type: 'string', description: 'diff_snapshots: the older side; restore_snapshot: snapshot to restore' },
+          compareTo: { type: 'string', description: `diff_snapshots: newer snapshot ID, or "${CURRENT_STATE}" (default)` },
+          prune: { type: 'boolean', description: 'restore_snapshot: delete files the snapshot did not have (default true)' }
         },
         required: ['action']
       }
     };
   }
 
-  async execute(args: { action: 'new_task'|'load_task'|'update_task'|'list_tasks'; taskId?: string; title?: string; description?: string; todo?: Partial<TodoStructure>; stepNumber?: number; stepStatus?: TodoStep['status']; stepOutput?: string }): Promise<ToolResult> {
-    if (!Workspace.isInitialized()) {
+  async execute(args: PlannedTasksArgs): Promise<ToolResult> {
+    if (!this.handle) {
       return {
         success: false,
         data: null,
-        summary: 'Workspace not initialized. Task management requires B2 storage configuration.',
-        metadata: { error: 'WORKSPACE_NOT_AVAILABLE', hint: 'Configure B2_KEY_ID, B2_APPLICATION_KEY, B2_S3_ENDPOINT, B2_BUCKET' }
+        summary: 'Workspace not initialized. Task management requires a configured workspace backend.',
+        metadata: {
+          error: 'WORKSPACE_NOT_AVAILABLE',
+          hint: 'Set WORKSPACE_BACKEND (s3, r2, durable-object or memory) and its settings: S3_* / B2_* credentials for s3, a WORKSPACE_BUCKET binding for r2, a WORKSPACE_STORE binding for durable-object'
+        }
       };
     }
 
@@ -81,7 +136,15 @@ export class PlannedTasksTool implements AdminTool {
         case 'new_task': return await this.createNewTask(args);
         case 'load_task': return await this.loadTask(args);
         case 'update_task': return await this.updateTask(args);
+        case 'record_review': return await this.recordReview(args);
         case 'list_tasks': return await this.listTasks();
+        case 'clone_task': return await this.cloneTask(args);
+        case 'lock_task': return await this.lockTask(args);
+        case 'unlock_task': return await this.unlockTask(args);
+        case 'snapshot': return await this.createSnapshot(args);
+        case 'list_snapshots': return await this.listSnapshots(args);
+        case 'diff_snapshots': return await this.diffSnapshots(args);
+        case 'restore_snapshot': return await this.restoreSnapshot(args);
         default: return { success:false, data:null, summary:`Unknown action: ${args.action}` };
       }
     } catch(error) {
@@ -107,9 +170,9 @@ export class PlannedTasksTool implements AdminTool {
     const taskId = `task_${Date.now()}_${this.slugify(args.title)}`;
     const taskPath = `tasks/${taskId}`;
 
-    await Workspace.mkdir(taskPath);
-    await Workspace.mkdir(`${taskPath}/artifacts`);
-    await Workspace.mkdir(`${taskPath}/checkpoints`);
+    await this.workspace.mkdir(taskPath);
+    await this.workspace.mkdir(`${taskPath}/artifacts`);
+    await this.workspace.mkdir(`${taskPath}/checkpoints`);
 
     const steps: TodoStep[] = (args.todo.steps || []).map((step: Partial<TodoStep>, index: number) => ({
       number: index + 1,
@@ -119,10 +182,13 @@ export class PlannedTasksTool implements AdminTool {
       checkpoint: step.checkpoint ?? false,
       objective: step.objective ?? '',
       requirements: step.requirements ?? [],
+      dependencies: step.dependencies,
       outputs: step.outputs ?? [],
       notes: step.notes,
       startedAt: step.startedAt,
-      completedAt: step.completedAt
+      completedAt: step.completedAt,
+      requireReview: step.requireReview || undefined,
+      maxRework: step.maxRework
     }));
 
     const todo: TodoStructure = {
@@ -138,10 +204,10 @@ export class PlannedTasksTool implements AdminTool {
 
     const metadata = { taskId, title: args.title, status: todo.status, createdAt: Date.now(), updatedAt: Date.now(), tags: args.todo.metadata?.tags ?? [] };
 
-    await Workspace.writeFile(`${taskPath}/description.md`, args.description, 'text/markdown');
-    await Workspace.writeFile(`${taskPath}/metadata.json`, JSON.stringify(metadata, null,2), 'application/json');
-    await Workspace.writeFile(`${taskPath}/todo.json`, JSON.stringify(todo,null,2),'application/json');
-    await Workspace.writeFile(`${taskPath}/plan.md`, this.generatePlanMarkdown(todo), 'text/markdown');
+    await this.workspace.writeFile(`${taskPath}/description.md`, args.description, 'text/markdown');
+    await this.workspace.writeFile(`${taskPath}/metadata.json`, JSON.stringify(metadata, null,2), 'application/json');
+    await this.workspace.writeFile(`${taskPath}/todo.json`, JSON.stringify(todo,null,2),'application/json');
+    await this.workspace.writeFile(`${taskPath}/plan.md`, this.generatePlanMarkdown(todo), 'text/markdown');
 
     return { success:true, data:{taskId, taskPath, todo, metadata, action:'new_task'}, summary:`Created new task: ${args.title} (${taskId}) with ${steps.length} steps`, metadata:{action:'new_task', taskId, stepCount: steps.length} };
   }
@@ -153,17 +219,18 @@ export class PlannedTasksTool implements AdminTool {
   private async loadTask(args:{taskId?:string}): Promise<ToolResult> {
     if (!args.taskId) return { success:false, data:null, summary:'taskId is required for load_task' };
 
-    const tasksDir = await Workspace.readdir('tasks');
+    const tasksDir = await this.workspace.readdir('tasks');
     const taskFolder = tasksDir.directories.find(d=>d.includes(args.taskId!));
     if (!taskFolder) return { success:false, data:null, summary:`Task not found: ${args.taskId}` };
 
     const taskPath = `tasks/${taskFolder}`;
-    const description = await Workspace.readFileText(`${taskPath}/description.md`);
-    const metadataStr = await Workspace.readFileText(`${taskPath}/metadata.json`);
-    const todoStr = await Workspace.readFileText(`${taskPath}/todo.json`);
+    const description = await this.workspace.readFileText(`${taskPath}/description.md`);
+    const metadataStr = await this.workspace.readFileText(`${taskPath}/metadata.json`);
+    const todoFile = await this.workspace.readFileWithEtag(`${taskPath}/todo.json`);
+    if (!todoFile) throw new Error(`File not found: ${taskPath}/todo.json`);
 
     const metadata = JSON.parse(metadataStr);
-    let todo:TodoStructure = JSON.parse(todoStr);
+    let todo:TodoStructure = JSON.parse(todoFile.text);
 
     let modified=false;
     todo.steps = todo.steps.map((step:any, index:number)=>{
@@ -180,11 +247,17 @@ export class PlannedTasksTool implements AdminTool {
     if(modified){
       todo.metadata.updatedAt=Date.now();
       metadata.updatedAt=Date.now();
-      await Workspace.writeFile(`${taskPath}/todo.json`, JSON.stringify(todo,null,2),'application/json');
-      await Workspace.writeFile(`${taskPath}/metadata.json`, JSON.stringify(metadata,null,2),'application/json');
+      // Only repair the version that was read; a concurrent writer's todo wins and is repaired next load
+      try{
+        await this.workspace.writeFile(`${taskPath}/todo.json`, JSON.stringify(todo,null,2),'application/json', todoFile.etag?{ifMatch:todoFile.etag}:undefined);
+        await this.workspace.writeFile(`${taskPath}/metadata.json`, JSON.stringify(metadata,null,2),'application/json');
+      }catch(error){
+        if(!(error instanceof WorkspaceConflictError)) throw error;
+        console.warn(`[PlannedTasks] Skipped repair of ${taskPath}: todo.json changed concurrently`);
+      }
     }
 
-    const artifactsDir = await Workspace.readdir(`${taskPath}/artifacts`);
+    const artifactsDir = await this.workspace.readdir(`${taskPath}/artifacts`);
     const artifacts = artifactsDir.files.map(f=>({name:f.name,size:f.size,modified:f.modified}));
 
     return { success:true, data:{taskId:args.taskId, taskPath, description, metadata, todo, artifacts, action:'load_task'}, summary:`Loaded task: ${metadata.title} (${todo.steps.length} steps, ${artifacts.length} artifacts)`, metadata:{action:'load_task', taskId:args.taskId, stepCount:todo.steps.length, artifactCount:artifacts.length, status:todo.status, repaired:modified} };
@@ -194,46 +267,239 @@ export class PlannedTasksTool implements AdminTool {
   // UPDATE TASK
   // =============================================================
 
-  private async updateTask(args:{taskId?:string; stepNumber?:number; stepStatus?:TodoStep['status']; stepOutput?:string}): Promise<ToolResult> {
+  /**
+   * The step change is re-applied to the latest todo.json on every attempt,
+   * so concurrent updates to other steps are merged rather than lost.
+   * Completing a requireReview step is refused until its latest review passed.
+   */
+  private async updateTask(args:{taskId?:string; stepNumber?:number; stepStatus?:TodoStep['status']; stepOutput?:string; leaseToken?:string}): Promise<ToolResult> {
     if(!args.taskId) return {success:false, data:null, summary:'taskId required'};
 
-    const tasksDir = await Workspace.readdir('tasks');
-    const taskFolder = tasksDir.directories.find(d=>d.includes(args.taskId!));
-    if(!taskFolder) return {success:false, data:null, summary:`Task not found: ${args.taskId}`};
+    const taskPath = await this.findTaskPath(args.taskId);
+    if(!taskPath) return {success:false, data:null, summary:`Task not found: ${args.taskId}`};
+
+    const locked = await this.checkLease(args.taskId, taskPath, args.leaseToken);
+    if(locked) return locked;
+
+    let stepFound = true;
+    let reviewPending = false;
+    const result = await this.workspace.updateFile(`${taskPath}/todo.json`, current=>{
+      if(current===null) throw new Error(`File not found: ${taskPath}/todo.json`);
+      const todo:TodoStructure = JSON.parse(current);
+
+      if(args.stepNumber!==undefined){
+        const step = todo.steps.find(s=>s.number===args.stepNumber);
+        stepFound = !!step;
+        if(!step) return current;
+
+        if(args.stepStatus==='completed' && step.requireReview && step.reviews?.[step.reviews.length-1]?.verdict!=='pass'){
+          reviewPending = true;
+          return current;
+        }
+
+        if(args.stepStatus){
+          step.status=args.stepStatus;
+          if(args.stepStatus==='in_progress'&&!step.startedAt) step.startedAt=Date.now();
+          if(['completed','skipped','failed'].includes(args.stepStatus)) step.completedAt=Date.now();
+        }
+
+        if(args.stepOutput){
+          step.notes = step.notes ? step.notes+'\n\n'+args.stepOutput : args.stepOutput;
+        }
+      }
 
-    const taskPath = `tasks/${taskFolder}`;
-    const todoStr = await Workspace.readFileText(`${taskPath}/todo.json`);
-    const todo:TodoStructure = JSON.parse(todoStr);
+      this.recomputeTaskStatus(todo);
+      todo.metadata.updatedAt=Date.now();
+      return JSON.stringify(todo,null,2);
+    }, { mimeType:'application/json' });
 
-    if(args.stepNumber!==undefined){
-      const step = todo.steps.find(s=>s.number===args.stepNumber);
-      if(!step) return {success:false, data:null, summary:`Step ${args.stepNumber} not found`};
+    if(!stepFound) return {success:false, data:null, summary:`Step ${args.stepNumber} not found`};
+    if(reviewPending) return {success:false, data:null, summary:`Step ${args.stepNumber} requires a passing review before it can be completed: delegate to the review worker, then record_review`, metadata:{error:'REVIEW_REQUIRED'}};
+    const todo:TodoStructure = JSON.parse(result.content);
 
-      if(args.stepStatus){
-        step.status=args.stepStatus;
-        if(args.stepStatus==='in_progress'&&!step.startedAt) step.startedAt=Date.now();
-        if(['completed','skipped','failed'].includes(args.stepStatus)) step.completedAt=Date.now();
-      }
+    await this.workspace.updateFile(`${taskPath}/metadata.json`, current=>{
+      const metadata = JSON.parse(current ?? '{}');
+      metadata.status=todo.status;
+      metadata.updatedAt=Date.now();
+      return JSON.stringify(metadata,null,2);
+    }, { mimeType:'application/json' });
+
+    const checkpointPath = `${taskPath}/checkpoints/checkpoint_${Date.now()}.json`;
+    await this.workspace.writeFile(checkpointPath, JSON.stringify({timestamp:Date.now(),todo,updatedStep:args.stepNumber??null,action:'update'},null,2),'application/json');
+
+    // Completed checkpoint steps get a restorable snapshot of the task folder
+    const step = todo.steps.find(s=>s.number===args.stepNumber);
+    let snapshotId:string|undefined;
+    if(step?.checkpoint && args.stepStatus==='completed'){
+      try{
+        snapshotId = (await new SnapshotManager(this.workspace, taskPath).create({reason:'checkpoint', stepNumber:step.number, label:`Step ${step.number}: ${step.title}`})).id;
+      }catch(error){ console.warn(`[PlannedTasks] Checkpoint snapshot failed for ${taskPath}:`, error); }
+    }
 
-      if(args.stepOutput){
-        step.notes = step.notes ? step.notes+'\n\n'+args.stepOutput : args.stepOutput;
+    return { success:true, data:{taskId:args.taskId,todo,updatedStep:args.stepNumber,action:'update_task'}, summary:`Updated task ${args.taskId} → ${todo.status}${args.stepNumber?`, step ${args.stepNumber} → ${args.stepStatus}`:''}${result.attempts>1?` (merged after ${result.attempts-1} conflict${result.attempts>2?'s':''})`:''}${snapshotId?`; snapshot ${snapshotId}`:''}`, metadata:{action:'update_task', taskStatus:todo.status, attempts:result.attempts, snapshotId} };
+  }
+
+  // =============================================================
+  // RECORD REVIEW
+  // =============================================================
+
+  /**
+   * Append a review to the step. The verdict is the one the review worker
+   * returned, looked up by the id delegate_to_worker stored it under, and
+   * each review can be recorded once. A fail sends the step back to
+   * in_progress for rework; once more than maxRework reviews have failed
+   * the step is marked failed instead. A pass leaves the status alone so
+   * the step can be completed with update_task.
+   */
+  private async recordReview(args:{taskId?:string; stepNumber?:number; reviewId?:string; leaseToken?:string}): Promise<ToolResult> {
+    if(!args.taskId || args.stepNumber===undefined || !args.reviewId) return {success:false, data:null, summary:'taskId, stepNumber and reviewId are required for record_review'};
+
+    const taskPath = await this.findTaskPath(args.taskId);
+    if(!taskPath) return {success:false, data:null, summary:`Task not found: ${args.taskId}`};
+
+    const locked = await this.checkLease(args.taskId, taskPath, args.leaseToken);
+    if(locked) return locked;
+
+    const pending = await readPendingReview(this.workspace, taskPath, args.reviewId);
+    if(!pending || pending.stepNumber!==args.stepNumber){
+      return {success:false, data:null, summary:`No unrecorded review ${args.reviewId} of step ${args.stepNumber}: delegate_to_worker(worker_type='review', task_id, step_number) returns the id to record`, metadata:{error:'REVIEW_NOT_FOUND'}};
+    }
+    const review = pending.result as Partial<StepReview>;
+    if((review.verdict!=='pass' && review.verdict!=='fail') || typeof review.score!=='number'){
+      return {success:false, data:null, summary:'The stored review has no verdict ("pass" or "fail") or numeric score', metadata:{error:'INVALID_REVIEW'}};
+    }
+
+    let recorded:StepReview|undefined;
+    let failures = 0;
+    const result = await this.workspace.updateFile(`${taskPath}/todo.json`, current=>{
+      if(current===null) throw new Error(`File not found: ${taskPath}/todo.json`);
+      const todo:TodoStructure = JSON.parse(current);
+      const step = todo.steps.find(s=>s.number===args.stepNumber);
+      if(!step){ recorded=undefined; return current; }
+
+      const reviews = step.reviews ?? [];
+      recorded = {attempt:reviews.length+1, verdict:review.verdict!, score:review.score!, rubric:review.rubric, defects:review.defects ?? [], summary:review.summary, reviewedAt:Date.now()};
+      step.reviews = [...reviews, recorded];
+
+      failures = step.reviews.filter(r=>r.verdict==='fail').length;
+      if(recorded.verdict==='fail'){
+        if(failures > (step.maxRework ?? DEFAULT_MAX_REWORK)){
+          step.status='failed';
+          step.completedAt=Date.now();
+        } else {
+          step.status='in_progress';
+        }
       }
+
+      this.recomputeTaskStatus(todo);
+      todo.metadata.updatedAt=Date.now();
+      return JSON.stringify(todo,null,2);
+    }, { mimeType:'application/json' });
+
+    if(!recorded) return {success:false, data:null, summary:`Step ${args.stepNumber} not found`};
+    await discardPendingReview(this.workspace, taskPath, args.reviewId);
+    const todo:TodoStructure = JSON.parse(result.content);
+    const step = todo.steps.find(s=>s.number===args.stepNumber)!;
+    const maxRework = step.maxRework ?? DEFAULT_MAX_REWORK;
+
+    await this.workspace.updateFile(`${taskPath}/metadata.json`, current=>{
+      const metadata = JSON.parse(current ?? '{}');
+      metadata.status=todo.status;
+      metadata.updatedAt=Date.now();
+      return JSON.stringify(metadata,null,2);
+    }, { mimeType:'application/json' });
+
+    const outcome = recorded.verdict==='pass'
+      ? 'step can now be completed'
+      : step.status==='failed'
+        ? `step failed after ${failures} failed reviews`
+        : `rework ${failures}/${maxRework}: fix the defects and review again`;
+    const defects = recorded.defects.map(d=>`- [${d.severity}] ${d.description}${d.location?` (${d.location})`:''}`);
+    return { success:true, data:{taskId:args.taskId, review:recorded, stepStatus:step.status, action:'record_review'}, summary:`Review ${recorded.attempt} of step ${step.number}: ${recorded.verdict} (${recorded.score}/10); ${outcome}${defects.length?`\n${defects.join('\n')}`:''}`, metadata:{action:'record_review', verdict:recorded.verdict, score:recorded.score, stepStatus:step.status, reworkRemaining:Math.max(0, maxRework-failures)} };
+  }
+
+  // =============================================================
+  // LOCK / UNLOCK TASK
+  // =============================================================
+
+  private async lockTask(args:{taskId?:string; owner?:string; leaseSeconds?:number; leaseToken?:string}): Promise<ToolResult> {
+    if(!args.taskId) return {success:false, data:null, summary:'taskId is required for lock_task'};
+
+    const taskPath = await this.findTaskPath(args.taskId);
+    if(!taskPath) return {success:false, data:null, summary:`Task not found: ${args.taskId}`};
+
+    const owner = args.owner || 'agent';
+    const seconds = Math.max(1, args.leaseSeconds ?? DEFAULT_LEASE_SECONDS);
+    const result = await acquireLease(this.workspace, `${taskPath}/${TASK_LEASE_FILE}`, owner, seconds*1000, args.leaseToken);
+
+    if(!result.acquired){
+      const holder = result.holder;
+      return {success:false, data:holder, summary:holder?`Task ${args.taskId} is locked by ${holder.owner} until ${new Date(holder.expiresAt).toISOString()}`:`Could not lock task ${args.taskId}; retry shortly`, metadata:{error:'TASK_LOCKED', owner:holder?.owner, expiresAt:holder?.expiresAt}};
     }
 
-    this.recomputeTaskStatus(todo);
-    todo.metadata.updatedAt=Date.now();
-    await Workspace.writeFile(`${taskPath}/todo.json`, JSON.stringify(todo,null,2),'application/json');
+    const { lease } = result;
+    return {success:true, data:lease, summary:`Locked task ${args.taskId} for ${owner} until ${new Date(lease.expiresAt).toISOString()}`, metadata:{action:'lock_task', taskId:args.taskId, leaseToken:lease.token, expiresAt:lease.expiresAt}};
+  }
 
-    const metadataStr = await Workspace.readFileText(`${taskPath}/metadata.json`);
-    const metadata = JSON.parse(metadataStr);
-    metadata.status=todo.status;
-    metadata.updatedAt=Date.now();
-    await Workspace.writeFile(`${taskPath}/metadata.json`, JSON.stringify(metadata,null,2),'application/json');
+  private async unlockTask(args:{taskId?:string; leaseToken?:string}): Promise<ToolResult> {
+    if(!args.taskId || !args.leaseToken) return {success:false, data:null, summary:'taskId and leaseToken are required for unlock_task'};
 
-    const checkpointPath = `${taskPath}/checkpoints/checkpoint_${Date.now()}.json`;
-    await Workspace.writeFile(checkpointPath, JSON.stringify({timestamp:Date.now(),todo,updatedStep:args.stepNumber??null,action:'update'},null,2),'application/json');
+    const taskPath = await this.findTaskPath(args.taskId);
+    if(!taskPath) return {success:false, data:null, summary:`Task not found: ${args.taskId}`};
+
+    const released = await releaseLease(this.workspace, `${taskPath}/${TASK_LEASE_FILE}`, args.leaseToken);
+    return released
+      ? {success:true, data:{taskId:args.taskId, action:'unlock_task'}, summary:`Unlocked task ${args.taskId}`, metadata:{action:'unlock_task'}}
+      : {success:false, data:null, summary:`Task ${args.taskId} is not locked with that token`, metadata:{error:'LEASE_NOT_HELD'}};
+  }
+
+  // =============================================================
+  // SNAPSHOTS
+  // =============================================================
+
+  private async createSnapshot(args:{taskId?:string; label?:string}): Promise<ToolResult> {
+    const snapshots = await this.snapshotsFor(args.taskId);
+    if(!snapshots) return {success:false, data:null, summary:`Task not found: ${args.taskId ?? '(no taskId)'}`};
+
+    const manifest = await snapshots.create({reason:'manual', label:args.label});
+    return {success:true, data:manifest, summary:`Created snapshot ${manifest.id} (${manifest.files.length} files, ${manifest.totalBytes} bytes)`, metadata:{action:'snapshot', snapshotId:manifest.id}};
+  }
+
+  private async listSnapshots(args:{taskId?:string}): Promise<ToolResult> {
+    const snapshots = await this.snapshotsFor(args.taskId);
+    if(!snapshots) return {success:false, data:null, summary:`Task not found: ${args.taskId ?? '(no taskId)'}`};
 
-    return { success:true, data:{taskId:args.taskId,todo,updatedStep:args.stepNumber,action:'update_task'}, summary:`Updated task ${args.taskId} → ${todo.status}${args.stepNumber?`, step ${args.stepNumber} → ${args.stepStatus}`:''}`, metadata:{action:'update_task', taskStatus:todo.status} };
+    const list = await snapshots.list();
+    const lines = list.map(s=>`- ${s.id} [${s.reason}] ${new Date(s.createdAt).toISOString()}${s.label?` ${s.label}`:''} (${s.fileCount} files)`);
+    return {success:true, data:list, summary:list.length?`${list.length} snapshots:\n${lines.join('\n')}`:'No snapshots yet', metadata:{action:'list_snapshots', count:list.length}};
+  }
+
+  private async diffSnapshots(args:{taskId?:string; snapshotId?:string; compareTo?:string}): Promise<ToolResult> {
+    if(!args.snapshotId) return {success:false, data:null, summary:'snapshotId is required for diff_snapshots'};
+    const snapshots = await this.snapshotsFor(args.taskId);
+    if(!snapshots) return {success:false, data:null, summary:`Task not found: ${args.taskId ?? '(no taskId)'}`};
+
+    const diff = await snapshots.diff(args.snapshotId, args.compareTo || CURRENT_STATE);
+    return {success:true, data:diff, summary:formatSnapshotDiff(diff), metadata:{action:'diff_snapshots', added:diff.added.length, removed:diff.removed.length, modified:diff.modified.length}};
+  }
+
+  private async restoreSnapshot(args:{taskId?:string; snapshotId?:string; prune?:boolean; leaseToken?:string}): Promise<ToolResult> {
+    if(!args.snapshotId) return {success:false, data:null, summary:'snapshotId is required for restore_snapshot'};
+    const snapshots = await this.snapshotsFor(args.taskId);
+    if(!snapshots) return {success:false, data:null, summary:`Task not found: ${args.taskId ?? '(no taskId)'}`};
+
+    let result;
+    try{
+      result = await snapshots.restore(args.snapshotId, {prune:args.prune, leaseToken:args.leaseToken});
+    }catch(error){
+      if(error instanceof LeaseHeldError) return this.lockedResult(args.taskId!, error.holder);
+      throw error;
+    }
+    return {success:true, data:result, summary:`Restored ${result.snapshotId}: ${result.restored.length} files restored, ${result.removed.length} removed, ${result.unchanged} unchanged. Undo with restore_snapshot ${result.backupId}`, metadata:{action:'restore_snapshot', backupId:result.backupId}};
+  }
+
+  private async snapshotsFor(taskId?:string): Promise<SnapshotManager|null> {
+    return taskId ? SnapshotManager.forTask(this.workspace, taskId) : null;
   }
 
   // =============================================================
@@ -241,11 +507,11 @@ export class PlannedTasksTool implements AdminTool {
   // =============================================================
 
   private async listTasks(): Promise<ToolResult> {
-    const tasksDir = await Workspace.readdir('tasks');
+    const tasksDir = await this.workspace.readdir('tasks');
     const tasks = await Promise.all(tasksDir.directories.map(async dir=>{
       const taskPath = `tasks/${dir}`;
       try{
-        const metadataStr = await Workspace.readFileText(`${taskPath}/metadata.json`);
+        const metadataStr = await this.workspace.readFileText(`${taskPath}/metadata.json`);
         const metadata = JSON.parse(metadataStr);
         return {taskId:dir,title:metadata.title,status:metadata.status,updatedAt:metadata.updatedAt};
       }catch{ return {taskId:dir,title:'(failed to read)',status:'pending',updatedAt:0}; }
@@ -253,10 +519,75 @@ export class PlannedTasksTool implements AdminTool {
     return {success:true,data:tasks,summary:`Listed ${tasks.length} tasks`,metadata:{count:tasks.length}};
   }
 
+  // =============================================================
+  // CLONE TASK
+  // =============================================================
+
+  private async cloneTask(args:{taskId?:string; title?:string; includeArtifacts?:boolean; resetProgress?:boolean}): Promise<ToolResult> {
+    if(!args.taskId) return {success:false, data:null, summary:'taskId is required for clone_task'};
+
+    const tasksDir = await this.workspace.readdir('tasks');
+    const sourceFolder = tasksDir.directories.find(d=>d.includes(args.taskId!));
+    if(!sourceFolder) return {success:false, data:null, summary:`Task not found: ${args.taskId}`};
+
+    const sourcePath = `tasks/${sourceFolder}`;
+    const source:TodoStructure = JSON.parse(await this.workspace.readFileText(`${sourcePath}/todo.json`));
+    const sourceMetadata = JSON.parse(await this.workspace.readFileText(`${sourcePath}/metadata.json`));
+
+    const title = args.title || `${source.title} (copy)`;
+    const taskId = `task_${Date.now()}_${this.slugify(title)}`;
+    const taskPath = `tasks/${taskId}`;
+
+    // Server-side copies; checkpoints belong to the source's history and stay behind
+    await this.workspace.copy(`${sourcePath}/description.md`, `${taskPath}/description.md`);
+    let artifactCount = 0;
+    if(args.includeArtifacts!==false && await this.workspace.exists(`${sourcePath}/artifacts`)==='directory'){
+      artifactCount = await this.workspace.copy(`${sourcePath}/artifacts`, `${taskPath}/artifacts`);
+    } else {
+      await this.workspace.mkdir(`${taskPath}/artifacts`);
+    }
+    await this.workspace.mkdir(`${taskPath}/checkpoints`);
+
+    const reset = args.resetProgress!==false;
+    const todo:TodoStructure = {
+      ...source,
+      taskId,
+      title,
+      steps: source.steps.map(step=>reset ? {...step, status:'pending' as const, startedAt:undefined, completedAt:undefined, notes:undefined, reviews:undefined} : {...step}),
+      metadata:{...source.metadata, createdAt:Date.now(), updatedAt:Date.now()}
+    };
+    this.recomputeTaskStatus(todo);
+
+    const metadata = {...sourceMetadata, taskId, title, status:todo.status, createdAt:Date.now(), updatedAt:Date.now(), clonedFrom:sourceFolder};
+
+    await this.workspace.writeFile(`${taskPath}/metadata.json`, JSON.stringify(metadata,null,2),'application/json');
+    await this.workspace.writeFile(`${taskPath}/todo.json`, JSON.stringify(todo,null,2),'application/json');
+    await this.workspace.writeFile(`${taskPath}/plan.md`, this.generatePlanMarkdown(todo), 'text/markdown');
+
+    return { success:true, data:{taskId, taskPath, todo, metadata, clonedFrom:sourceFolder, action:'clone_task'}, summary:`Cloned task ${sourceFolder} → ${title} (${taskId})${artifactCount?` with ${artifactCount} artifact objects`:''}`, metadata:{action:'clone_task', taskId, sourceTaskId:sourceFolder, artifactCount, resetProgress:reset} };
+  }
+
   // =============================================================
   // HELPERS
   // =============================================================
 
+  private async findTaskPath(taskId:string):Promise<string|null>{
+    return resolveTaskPath(this.workspace, taskId);
+  }
+
+  /**
+   * TASK_LOCKED result when someone else holds the task's lease
+   */
+  private async checkLease(taskId:string, taskPath:string, leaseToken?:string):Promise<ToolResult|null>{
+    const lease = await readLease(this.workspace, `${taskPath}/${TASK_LEASE_FILE}`);
+    if(!lease || lease.token===leaseToken) return null;
+    return this.lockedResult(taskId, lease);
+  }
+
+  private lockedResult(taskId:string, lease:LeaseRecord):ToolResult{
+    return {success:false, data:null, summary:`Task ${taskId} is locked by ${lease.owner} until ${new Date(lease.expiresAt).toISOString()}`, metadata:{error:'TASK_LOCKED', owner:lease.owner, expiresAt:lease.expiresAt}};
+  }
+
   private recomputeTaskStatus(todo:TodoStructure):void{
     if(!todo.steps.length){ todo.status='completed'; return; }
     const statuses=todo.steps.map(s=>s.status);
@@ -277,6 +608,8 @@ export class PlannedTasksTool implements AdminTool {
       if(step.objective) lines.push(`  - Objective: ${step.objective}`);
       if(step.requirements?.length) lines.push(`  - Requirements: ${step.requirements.join(', ')}`);
       if(step.outputs?.length) lines.push(`  - Outputs: ${step.outputs.join(', ')}`);
+      const review = step.reviews?.[step.reviews.length-1];
+      if(review) lines.push(`  - Review: ${review.verdict} (${review.score}/10, attempt ${review.attempt})`);
       if(step.notes) lines.push(`  - Notes: ${step.notes}`);
     }
     return lines.join('\n');
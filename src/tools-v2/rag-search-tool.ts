@@ -2,7 +2,7 @@
 
 import type { GeminiClient } from '../gemini';
 import type { MemoryManager } from '../memory/memory-manager';
-import { Workspace } from '../workspace/workspace';
+import type { ScopedWorkspace } from '../workspace/workspace';
 import type {
   AdminTool,
   ToolResult,
@@ -21,7 +21,8 @@ export class RAGSearchTool implements AdminTool<{
 }, RAGResult> {
   constructor(
     private gemini: GeminiClient,
-    private memory: MemoryManager | null
+    private memory: MemoryManager | null,
+    private workspace: ScopedWorkspace | null = null
   ) {}
 
   getDeclaration(): FunctionDeclaration {
@@ -188,20 +189,20 @@ export class RAGSearchTool implements AdminTool<{
     limit: number,
     result: RAGResult
   ): Promise<void> {
-    if (!Workspace.isInitialized()) return;
+    if (!this.workspace) return;
 
     try {
       // List all task folders
-      const tasksDir = await Workspace.readdir('tasks');
+      const tasksDir = await this.workspace.readdir('tasks');
       const artifactMatches: ArtifactSearchResult[] = [];
 
       // Search through artifacts in each task
       for (const taskFolder of tasksDir.directories.slice(0, 20)) { // Limit to 20 tasks
         try {
-          const artifactsDir = await Workspace.readdir(`tasks/${taskFolder}/artifacts`);
+          const artifactsDir = await this.workspace.readdir(`tasks/${taskFolder}/artifacts`);
           
           for (const file of artifactsDir.files) {
-            const content = await Workspace.readFileText(`tasks/${taskFolder}/artifacts/${file.name}`);
+            const content = await this.workspace.readFileText(`tasks/${taskFolder}/artifacts/${file.name}`);
             
             // Simple relevance scoring based on keyword matching
             const relevance = this.calculateRelevance(query, content);
@@ -239,21 +240,21 @@ export class RAGSearchTool implements AdminTool<{
     limit: number,
     result: RAGResult
   ): Promise<void> {
-    if (!Workspace.isInitialized()) return;
+    if (!this.workspace) return;
 
     try {
-      const tasksDir = await Workspace.readdir('tasks');
+      const tasksDir = await this.workspace.readdir('tasks');
       const taskMatches: TaskSearchResult[] = [];
 
       for (const taskFolder of tasksDir.directories) {
         try {
           // Read task description
-          const description = await Workspace.readFileText(`tasks/${taskFolder}/description.md`);
+          const description = await this.workspace.readFileText(`tasks/${taskFolder}/description.md`);
           
           // Read metadata if exists
           let metadata: any = {};
           try {
-            const metadataStr = await Workspace.readFileText(`tasks/${taskFolder}/metadata.json`);
+            const metadataStr = await this.workspace.readFileText(`tasks/${taskFolder}/metadata.json`);
             metadata = JSON.parse(metadataStr);
           } catch {
             // Metadata optional
@@ -0,0 +1,82 @@
+// src/tools-v2/run-python-tool.ts - Python execution in the Pyodide sandbox
+
+import { formatRunSummary, type PythonSandbox, type PythonRunResult } from '../sandbox/python-sandbox';
+import type {
+  AdminTool,
+  ToolResult,
+  FunctionDeclaration,
+  ToolExecutionContext
+} from './tool-types';
+
+/**
+ * Run Python Tool - Executes code locally in a WASM Python runtime
+ *
+ * Unlike the workers' native code execution, runs can read a task's
+ * files and their outputs are saved back as task artifacts.
+ */
+export class RunPythonTool implements AdminTool<{
+  code: string;
+  taskId?: string;
+  timeoutSeconds?: number;
+}, PythonRunResult | null> {
+  constructor(private sandbox: PythonSandbox) {}
+
+  getDeclaration(): FunctionDeclaration {
+    return {
+      name: 'run_python',
+      description: 'Run Python code in a sandboxed runtime (standard library plus Pyodide packages such as numpy and pandas). With a taskId the task folder is mounted as the working directory; files the code creates or modifies, plus a stdout/stderr log, are saved under tasks/<id>/artifacts. The js, pyodide and micropip modules cannot be imported, so code has no network or JavaScript access and cannot install packages beyond those Pyodide ships.',
+      parameters: {
+        type: 'object',
+        properties: {
+          code: {
+            type: 'string',
+            description: 'Python source to execute. Use print() for results.'
+          },
+          taskId: {
+            type: 'string',
+            description: 'Task whose folder is mounted at the working directory (optional)'
+          },
+          timeoutSeconds: {
+            type: 'number',
+            description: 'Execution time limit in seconds (default 30, max 120)'
+          }
+        },
+        required: ['code']
+      }
+    };
+  }
+
+  async execute(args: {
+    code: string;
+    taskId?: string;
+    timeoutSeconds?: number;
+  }, context?: ToolExecutionContext): Promise<ToolResult<PythonRunResult | null>> {
+    if (!args.code?.trim()) {
+      return {
+        success: false,
+        data: null,
+        summary: 'code is required'
+      };
+    }
+
+    context?.signal?.throwIfAborted();
+
+    const result = await this.sandbox.run({
+      code: args.code,
+      taskId: args.taskId,
+      timeoutMs: args.timeoutSeconds ? args.timeoutSeconds * 1000 : undefined
+    });
+
+    return {
+      success: result.success,
+      data: result,
+      summary: formatRunSummary(result),
+      metadata: {
+        timedOut: result.timedOut,
+        durationMs: result.durationMs,
+        artifactPaths: result.files.map(f => f.path).filter(Boolean),
+        logPath: result.logPath
+      }
+    };
+  }
+}
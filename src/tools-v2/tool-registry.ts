@@ -1,9 +1,12 @@
-// src/tools-v2/tool-registry.ts - FIXED: Type imports and workspace handling
+// src/tools-v2/tool-registry.ts - Admin tool registry
 
 import type { GeminiClient } from '../gemini';
 import type { MemoryManager } from '../memory/memory-manager';
 import type { WorkerFactory } from '../workers/specialized-workers';
-import type { AdminTool, ToolResult, FunctionDeclaration } from './tool-types';
+import type { ScopedWorkspace } from '../workspace/workspace';
+import type { PythonSandbox } from '../sandbox/python-sandbox';
+import type { FileMetadata } from '../types';
+import type { AdminTool, ToolResult, FunctionDeclaration, ToolExecutionContext } from './tool-types';
 import {
   WebSearchTool,
   MemorySearchTool,
@@ -14,15 +17,18 @@ import {
 import { RAGSearchTool } from './rag-search-tool';
 import { PlannedTasksTool } from './planned-tasks-tool';
 import { ArtifactTool } from './artifact-tool';
+import { RunPythonTool } from './run-python-tool';
+import { WorkspaceShellTool } from './workspace-shell-tool';
+import { DelegateBatchTool } from './delegate-batch-tool';
 
 /**
- * Central registry for all admin tools (FIXED)
+ * Central registry for all admin tools
  * 
- * FIXES APPLIED:
- * ✅ Removed WorkspaceImpl type import (doesn't exist)
- * ✅ Tools use Workspace singleton directly via static methods
- * ✅ Workspace parameter is optional and informational only
- * ✅ Clear documentation of workspace access pattern
+ * Workspace-backed tools receive the session's ScopedWorkspace, so each
+ * user (or anonymous session) only sees its own tasks and artifacts.
+ * Pass null when no workspace backend is configured; run_python is
+ * registered whenever a sandbox is supplied. sessionFiles lists the
+ * session's uploads, which delegated workers get as attachments.
  */
 export class AdminToolRegistry {
   private tools = new Map<string, AdminTool>();
@@ -31,15 +37,20 @@ export class AdminToolRegistry {
     gemini: GeminiClient,
     memory: MemoryManager | null,
     workerFactory: WorkerFactory,
-    _workspace: null = null // Workspace handled via singleton, parameter kept for API compatibility
+    workspace: ScopedWorkspace | null = null,
+    sandbox: PythonSandbox | null = null,
+    sessionFiles: (() => Promise<FileMetadata[]>) | null = null
   ) {
-    this.registerTools(gemini, memory, workerFactory);
+    this.registerTools(gemini, memory, workerFactory, workspace, sandbox, sessionFiles);
   }
   
   private registerTools(
     gemini: GeminiClient,
     memory: MemoryManager | null,
-    workerFactory: WorkerFactory
+    workerFactory: WorkerFactory,
+    workspace: ScopedWorkspace | null,
+    sandbox: PythonSandbox | null,
+    sessionFiles: (() => Promise<FileMetadata[]>) | null
   ): void {
     // Core information gathering tools
     this.tools.set('web_search', new WebSearchTool(gemini));
@@ -51,18 +62,26 @@ export class AdminToolRegistry {
     this.tools.set('search_knowledge', new KnowledgeSearchTool(gemini));
     
     // Enhanced RAG search across multiple sources
-    this.tools.set('rag_search', new RAGSearchTool(gemini, memory));
+    this.tools.set('rag_search', new RAGSearchTool(gemini, memory, workspace));
     
     // Task management system
-    // NOTE: PlannedTasksTool uses Workspace singleton directly
-    this.tools.set('planned_tasks', new PlannedTasksTool());
+    this.tools.set('planned_tasks', new PlannedTasksTool(workspace));
     
     // Artifact lifecycle management
-    // NOTE: ArtifactTool uses Workspace singleton directly
-    this.tools.set('artifact_tool', new ArtifactTool());
+    this.tools.set('artifact_tool', new ArtifactTool(workspace));
+    
+    // General file access (ls, cat, grep, diff, ...) within the tenant
+    this.tools.set('workspace_shell', new WorkspaceShellTool(workspace));
+    
+    // Local Python execution (Pyodide)
+    if (sandbox) {
+      this.tools.set('run_python', new RunPythonTool(sandbox));
+    }
     
-    // Worker delegation
-    this.tools.set('delegate_to_worker', new DelegateTool(workerFactory));
+    // Worker delegation, single and fanned out
+    const delegate = new DelegateTool(workerFactory, workspace, sessionFiles);
+    this.tools.set('delegate_to_worker', delegate);
+    this.tools.set('delegate_batch', new DelegateBatchTool(delegate, gemini));
     
     // User interaction
     this.tools.set('ask_user', new AskUserTool());
@@ -80,7 +99,7 @@ export class AdminToolRegistry {
   /**
    * Execute a tool by name with arguments
    */
-  async executeTool(name: string, args: any): Promise<ToolResult> {
+  async executeTool(name: string, args: any, context?: ToolExecutionContext): Promise<ToolResult> {
     const tool = this.tools.get(name);
     
     if (!tool) {
@@ -96,13 +115,25 @@ export class AdminToolRegistry {
       const argsPreview = JSON.stringify(args).substring(0, 200);
       console.log(`[ToolRegistry] Executing ${name} with args: ${argsPreview}`);
       
-      const result = await tool.execute(args);
+      context?.signal?.throwIfAborted();
+      
+      const result = await tool.execute(args, context);
       
       const status = result.success ? 'SUCCESS' : 'FAILED';
       console.log(`[ToolRegistry] ${name} completed: ${status}`);
       
       return result;
     } catch (error) {
+      if (context?.signal?.aborted) {
+        console.log(`[ToolRegistry] ${name} cancelled`);
+        return {
+          success: false,
+          data: null,
+          summary: `Tool execution cancelled: ${name}`,
+          metadata: { error: 'CANCELLED', toolName: name }
+        };
+      }
+      
       console.error(`[ToolRegistry] ${name} error:`, error);
       return {
         success: false,
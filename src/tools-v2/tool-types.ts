@@ -30,12 +30,30 @@ export interface FunctionDeclaration {
   };
 }
 
+/**
+ * Per-call context passed from the admin loop to tools
+ */
+export interface ToolExecutionContext {
+  signal?: AbortSignal;
+  /** Called by long-running tools as they progress; streamed to the client */
+  onProgress?: (progress: ToolProgress) => void;
+}
+
+/**
+ * A progress update from a running tool
+ */
+export interface ToolProgress {
+  message: string;
+  /** Tool-specific fields, e.g. which batch worker finished */
+  detail?: Record<string, unknown>;
+}
+
 /**
  * Base interface for all admin tools
  */
 export interface AdminTool<TArgs = any, TResult = any> {
   getDeclaration(): FunctionDeclaration;
-  execute(args: TArgs): Promise<ToolResult<TResult>>;
+  execute(args: TArgs, context?: ToolExecutionContext): Promise<ToolResult<TResult>>;
 }
 
 /**
@@ -0,0 +1,74 @@
+// src/tools-v2/workspace-shell-tool.ts - Shell access to the tenant workspace
+
+import { WorkspaceShell, formatShellResult, type ShellResult } from '../workspace/shell';
+import type { ScopedWorkspace } from '../workspace/workspace';
+import type {
+  AdminTool,
+  ToolResult,
+  FunctionDeclaration,
+  ToolExecutionContext
+} from './tool-types';
+
+/**
+ * Workspace Shell Tool - POSIX-style file commands over the workspace
+ *
+ * Confined to the session's ScopedWorkspace; the working directory
+ * persists across calls for the life of the registry.
+ */
+export class WorkspaceShellTool implements AdminTool<{ command: string }, ShellResult | null> {
+  private shell: WorkspaceShell | null;
+
+  constructor(workspace: ScopedWorkspace | null = null) {
+    this.shell = workspace ? new WorkspaceShell(workspace) : null;
+  }
+
+  getDeclaration(): FunctionDeclaration {
+    return {
+      name: 'workspace_shell',
+      description: 'Run shell commands against the workspace (tasks, artifacts, any file). Supports ls, cat, head, tail, wc, grep, find, diff, sort, uniq, cp, mv, rm, mkdir, touch, echo, tee, cd, pwd with pipes (|), ;, &&, ||, > and >> redirection, quoting and globs. / is the workspace root. Run "help" for usage. Returns the exit code, stdout and stderr.',
+      parameters: {
+        type: 'object',
+        properties: {
+          command: {
+            type: 'string',
+            description: 'Command line, e.g. "grep -rn TODO tasks/ | head -20"'
+          }
+        },
+        required: ['command']
+      }
+    };
+  }
+
+  async execute(args: { command: string }, context?: ToolExecutionContext): Promise<ToolResult<ShellResult | null>> {
+    if (!this.shell) {
+      return {
+        success: false,
+        data: null,
+        summary: 'Workspace shell is not available. Configure a workspace backend first.',
+        metadata: { error: 'WORKSPACE_NOT_AVAILABLE' }
+      };
+    }
+
+    if (!args.command?.trim()) {
+      return {
+        success: false,
+        data: null,
+        summary: 'command is required'
+      };
+    }
+
+    context?.signal?.throwIfAborted();
+
+    const result = await this.shell.exec(args.command);
+
+    return {
+      success: result.exitCode === 0,
+      data: result,
+      summary: formatShellResult(args.command, result),
+      metadata: {
+        exitCode: result.exitCode,
+        cwd: result.cwd
+      }
+    };
+  }
+}
@@ -1,6 +1,9 @@
 // src/types.ts - Enhanced Type Definitions (Fixed Environment)
 
-import type { DurableObjectNamespace, D1Database, VectorizeIndex } from '@cloudflare/workers-types';
+import type { DurableObjectNamespace, D1Database, VectorizeIndex, R2Bucket } from '@cloudflare/workers-types';
+import type { PhaseContext } from './core/phase-manager';
+import type { TaskRunState } from './core/task-runner';
+import type { ContextReport } from './core/context-builder';
 
 // =============================================================
 // Environment (✅ FIXED)
@@ -17,13 +20,36 @@ export interface Env {
   // API Keys
   GEMINI_API_KEY: string;
   JWT_SECRET?: string;
+  API_KEYS?: string; // "userId:key,userId2:key2"
   
-  // B2 Workspace Configuration
+  // Workspace backend: s3 | b2 | minio | r2 | durable-object | memory
+  // (auto-detected from the bindings/credentials below when unset)
+  WORKSPACE_BACKEND?: string;
+  WORKSPACE_BASE_PATH?: string;
+  WORKSPACE_BUCKET?: R2Bucket;
+  WORKSPACE_STORE?: DurableObjectNamespace;
+  
+  // Generic S3-compatible storage (MinIO, AWS, R2 S3 API)
+  S3_ENDPOINT?: string;
+  S3_ACCESS_KEY_ID?: string;
+  S3_SECRET_ACCESS_KEY?: string;
+  S3_BUCKET?: string;
+  S3_REGION?: string;
+  
+  // B2 Workspace Configuration (S3 backend aliases)
   B2_KEY_ID?: string;
   B2_APPLICATION_KEY?: string;
   B2_S3_ENDPOINT?: string;
   B2_BUCKET?: string;
   B2_BASE_PATH?: string;
+  
+  // Admin loop: max tool calls executed in parallel per turn (default 3)
+  TOOL_CONCURRENCY?: string;
+  
+  // Python sandbox (run_python): Pyodide package index and per-run limits
+  PYODIDE_INDEX_URL?: string;
+  PYTHON_TIMEOUT_MS?: string;
+  PYTHON_CPU_LIMIT_MS?: string;
 }
 
 // =============================================================
@@ -221,6 +247,18 @@ export interface MessagePart {
     mimeType: string;
     fileUri: string;
   };
+  functionCall?: {
+    id?: string;
+    name: string;
+    args: Record<string, any>;
+  };
+  functionResponse?: {
+    id?: string;
+    name: string;
+    response: Record<string, any>;
+  };
+  // Opaque signature Gemini attaches to functionCall parts when thinking is on
+  thoughtSignature?: string;
 }
 
 // =============================================================
@@ -238,8 +276,18 @@ export interface OrionRPC {
   clear(): Promise<{ ok: boolean }>;
   
   getStatus(): Promise<StatusResponse>;
+  getPhase(): Promise<PhaseContext>;
+  cancel(): Promise<{ ok: boolean; cancelled: boolean }>;
+  startTaskRun(taskId: string): Promise<TaskRunState>;
+  getTaskRun(taskId: string): Promise<TaskRunState | null>;
+  cancelTaskRun(taskId: string): Promise<TaskRunState | null>;
+  setUser(userId: string): Promise<{ ok: boolean }>;
+  listMemories(): Promise<{ memories: MemoryEntry[]; userMemories: MemoryEntry[] }>;
+  deleteMemory(id: string): Promise<{ ok: boolean }>;
+  destroy(): Promise<{ ok: boolean; filesDeleted: number }>;
   
-  uploadFile(base64: string, mimeType: string, name: string): Promise<{ success: boolean; file: FileMetadata }>;
+  uploadFile(data: Uint8Array, mimeType: string, name: string): Promise<{ success: boolean; file: FileMetadata }>;
+  uploadFromWorkspace(path: string, mimeType: string, name: string): Promise<{ success: boolean; file: FileMetadata; path: string }>;
   listFiles(): Promise<{ files: FileMetadata[] }>;
   deleteFile(fileUri: string): Promise<{ ok: boolean }>;
 }
@@ -257,6 +305,7 @@ export interface ChatResponse {
   conversationPhase: 'discovery' | 'planning' | 'execution' | 'review' | 'delivery';
   suggestedWorkflows?: WorkflowTemplate[];
   activeProject?: ActiveProject;
+  cancelled?: boolean;
   metadata?: {
     turnsUsed: number;
     toolsUsed: string[];
@@ -280,6 +329,8 @@ export interface StatusResponse {
   messageCount: number;
   artifactCount: number;
   conversationPhase: 'discovery' | 'planning' | 'execution' | 'review' | 'delivery';
+  phase?: PhaseContext;
+  context?: ContextReport;
   activeProject?: ActiveProject;
   protocol: string;
   metrics: AgentMetrics;
@@ -331,10 +382,15 @@ export interface Artifact {
   stepNumber?: number;
   createdAt: number;
   workerType?: string;
+  /** Workspace path once persisted to a task folder */
+  path?: string;
   metadata?: {
     format?: string;
     language?: string;
     toolsUsed?: string[];
+    workerType?: string;
+    /** From a ```lang:run block the worker asked to execute */
+    executed?: boolean;
   };
 }
 
@@ -366,12 +422,16 @@ export interface AgentState {
 // Memory Types
 // =============================================================
 
+export type MemoryScope = 'session' | 'user';
+
 export interface MemoryEntry {
   id: string;
   content: string;
-  type: 'conversation' | 'fact' | 'procedure' | 'observation';
+  type: 'conversation' | 'fact' | 'preference' | 'procedure' | 'observation';
   importance: number;
   timestamp: number;
+  scope?: MemoryScope; // Defaults to 'session'
+  userId?: string;
   metadata?: Record<string, unknown>;
 }
 
@@ -389,6 +449,7 @@ export interface MemorySearchResult {
 export type WSIncomingMessage =
   | { type: 'user_message'; content: string; images?: Array<{ data: string; mimeType: string }> }
   | { type: 'continue_project'; projectId: string }
+  | { type: 'cancel' }
   | { type: 'ping' };
 
 export type WSOutgoingMessage =
@@ -397,9 +458,13 @@ export type WSOutgoingMessage =
   | { type: 'chunk'; content: string }
   | { type: 'step_started'; stepNumber: number; stepTitle: string }
   | { type: 'step_complete'; stepNumber: number; stepTitle: string; outputs: string[]; nextStepReady: boolean }
+  | { type: 'task_run'; run: TaskRunState }
+  | { type: 'session_title'; sessionId: string; title: string }
   | { type: 'project_created'; projectId: string; projectPath: string }
   | { type: 'artifact'; artifact: Artifact }
-  | { type: 'tool_use'; tool: string; params: any }
-  | { type: 'complete'; response: string; artifacts: Artifact[]; metadata?: any }
+  | { type: 'tool_use'; tool: string; params: any; callId: string }
+  | { type: 'tool_progress'; tool: string; callId: string; message: string; detail?: Record<string, unknown> }
+  | { type: 'tool_result'; tool: string; callId: string; success: boolean; summary: string }
+  | { type: 'complete'; response: string; artifacts: Artifact[]; metadata?: any; cancelled?: boolean }
   | { type: 'error'; error: string }
   | { type: 'pong' };
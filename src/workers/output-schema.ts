@@ -0,0 +1,136 @@
+// src/workers/output-schema.ts - JSON schemas for structured worker results
+
+import { z, type ZodTypeAny } from 'zod';
+
+/**
+ * The JSON Schema subset workers accept: type (or a [type, 'null'] pair),
+ * properties/required, items, enum, const, anyOf/oneOf and the usual
+ * length and range bounds. Unknown keywords are ignored.
+ */
+export type JsonSchema = Record<string, any>;
+
+/**
+ * Build a zod validator for a JSON schema. Objects allow extra keys
+ * unless additionalProperties is false.
+ */
+export function jsonSchemaToZod(schema: JsonSchema): ZodTypeAny {
+  if (!schema || typeof schema !== 'object') return z.any();
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (Array.isArray(variants) && variants.length > 0) {
+    return unionOf(variants.map(jsonSchemaToZod));
+  }
+
+  if (schema.const !== undefined) return z.literal(schema.const);
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return unionOf(schema.enum.map((value: z.Primitive) => z.literal(value)));
+  }
+
+  const types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  const nullable = schema.nullable === true || types.includes('null');
+  const type = types.find(t => t !== 'null') ?? (schema.properties ? 'object' : undefined);
+
+  const base = buildType(type, schema);
+  return nullable ? base.nullable() : base;
+}
+
+/**
+ * Gemini's responseSchema is an OpenAPI subset with upper-case type
+ * names and no additionalProperties/const; translate what it supports
+ */
+export function toGeminiSchema(schema: JsonSchema): JsonSchema {
+  const result: JsonSchema = {};
+  const types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  const type = types.find(t => t !== 'null') ?? (schema.properties ? 'object' : undefined);
+
+  if (type) result.type = type.toUpperCase();
+  if (types.includes('null') || schema.nullable) result.nullable = true;
+
+  for (const key of ['description', 'format', 'required', 'minItems', 'maxItems', 'minimum', 'maximum', 'minLength', 'maxLength', 'pattern']) {
+    if (schema[key] !== undefined) result[key] = schema[key];
+  }
+  // Gemini only supports string enums
+  const values = schema.const !== undefined ? [schema.const] : schema.enum;
+  if (Array.isArray(values) && values.every(v => typeof v === 'string')) {
+    result.type = 'STRING';
+    result.enum = values;
+  }
+
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value as JsonSchema)])
+    );
+    result.propertyOrdering = Object.keys(schema.properties);
+  }
+  if (schema.items) result.items = toGeminiSchema(schema.items);
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (Array.isArray(variants)) result.anyOf = variants.map(toGeminiSchema);
+
+  return result;
+}
+
+/**
+ * One line per issue, e.g. "items.0.price: Expected number, received string"
+ */
+export function formatSchemaIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+}
+
+/**
+ * Parse a model reply as JSON: tolerates a ```json fence around it
+ */
+export function parseJsonReply(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+  return JSON.parse((fenced ? fenced[1] : text).trim());
+}
+
+// -----------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------
+
+function buildType(type: string | undefined, schema: JsonSchema): ZodTypeAny {
+  switch (type) {
+    case 'string': {
+      let s = z.string();
+      if (typeof schema.minLength === 'number') s = s.min(schema.minLength);
+      if (typeof schema.maxLength === 'number') s = s.max(schema.maxLength);
+      if (typeof schema.pattern === 'string') s = s.regex(new RegExp(schema.pattern));
+      return s;
+    }
+    case 'number':
+    case 'integer': {
+      let n = type === 'integer' ? z.number().int() : z.number();
+      if (typeof schema.minimum === 'number') n = n.min(schema.minimum);
+      if (typeof schema.maximum === 'number') n = n.max(schema.maximum);
+      return n;
+    }
+    case 'boolean':
+      return z.boolean();
+    case 'null':
+      return z.null();
+    case 'array': {
+      let a = z.array(jsonSchemaToZod(schema.items ?? {}));
+      if (typeof schema.minItems === 'number') a = a.min(schema.minItems);
+      if (typeof schema.maxItems === 'number') a = a.max(schema.maxItems);
+      return a;
+    }
+    case 'object': {
+      const required = new Set<string>(schema.required ?? []);
+      const shape = Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => {
+          const field = jsonSchemaToZod(value as JsonSchema);
+          return [key, required.has(key) ? field : field.optional()];
+        })
+      );
+      const object = z.object(shape);
+      return schema.additionalProperties === false ? object.strict() : object.passthrough();
+    }
+    default:
+      return z.any();
+  }
+}
+
+function unionOf(options: ZodTypeAny[]): ZodTypeAny {
+  return options.length === 1 ? options[0] : z.union(options as [ZodTypeAny, ZodTypeAny, ...ZodTypeAny[]]);
+}
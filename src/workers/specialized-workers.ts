@@ -1,16 +1,17 @@
 // src/workers/specialized-workers.ts - Concrete Worker Implementations
 
 import type { GeminiClient } from '../gemini';
+import type { AgentRegistry, AgentWrapper } from '../agents/agent-wrapper';
 import { WorkerExecutor } from './worker-executor';
-import type { WorkerContext, WorkerConfig } from './worker-types';
+import { WORKER_CAPABILITIES, type WorkerContext, type WorkerConfig, type WorkerRuntime, type WorkerType } from './worker-types';
 
 /**
  * Research Worker - Specialized for information gathering
  * Uses: Google Search, URL Context
  */
 export class ResearchWorker extends WorkerExecutor {
-  constructor(gemini: GeminiClient) {
-    super(gemini, 'research');
+  constructor(gemini: GeminiClient, runtime: WorkerRuntime = {}) {
+    super(gemini, 'research', runtime);
   }
   
   protected buildSystemPrompt(context: WorkerContext): string {
@@ -56,8 +57,8 @@ You have ${context.maxTurns} turns. Use them efficiently.`;
  * Uses: Code Execution, Web Search (for docs)
  */
 export class CodeWorker extends WorkerExecutor {
-  constructor(gemini: GeminiClient) {
-    super(gemini, 'code');
+  constructor(gemini: GeminiClient, runtime: WorkerRuntime = {}) {
+    super(gemini, 'code', runtime);
   }
   
   protected buildSystemPrompt(context: WorkerContext): string {
@@ -105,8 +106,8 @@ You have ${context.maxTurns} turns. Use them efficiently.`;
  * Uses: Code Execution (for calculations)
  */
 export class AnalysisWorker extends WorkerExecutor {
-  constructor(gemini: GeminiClient) {
-    super(gemini, 'analysis');
+  constructor(gemini: GeminiClient, runtime: WorkerRuntime = {}) {
+    super(gemini, 'analysis', runtime);
   }
   
   protected buildSystemPrompt(context: WorkerContext): string {
@@ -152,8 +153,8 @@ You have ${context.maxTurns} turns. Use them efficiently.`;
  * Uses: Web Search (for research), URL Context
  */
 export class ContentWorker extends WorkerExecutor {
-  constructor(gemini: GeminiClient) {
-    super(gemini, 'content');
+  constructor(gemini: GeminiClient, runtime: WorkerRuntime = {}) {
+    super(gemini, 'content', runtime);
   }
   
   protected buildSystemPrompt(context: WorkerContext): string {
@@ -194,26 +195,216 @@ You have ${context.maxTurns} turns. Use them efficiently.`;
   }
 }
 
+/**
+ * Result every review ends with; planned_tasks record_review stores it
+ * on the step
+ */
+export const REVIEW_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    score: { type: 'number', minimum: 0, maximum: 10, description: 'Overall quality, 0-10' },
+    rubric: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          criterion: { type: 'string' },
+          score: { type: 'number', minimum: 0, maximum: 10 },
+          comment: { type: 'string' }
+        },
+        required: ['criterion', 'score']
+      }
+    },
+    defects: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          severity: { type: 'string', enum: ['critical', 'major', 'minor'] },
+          description: { type: 'string', description: 'What is wrong and what the fix should be' },
+          location: { type: 'string', description: 'File, section or line the defect is in' }
+        },
+        required: ['severity', 'description']
+      }
+    },
+    verdict: { type: 'string', enum: ['pass', 'fail'] },
+    summary: { type: 'string' }
+  },
+  required: ['score', 'rubric', 'defects', 'verdict', 'summary']
+};
+
+/**
+ * Review Worker - Checks a step's outputs against its objective and requirements
+ * Uses: Workspace shell (read-only inspection)
+ */
+export class ReviewWorker extends WorkerExecutor {
+  constructor(gemini: GeminiClient, runtime: WorkerRuntime = {}) {
+    super(gemini, 'review', runtime);
+  }
+  
+  protected buildSystemPrompt(context: WorkerContext): string {
+    return `You are a specialized REVIEW WORKER in an AI system.
+
+Your role: Judge whether the outputs of a task step meet its objective and requirements.
+
+You receive the step under review (objective and requirements) in the task context and the
+step's outputs as <output> blocks. Review only what was produced; do not redo the work.
+
+Rubric (score each 0-10):
+1. **Objective**: Does the output achieve what the step set out to do?
+2. **Requirements**: Is every listed requirement met? Name any that are not.
+3. **Correctness**: Are facts, code and figures right and internally consistent?
+4. **Quality**: Is it complete, clear and usable by the next step?
+
+Defects:
+- critical: the output is wrong, missing, or a requirement is not met
+- major: a significant gap or error that needs rework
+- minor: polish that does not block the step
+- Describe each defect concretely, with where it is and what the fix should be
+
+Verdict:
+- pass only if there are no critical or major defects and the overall score is 7 or higher
+- otherwise fail
+
+Guidelines:
+- Be strict but fair; do not invent requirements the step did not have
+- Quote the output when pointing at a defect
+- End with [TASK_COMPLETE] when done
+
+You have ${context.maxTurns} turns. Use them efficiently.`;
+  }
+  
+  protected getToolConfig(): WorkerConfig {
+    return {
+      useSearch: false,
+      useCodeExecution: false,
+      useUrlContext: false,
+      temperature: 0.2,
+      maxOutputTokens: 4096
+    };
+  }
+  
+  /**
+   * Every review ends with the rubric score, defects and verdict
+   */
+  protected defaultOutputSchema(): Record<string, any> | undefined {
+    return REVIEW_OUTPUT_SCHEMA;
+  }
+}
+
+/**
+ * Generic Agent Worker - Runs a custom AgentWrapper definition
+ * Uses: the wrapper's defaultTools and modelConfig
+ */
+export class GenericAgentWorker extends WorkerExecutor {
+  constructor(gemini: GeminiClient, private agent: AgentWrapper, runtime: WorkerRuntime = {}) {
+    super(gemini, agent.id, runtime);
+  }
+  
+  protected buildSystemPrompt(context: WorkerContext): string {
+    return `${this.agent.systemPrompt}
+
+Guidelines:
+- End with [TASK_COMPLETE] when done
+
+You have ${context.maxTurns} turns. Use them efficiently.`;
+  }
+  
+  /**
+   * The wrapper's userPromptTemplate, filled in, ahead of the standard
+   * objective/context/instructions sections
+   */
+  protected buildUserPrompt(context: WorkerContext): string {
+    const template = this.agent.userPromptTemplate
+      .replace(/\{objective\}/g, context.objective)
+      .replace(/\{requirements\}|\{constraints\}/g, context.constraints.map(c => `- ${c}`).join('\n'))
+      .replace(/\{input_sources\}/g, (context.previousStepOutputs ?? []).join('\n\n'))
+      .replace(/\{output_format\}/g, this.agent.outputSchema?.type ?? 'text');
+    
+    return `<agent_prompt>\n${template}\n</agent_prompt>\n${super.buildUserPrompt(context)}`;
+  }
+  
+  protected getToolConfig(): WorkerConfig {
+    const { defaultTools = {}, modelConfig } = this.agent;
+    return {
+      useSearch: defaultTools.googleSearch === true,
+      useCodeExecution: defaultTools.codeExecution === true,
+      useUrlContext: false,
+      temperature: modelConfig.temperature ?? 0.7,
+      maxOutputTokens: modelConfig.maxOutputTokens ?? 4096,
+      model: modelConfig.model || undefined,
+      thinkingBudget: defaultTools.thinking === false ? 0 : modelConfig.thinkingBudget
+    };
+  }
+  
+  /**
+   * Structured agents validate against their outputSchema.format
+   */
+  protected defaultOutputSchema(): Record<string, any> | undefined {
+    const { outputSchema } = this.agent;
+    return outputSchema?.type === 'structured' && outputSchema.format ? outputSchema.format : undefined;
+  }
+}
+
+export const BUILT_IN_WORKER_TYPES: WorkerType[] = ['research', 'code', 'analysis', 'content', 'review'];
+
 /**
  * Worker Factory - Creates appropriate worker for task type
+ *
+ * Besides the built-in types, any agent id known to the AgentRegistry
+ * (agents/<id>.json in the workspace) can be delegated to.
  */
 export class WorkerFactory {
   private gemini: GeminiClient;
+  private runtime: WorkerRuntime;
+  private agents: AgentRegistry | null;
   
-  constructor(gemini: GeminiClient) {
+  constructor(gemini: GeminiClient, runtime: WorkerRuntime = {}, agents: AgentRegistry | null = null) {
     this.gemini = gemini;
+    this.runtime = runtime;
+    this.agents = agents;
   }
   
-  createWorker(type: 'research' | 'code' | 'analysis' | 'content'): WorkerExecutor {
+  /**
+   * Built-in worker, or a GenericAgentWorker for a registered agent id
+   */
+  async resolveWorker(type: string): Promise<WorkerExecutor> {
+    if (BUILT_IN_WORKER_TYPES.includes(type as WorkerType)) {
+      return this.createWorker(type as WorkerType);
+    }
+    
+    const agent = await this.agents?.loadAgent(type);
+    if (!agent) {
+      throw new Error(`Unknown worker type: ${type}`);
+    }
+    
+    // Custom agents get the local runtimes only when they may run code
+    const canRunCode = agent.defaultTools?.codeExecution === true;
+    return new GenericAgentWorker(this.gemini, agent, {
+      sandbox: canRunCode ? this.runtime.sandbox : null,
+      workspace: canRunCode ? this.runtime.workspace : null
+    });
+  }
+  
+  createWorker(type: WorkerType): WorkerExecutor {
+    // Only hand each worker the local runtimes its capabilities allow
+    const capabilities = WORKER_CAPABILITIES[type];
+    const runtime: WorkerRuntime = {
+      sandbox: capabilities?.sandboxPython ? this.runtime.sandbox : null,
+      workspace: capabilities?.workspaceShell ? this.runtime.workspace : null
+    };
+    
     switch (type) {
       case 'research':
-        return new ResearchWorker(this.gemini);
+        return new ResearchWorker(this.gemini, runtime);
       case 'code':
-        return new CodeWorker(this.gemini);
+        return new CodeWorker(this.gemini, runtime);
       case 'analysis':
-        return new AnalysisWorker(this.gemini);
+        return new AnalysisWorker(this.gemini, runtime);
       case 'content':
-        return new ContentWorker(this.gemini);
+        return new ContentWorker(this.gemini, runtime);
+      case 'review':
+        return new ReviewWorker(this.gemini, runtime);
       default:
         throw new Error(`Unknown worker type: ${type}`);
     }
@@ -0,0 +1,210 @@
+// src/workers/step-context.ts - Task context injected into delegated workers
+
+import { estimateTokens } from '../core/context-builder';
+import type { FileMetadata } from '../types';
+import type { TodoStep, TodoStructure } from '../tools-v2/planned-tasks-tool';
+import { inferMimeType, isTextMimeType } from '../workspace/mime';
+import { resolveTaskPath } from '../workspace/task-paths';
+import { isVersionHistoryPath } from '../workspace/versions';
+import type { ScopedWorkspace } from '../workspace/workspace';
+
+export interface InjectedContext {
+  /** Task title, description and step overview; empty outside a task */
+  taskContext: string;
+  /** Dependency contents, one `<output>` block each */
+  previousStepOutputs: string[];
+  files: FileMetadata[];
+  /** Dependencies and files dropped or truncated to fit the budget */
+  omitted: string[];
+  tokens: number;
+}
+
+export const DEFAULT_CONTEXT_BUDGET = 16000;
+
+/** Below this many tokens a truncated dependency isn't worth including */
+const MIN_TRUNCATED_TOKENS = 500;
+
+/** Rough cost of a non-text upload (PDF pages, images) */
+const BINARY_FILE_TOKENS = 1500;
+
+interface Dependency {
+  stepNumber: number;
+  /** Relative to the task folder */
+  path: string;
+}
+
+/**
+ * Context for a worker running `stepNumber` of `taskId`: the task
+ * overview, the contents of the step's dependencies and the session's
+ * uploaded files, within `budgetTokens`.
+ *
+ * Dependencies come from the step's `dependencies` in todo.json; steps
+ * without any get the outputs of earlier completed steps, nearest first.
+ * When the budget runs out, the dependency that doesn't fit is truncated
+ * and later ones (and files) are left out and reported in `omitted`.
+ *
+ * With `review`, the worker is reviewing the step rather than doing it:
+ * it gets the step's own outputs instead of its dependencies, and the
+ * step's objective and requirements are spelled out in the task context.
+ */
+export async function gatherWorkerContext(
+  workspace: ScopedWorkspace | null,
+  options: { taskId?: string; stepNumber?: number; files?: FileMetadata[]; budgetTokens?: number; review?: boolean }
+): Promise<InjectedContext> {
+  const context: InjectedContext = { taskContext: '', previousStepOutputs: [], files: [], omitted: [], tokens: 0 };
+  let remaining = options.budgetTokens ?? DEFAULT_CONTEXT_BUDGET;
+
+  const taskPath = workspace && options.taskId ? await resolveTaskPath(workspace, options.taskId) : null;
+  if (workspace && taskPath) {
+    const todo: TodoStructure = JSON.parse(await workspace.readFileText(`${taskPath}/todo.json`));
+    const step = todo.steps.find(s => s.number === options.stepNumber);
+
+    context.taskContext = renderTaskContext(todo, step);
+    if (options.review && step) context.taskContext += `\n\n${renderStepUnderReview(step)}`;
+    remaining -= estimateTokens(context.taskContext);
+
+    const sources = !step ? [] : options.review
+      ? await resolveOutputs(workspace, taskPath, [step])
+      : await resolveDependencies(workspace, taskPath, todo, step);
+
+    const outputs: Array<{ dependency: Dependency; block: string }> = [];
+    for (const dependency of sources) {
+      if (remaining < MIN_TRUNCATED_TOKENS) {
+        context.omitted.push(dependency.path);
+        continue;
+      }
+
+      let content = await workspace.readFileText(`${taskPath}/${dependency.path}`);
+      if (estimateTokens(content) > remaining) {
+        const kept = remaining * 4;
+        content = `${content.slice(0, kept)}\n[... truncated ${content.length - kept} characters; the full file is ${dependency.path}]`;
+        context.omitted.push(`${dependency.path} (truncated)`);
+      }
+
+      const block = `<output step="${dependency.stepNumber}" path="${dependency.path}">\n${content}\n</output>`;
+      remaining -= estimateTokens(block);
+      outputs.push({ dependency, block });
+    }
+
+    context.previousStepOutputs = outputs
+      .sort((a, b) => a.dependency.stepNumber - b.dependency.stepNumber)
+      .map(o => o.block);
+  }
+
+  for (const file of options.files ?? []) {
+    const cost = fileTokens(file);
+    if (cost > remaining) {
+      context.omitted.push(file.name);
+      continue;
+    }
+    remaining -= cost;
+    context.files.push(file);
+  }
+
+  context.tokens = (options.budgetTokens ?? DEFAULT_CONTEXT_BUDGET) - remaining;
+  return context;
+}
+
+// -----------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------
+
+function renderTaskContext(todo: TodoStructure, step: TodoStep | undefined): string {
+  const lines = [`Task: ${todo.title}`];
+  if (todo.description) lines.push(todo.description);
+  lines.push('', 'Steps:');
+
+  for (const s of todo.steps) {
+    const marker = s.number === step?.number ? ' ← current' : '';
+    lines.push(`- Step ${s.number} [${s.status}] ${s.title}${marker}`);
+    if (s.number !== step?.number && s.notes) lines.push(`  ${s.notes}`);
+  }
+  return lines.join('\n');
+}
+
+function renderStepUnderReview(step: TodoStep): string {
+  const lines = [`Under review: Step ${step.number} - ${step.title}`];
+  if (step.objective) lines.push(`Objective: ${step.objective}`);
+  if (step.requirements?.length) {
+    lines.push('Requirements:', ...step.requirements.map(r => `- ${r}`));
+  }
+
+  // A rework round: check the previous defects were actually fixed
+  const previous = step.reviews?.[step.reviews.length - 1];
+  if (previous?.verdict === 'fail') {
+    lines.push(`Previous review (attempt ${previous.attempt}) failed with:`);
+    lines.push(...previous.defects.map(d => `- [${d.severity}] ${d.description}${d.location ? ` (${d.location})` : ''}`));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Readable text files the step depends on, nearest step first
+ */
+async function resolveDependencies(
+  workspace: ScopedWorkspace,
+  taskPath: string,
+  todo: TodoStructure,
+  step: TodoStep
+): Promise<Dependency[]> {
+  if (!step.dependencies?.length) {
+    const earlier = todo.steps
+      .filter(s => s.number < step.number && s.status === 'completed')
+      .sort((a, b) => b.number - a.number);
+    return resolveOutputs(workspace, taskPath, earlier);
+  }
+
+  const candidates = step.dependencies.map(d => ({ stepNumber: d.stepNumber, path: d.outputPath }));
+  return resolveCandidates(workspace, taskPath, candidates);
+}
+
+/**
+ * The recorded outputs and step-<n>-* artifacts of `steps`, in that order
+ */
+async function resolveOutputs(workspace: ScopedWorkspace, taskPath: string, steps: TodoStep[]): Promise<Dependency[]> {
+  const artifacts = await workspace.exists(`${taskPath}/artifacts`) === 'directory'
+    ? (await workspace.readdir(`${taskPath}/artifacts`)).files.map(f => f.name)
+    : [];
+
+  const candidates: Dependency[] = [];
+  for (const s of steps) {
+    for (const output of s.outputs ?? []) candidates.push({ stepNumber: s.number, path: output });
+    for (const name of artifacts.filter(n => n.startsWith(`step-${s.number}-`))) {
+      candidates.push({ stepNumber: s.number, path: `artifacts/${name}` });
+    }
+  }
+  return resolveCandidates(workspace, taskPath, candidates);
+}
+
+async function resolveCandidates(workspace: ScopedWorkspace, taskPath: string, candidates: Dependency[]): Promise<Dependency[]> {
+  const resolved: Dependency[] = [];
+  const seen = new Set<string>();
+  for (const candidate of candidates) {
+    const path = await locate(workspace, taskPath, candidate.path);
+    if (path && !seen.has(path)) {
+      seen.add(path);
+      resolved.push({ stepNumber: candidate.stepNumber, path });
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Outputs may be recorded relative to the task folder or to artifacts/;
+ * free-text outputs ("Market summary") and binary files resolve to null
+ */
+async function locate(workspace: ScopedWorkspace, taskPath: string, output: string): Promise<string | null> {
+  const path = output.trim().replace(/^\.?\//, '');
+  if (!path || path.includes('..') || isVersionHistoryPath(path) || !isTextMimeType(inferMimeType(path))) {
+    return null;
+  }
+
+  for (const candidate of [path, `artifacts/${path}`]) {
+    if (await workspace.exists(`${taskPath}/${candidate}`) === 'file') return candidate;
+  }
+  return null;
+}
+
+function fileTokens(file: FileMetadata): number {
+  return isTextMimeType(file.mimeType) ? Math.ceil((file.sizeBytes || 0) / 4) : BINARY_FILE_TOKENS;
+}
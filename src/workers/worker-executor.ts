@@ -1,29 +1,58 @@
 // src/workers/worker-executor.ts - Abstract Worker Executor
 
 import type { GeminiClient, GenerateOptions } from '../gemini';
-import type { Artifact } from '../types';
-import type { WorkerContext, WorkerResult, WorkerType, WorkerConfig } from './worker-types';
+import type { Artifact, FileMetadata } from '../types';
+import type { ScopedWorkspace } from '../workspace/workspace';
+import { formatRunSummary, type PythonSandbox } from '../sandbox/python-sandbox';
+import { WorkspaceShell, formatShellResult } from '../workspace/shell';
+import type { WorkerContext, WorkerResult, WorkerType, WorkerConfig, WorkerRuntime } from './worker-types';
+import { formatSchemaIssues, jsonSchemaToZod, parseJsonReply, toGeminiSchema, type JsonSchema } from './output-schema';
+
+// Local executions per turn, so a chatty model can't stall the worker
+const MAX_LOCAL_RUNS_PER_TURN = 3;
+
+// Structured-output turns before giving up on a schema
+const MAX_SCHEMA_ATTEMPTS = 3;
+
+interface StructuredOutcome {
+  parsed?: unknown;
+  /** Empty when the reply validated */
+  errors: string[];
+  attempts: number;
+  tokens: number;
+}
 
 /**
  * Abstract base class for all worker executors
  * Workers are STATELESS - they receive context and return results
  * Workers use ONLY native tools (search, code execution, url context)
  * NO function calling in workers - that's for Admin only
+ * Workers given a runtime may also emit ```python:run (sandbox, task folder
+ * mounted) and ```sh:run (read-only workspace shell) blocks, which are executed
+ * locally and fed back on the next turn
  */
 export abstract class WorkerExecutor {
   protected gemini: GeminiClient;
-  protected workerType: WorkerType;
+  /** A built-in WorkerType or a custom agent id */
+  protected workerType: string;
+  protected sandbox: PythonSandbox | null;
+  protected workspace: ScopedWorkspace | null;
 
-  constructor(gemini: GeminiClient, type: WorkerType) {
+  constructor(gemini: GeminiClient, type: WorkerType | string, runtime: WorkerRuntime = {}) {
     this.gemini = gemini;
     this.workerType = type;
+    this.sandbox = runtime.sandbox ?? null;
+    this.workspace = runtime.workspace ?? null;
   }
 
   /**
    * Execute worker task with context
-   * Returns structured result
+   * Returns structured result; an aborted signal stops before the next turn
+   * and returns the artifacts collected so far. With an output schema the
+   * free-form turns are followed by JSON-mode turns until the reply
+   * validates (see runStructuredTurns).
    */
-  async execute(context: WorkerContext): Promise<WorkerResult> {
+  async execute(context: WorkerContext, signal?: AbortSignal): Promise<WorkerResult> {
     console.log(`[Worker:${this.workerType}] Starting execution for: ${context.objective}`);
     
     const systemPrompt = this.buildSystemPrompt(context);
@@ -38,12 +67,20 @@ export abstract class WorkerExecutor {
     let totalTokens = 0;
     let thinkingTokens = 0;
     
-    const messages: Array<{ role: string; content: string }> = [
+    const messages: Array<{ role: string; content: string; files?: FileMetadata[] }> = [
       { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt }
+      { role: 'user', content: userPrompt, files: context.files?.length ? context.files : undefined }
     ];
     
+    // One shell per execution so cd carries across turns. Read-only: task
+    // files change through tools that take the lease and record versions.
+    const shell = this.workspace ? new WorkspaceShell(this.workspace, { readOnly: true }) : null;
+    
     while (turn < maxTurns) {
+      if (signal?.aborted) {
+        return this.buildCancelledResult(turn, artifacts, observations, toolsUsed, totalTokens, thinkingTokens);
+      }
+      
       turn++;
       console.log(`[Worker:${this.workerType}] Turn ${turn}/${maxTurns}`);
       
@@ -51,15 +88,20 @@ export abstract class WorkerExecutor {
         const response = await this.gemini.generateWithNativeTools(
           messages,
           {
-            ...toolConfig,
+            model: toolConfig.model,
+            useSearch: toolConfig.useSearch,
+            useCodeExecution: toolConfig.useCodeExecution,
+            temperature: toolConfig.temperature,
+            maxOutputTokens: toolConfig.maxOutputTokens,
             stream: false,
-            thinkingConfig: { thinkingBudget: 4096, includeThoughts: false }
+            signal,
+            thinkingConfig: { thinkingBudget: toolConfig.thinkingBudget ?? 4096, includeThoughts: false }
           }
         );
         
         if (response.usageMetadata) {
           totalTokens += response.usageMetadata.totalTokens || 0;
-          thinkingTokens += response.usageMetadata.totalTokens || 0;
+          thinkingTokens += response.usageMetadata.thoughtsTokens || 0;
         }
         
         if (response.searchResults) {
@@ -78,6 +120,12 @@ export abstract class WorkerExecutor {
         const turnArtifacts = this.extractArtifacts(response.text, context);
         artifacts.push(...turnArtifacts);
         
+        // Execute local blocks; their output becomes the next prompt
+        const runReports = await this.runLocalBlocks(response.text, context, shell, toolsUsed, signal);
+        if (runReports.length > 0) {
+          observations.push(...runReports.map(r => r.split('\n')[0]));
+        }
+        
         // Check if worker signals completion
         if (this.isComplete(response.text)) {
           console.log(`[Worker:${this.workerType}] Task complete at turn ${turn}`);
@@ -88,11 +136,17 @@ export abstract class WorkerExecutor {
         if (turn < maxTurns) {
           messages.push({
             role: 'user',
-            content: 'Continue with next step or provide final deliverable.'
+            content: runReports.length > 0
+              ? `<execution_results>\n${runReports.join('\n\n')}\n</execution_results>\nContinue with next step or provide final deliverable.`
+              : 'Continue with next step or provide final deliverable.'
           });
         }
         
       } catch (error) {
+        if (signal?.aborted) {
+          return this.buildCancelledResult(turn, artifacts, observations, toolsUsed, totalTokens, thinkingTokens);
+        }
+        
         console.error(`[Worker:${this.workerType}] Error at turn ${turn}:`, error);
         return {
           success: false,
@@ -112,16 +166,138 @@ export abstract class WorkerExecutor {
     // Extract final output
     const finalOutput = this.extractFinalOutput(messages);
     
+    const outputSchema = context.outputSchema ?? this.defaultOutputSchema();
+    if (!outputSchema) {
+      return {
+        success: true,
+        output: finalOutput,
+        artifacts,
+        observations,
+        metadata: {
+          turnsUsed: turn,
+          toolsUsed: Array.from(toolsUsed),
+          tokensConsumed: totalTokens,
+          thinkingTokens
+        }
+      };
+    }
+    
+    let structured: StructuredOutcome;
+    try {
+      structured = await this.runStructuredTurns(messages, outputSchema, toolConfig, signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        return this.buildCancelledResult(turn, artifacts, observations, toolsUsed, totalTokens, thinkingTokens);
+      }
+      throw error;
+    }
+    
+    const valid = structured.errors.length === 0;
+    if (!valid) {
+      observations.push(`Structured output failed validation after ${structured.attempts} attempts`);
+    }
+    
     return {
-      success: true,
-      output: finalOutput,
+      success: valid,
+      output: valid
+        ? finalOutput
+        : `${finalOutput}\n\nStructured output did not match the schema:\n${structured.errors.map(e => `- ${e}`).join('\n')}`,
+      parsed: structured.parsed,
+      artifacts,
+      observations,
+      metadata: {
+        turnsUsed: turn + structured.attempts,
+        toolsUsed: Array.from(toolsUsed),
+        tokensConsumed: totalTokens + structured.tokens,
+        thinkingTokens,
+        schemaAttempts: structured.attempts,
+        schemaErrors: valid ? undefined : structured.errors
+      }
+    };
+  }
+  
+  /**
+   * Ask for the final result as JSON (responseMimeType + responseSchema,
+   * native tools off since Gemini can't combine them) and validate it
+   * with zod. Each failure is fed back with the validation errors, up
+   * to MAX_SCHEMA_ATTEMPTS.
+   */
+  private async runStructuredTurns(
+    messages: Array<{ role: string; content: string; files?: FileMetadata[] }>,
+    schema: JsonSchema,
+    toolConfig: WorkerConfig,
+    signal?: AbortSignal
+  ): Promise<StructuredOutcome> {
+    const validator = jsonSchemaToZod(schema);
+    const responseSchema = toGeminiSchema(schema);
+    let errors: string[] = [];
+    let tokens = 0;
+    
+    messages.push({
+      role: 'user',
+      content: 'Now return your final result as a single JSON value matching the required schema. JSON only, no commentary.'
+    });
+    
+    for (let attempt = 1; attempt <= MAX_SCHEMA_ATTEMPTS; attempt++) {
+      signal?.throwIfAborted();
+      console.log(`[Worker:${this.workerType}] Structured output attempt ${attempt}/${MAX_SCHEMA_ATTEMPTS}`);
+      
+      const response = await this.gemini.generateWithNativeTools(messages, {
+        model: toolConfig.model,
+        temperature: toolConfig.temperature,
+        maxOutputTokens: toolConfig.maxOutputTokens,
+        responseMimeType: 'application/json',
+        responseSchema,
+        stream: false,
+        signal,
+        thinkingConfig: { thinkingBudget: toolConfig.thinkingBudget ?? 4096, includeThoughts: false }
+      });
+      tokens += response.usageMetadata?.totalTokens || 0;
+      messages.push({ role: 'assistant', content: response.text });
+      
+      try {
+        const result = validator.safeParse(parseJsonReply(response.text));
+        if (result.success) {
+          return { parsed: result.data, errors: [], attempts: attempt, tokens };
+        }
+        errors = formatSchemaIssues(result.error);
+      } catch (error) {
+        errors = [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`];
+      }
+      
+      messages.push({
+        role: 'user',
+        content: `That JSON does not match the schema:\n${errors.map(e => `- ${e}`).join('\n')}\nReturn the corrected JSON only.`
+      });
+    }
+    
+    console.warn(`[Worker:${this.workerType}] Structured output invalid after ${MAX_SCHEMA_ATTEMPTS} attempts`);
+    return { errors, attempts: MAX_SCHEMA_ATTEMPTS, tokens };
+  }
+  
+  /**
+   * Result returned when execution is cancelled mid-run
+   */
+  private buildCancelledResult(
+    turn: number,
+    artifacts: Artifact[],
+    observations: string[],
+    toolsUsed: Set<string>,
+    totalTokens: number,
+    thinkingTokens: number
+  ): WorkerResult {
+    console.log(`[Worker:${this.workerType}] Cancelled at turn ${turn}`);
+    return {
+      success: false,
+      output: 'Worker cancelled',
       artifacts,
       observations,
       metadata: {
         turnsUsed: turn,
         toolsUsed: Array.from(toolsUsed),
         tokensConsumed: totalTokens,
-        thinkingTokens
+        thinkingTokens,
+        cancelled: true
       }
     };
   }
@@ -137,6 +313,10 @@ export abstract class WorkerExecutor {
   protected buildUserPrompt(context: WorkerContext): string {
     const parts: string[] = [];
     
+    if (context.taskContext) {
+      parts.push(`<task_context>\n${context.taskContext}\n</task_context>`);
+    }
+    
     parts.push(`<objective>${context.objective}</objective>`);
     
     if (context.stepDescription) {
@@ -151,14 +331,25 @@ export abstract class WorkerExecutor {
     
     if (context.previousStepOutputs && context.previousStepOutputs.length > 0) {
       parts.push(`<previous_outputs>`);
-      context.previousStepOutputs.forEach((o, i) => {
-        parts.push(`Step ${i + 1} output: ${o}`);
-      });
+      context.previousStepOutputs.forEach(o => parts.push(o));
       parts.push(`</previous_outputs>`);
     }
     
+    if (context.files && context.files.length > 0) {
+      parts.push(`<attached_files>${context.files.map(f => f.name).join(', ')}</attached_files>`);
+    }
+    
     parts.push(`\n<instructions>`);
     parts.push(`You have ${context.maxTurns} turns to complete this task.`);
+    if (this.sandbox) {
+      parts.push(`To run Python locally, put code in a \`\`\`python:run block; results arrive next turn.`);
+      if (context.taskId) {
+        parts.push(`The working directory holds the task's files; files you write are saved as task artifacts.`);
+      }
+    }
+    if (this.workspace) {
+      parts.push(`To inspect workspace files, put read-only shell commands (ls, cat, grep, find, diff, ...) in a \`\`\`sh:run block, one per line; commands that write files are not available.`);
+    }
     parts.push(`Provide clear, actionable deliverables.`);
     parts.push(`When complete, end your response with: [TASK_COMPLETE]`);
     parts.push(`</instructions>`);
@@ -166,18 +357,69 @@ export abstract class WorkerExecutor {
     return parts.join('\n');
   }
   
+  /**
+   * Run ```python:run and ```sh:run blocks from a response, in order.
+   * Returns one formatted report per block.
+   */
+  protected async runLocalBlocks(
+    text: string,
+    context: WorkerContext,
+    shell: WorkspaceShell | null,
+    toolsUsed: Set<string>,
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    if (!this.sandbox && !shell) return [];
+    
+    const blockRegex = /```(python|sh):run\n([\s\S]*?)```/g;
+    const reports: string[] = [];
+    let match;
+    
+    while ((match = blockRegex.exec(text)) !== null && reports.length < MAX_LOCAL_RUNS_PER_TURN) {
+      if (signal?.aborted) break;
+      const [, kind, code] = match;
+      
+      try {
+        if (kind === 'python' && this.sandbox) {
+          toolsUsed.add('run_python');
+          const result = await this.sandbox.run({ code, taskId: context.taskId });
+          reports.push(formatRunSummary(result));
+        } else if (kind === 'sh' && shell) {
+          toolsUsed.add('workspace_shell');
+          const transcript: string[] = [];
+          for (const line of code.split('\n').filter(l => l.trim() && !l.trim().startsWith('#'))) {
+            transcript.push(formatShellResult(line, await shell.exec(line)));
+          }
+          reports.push(transcript.join('\n'));
+        }
+      } catch (error) {
+        reports.push(`${kind}:run failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    
+    return reports;
+  }
+  
   /**
    * Get tool configuration - must be implemented by subclasses
    */
   protected abstract getToolConfig(): WorkerConfig;
   
   /**
-   * Check if worker signals completion
+   * Schema used when the caller doesn't pass one; none by default
+   */
+  protected defaultOutputSchema(): JsonSchema | undefined {
+    return undefined;
+  }
+  
+  /**
+   * Check if worker signals completion: the [TASK_COMPLETE] marker, or a
+   * closing line saying so. The phrases elsewhere in a response ("once the
+   * task complete...") don't end the run.
    */
   protected isComplete(text: string): boolean {
-    return text.includes('[TASK_COMPLETE]') || 
-           text.toLowerCase().includes('task complete') ||
-           text.toLowerCase().includes('deliverable ready');
+    if (text.includes('[TASK_COMPLETE]')) return true;
+    const lastLine = text.trim().split('\n').pop()?.toLowerCase() ?? '';
+    return /\b(task complete|deliverable ready)\b/.test(lastLine);
   }
   
   /**
@@ -187,13 +429,13 @@ export abstract class WorkerExecutor {
     const artifacts: Artifact[] = [];
     
     // Look for code blocks
-    const codeBlockRegex = /```(\w+)?\n([\s\S]*?)```/g;
+    const codeBlockRegex = /```([\w:]+)?\n([\s\S]*?)```/g;
     let match;
     let codeBlockCount = 0;
     
     while ((match = codeBlockRegex.exec(text)) !== null) {
       codeBlockCount++;
-      const language = match[1] || 'text';
+      const [language, mode] = (match[1] || 'text').split(':');
       const content = match[2];
       
       artifacts.push({
@@ -204,7 +446,8 @@ export abstract class WorkerExecutor {
         createdAt: Date.now(),
         metadata: {
           language,
-          workerType: this.workerType
+          workerType: this.workerType,
+          executed: mode === 'run'
         }
       });
     }
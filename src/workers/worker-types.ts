@@ -1,11 +1,13 @@
 // src/workers/worker-types.ts - Enhanced Worker Type Definitions
 
-import type { Artifact } from '../types';
+import type { Artifact, FileMetadata } from '../types';
+import type { PythonSandbox } from '../sandbox/python-sandbox';
+import type { ScopedWorkspace } from '../workspace/workspace';
 
 /**
  * Worker Types - Each specialized for different domains
  */
-export type WorkerType = 'research' | 'code' | 'analysis' | 'content';
+export type WorkerType = 'research' | 'code' | 'analysis' | 'content' | 'review';
 
 /**
  * Worker capabilities definition
@@ -17,26 +19,41 @@ export interface WorkerCapabilities {
     urlContext: boolean;
     fileSearch: boolean;
   };
+  sandboxPython: boolean; // Runs ```python:run blocks in the local Pyodide sandbox
+  workspaceShell: boolean; // Runs ```sh:run blocks against the workspace
   outputFormats: ('text' | 'json' | 'code' | 'markdown')[];
   maxComplexity: 'simple' | 'medium' | 'complex';
   estimatedTurnsRange: [number, number]; // [min, max]
 }
 
+/**
+ * Local execution available to a worker beyond Gemini's native tools
+ */
+export interface WorkerRuntime {
+  sandbox?: PythonSandbox | null;
+  workspace?: ScopedWorkspace | null;
+}
+
 /**
  * Input context provided to workers
  */
 export interface WorkerContext {
-  type: WorkerType;
+  /** A built-in WorkerType or the id of a custom agent */
+  type: string;
   objective: string;
   stepDescription: string;
   constraints: string[];
   previousStepOutputs?: string[];
   maxTurns: number;
-  files?: Array<{ fileUri: string; mimeType: string }>;
+  files?: FileMetadata[];
   
   // Task context
   taskId?: string;
   stepNumber?: number;
+  taskContext?: string;
+  
+  /** JSON schema the final result must match; see WorkerResult.parsed */
+  outputSchema?: Record<string, any>;
 }
 
 /**
@@ -45,6 +62,8 @@ export interface WorkerContext {
 export interface WorkerResult {
   success: boolean;
   output: string;
+  /** The validated JSON result, when an output schema was given */
+  parsed?: unknown;
   artifacts: Artifact[];
   observations: string[];
   metadata: {
@@ -53,6 +72,11 @@ export interface WorkerResult {
     tokensConsumed: number;
     thinkingTokens: number;
     executionTime?: number;
+    cancelled?: boolean;
+    /** Structured-output turns used */
+    schemaAttempts?: number;
+    /** Validation errors of the last attempt when none validated */
+    schemaErrors?: string[];
   };
 }
 
@@ -65,6 +89,10 @@ export interface WorkerConfig {
   useUrlContext: boolean;
   temperature: number;
   maxOutputTokens: number;
+  /** Defaults to the client's model */
+  model?: string;
+  /** Defaults to 4096 */
+  thinkingBudget?: number;
 }
 
 /**
@@ -78,6 +106,8 @@ export const WORKER_CAPABILITIES: Record<WorkerType, WorkerCapabilities> = {
       codeExecution: false,
       fileSearch: false
     },
+    sandboxPython: false,
+    workspaceShell: true,
     outputFormats: ['markdown', 'json'],
     maxComplexity: 'medium',
     estimatedTurnsRange: [3, 7]
@@ -90,6 +120,8 @@ export const WORKER_CAPABILITIES: Record<WorkerType, WorkerCapabilities> = {
       codeExecution: true,
       fileSearch: false
     },
+    sandboxPython: true,
+    workspaceShell: true,
     outputFormats: ['code', 'json', 'text'],
     maxComplexity: 'complex',
     estimatedTurnsRange: [2, 10]
@@ -102,6 +134,8 @@ export const WORKER_CAPABILITIES: Record<WorkerType, WorkerCapabilities> = {
       codeExecution: true,
       fileSearch: false
     },
+    sandboxPython: true,
+    workspaceShell: true,
     outputFormats: ['json', 'markdown', 'text'],
     maxComplexity: 'medium',
     estimatedTurnsRange: [2, 5]
@@ -114,8 +148,24 @@ export const WORKER_CAPABILITIES: Record<WorkerType, WorkerCapabilities> = {
       codeExecution: false,
       fileSearch: false
     },
+    sandboxPython: false,
+    workspaceShell: true,
     outputFormats: ['markdown', 'text'],
     maxComplexity: 'simple',
     estimatedTurnsRange: [2, 5]
+  },
+  
+  review: {
+    nativeTools: {
+      googleSearch: false,
+      urlContext: false,
+      codeExecution: false,
+      fileSearch: false
+    },
+    sandboxPython: false,
+    workspaceShell: true, // To inspect the task folder beyond the injected outputs
+    outputFormats: ['json'],
+    maxComplexity: 'simple',
+    estimatedTurnsRange: [1, 3]
   }
 };
@@ -0,0 +1,217 @@
+// src/workspace/backends/durable-object-backend.ts - Workspace files in Durable Object SQLite
+
+import { DurableObject } from 'cloudflare:workers';
+import type { DurableObjectNamespace } from '@cloudflare/workers-types';
+import type { Env } from '../../types';
+import { computeEtag, conditionsMet, rollUpListing } from './memory-backend';
+import { collectStream, streamFromBytes } from './streams';
+import {
+  WorkspaceConflictError,
+  type BackendListing,
+  type BackendObject,
+  type PutConditions,
+  type WorkspaceBackend
+} from './types';
+
+interface SqlStorage {
+  exec(query: string, ...params: any[]): {
+    one(): any;
+    toArray(): any[];
+  };
+}
+
+const STORE_NAME = 'workspace';
+
+/**
+ * RPC surface of WorkspaceStore as seen through its stub
+ */
+interface WorkspaceStoreRPC {
+  put(key: string, data: Uint8Array, mimeType: string, conditions?: PutConditions): Promise<{ etag: string; conflict?: boolean }>;
+  get(key: string): Promise<Uint8Array | null>;
+  getWithEtag(key: string): Promise<{ data: Uint8Array; etag: string } | null>;
+  head(key: string): Promise<BackendObject | null>;
+  copy(sourceKey: string, destinationKey: string): Promise<{ etag: string }>;
+  delete(keys: string[]): Promise<void>;
+  list(prefix: string): Promise<BackendObject[]>;
+}
+
+/**
+ * Durable Object holding every workspace file in one SQLite table.
+ *
+ * A single named instance backs the whole workspace so all sessions see
+ * the same tree, matching the bucket-backed behaviour. Values are capped
+ * at 2 MB by Durable Object SQLite.
+ */
+export class WorkspaceStore extends DurableObject implements WorkspaceStoreRPC {
+  private sql: SqlStorage;
+
+  constructor(state: DurableObjectState, env: Env) {
+    super(state, env);
+    this.sql = (state.storage as unknown as { sql: SqlStorage }).sql;
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS objects (
+        key TEXT PRIMARY KEY,
+        data BLOB NOT NULL,
+        mime_type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        modified INTEGER NOT NULL,
+        etag TEXT NOT NULL
+      )
+    `);
+  }
+
+  /**
+   * Preconditions are checked and applied in one synchronous stretch, so
+   * no other request can interleave. A failed check is reported as
+   * `conflict` because only the message of a thrown error survives RPC.
+   */
+  async put(
+    key: string,
+    data: Uint8Array,
+    mimeType: string,
+    conditions: PutConditions = {}
+  ): Promise<{ etag: string; conflict?: boolean }> {
+    const etag = await computeEtag(data);
+
+    if (conditions.ifMatch !== undefined || conditions.ifNoneMatch) {
+      const rows = this.sql.exec(`SELECT etag FROM objects WHERE key = ?`, key).toArray();
+      if (!conditionsMet(rows[0]?.etag, conditions)) {
+        return { etag: rows[0]?.etag, conflict: true };
+      }
+    }
+
+    this.sql.exec(
+      `INSERT OR REPLACE INTO objects (key, data, mime_type, size, modified, etag) VALUES (?, ?, ?, ?, ?, ?)`,
+      key, data, mimeType, data.byteLength, Date.now(), etag
+    );
+    return { etag };
+  }
+
+  async get(key: string): Promise<Uint8Array | null> {
+    const rows = this.sql.exec(`SELECT data FROM objects WHERE key = ?`, key).toArray();
+    if (rows.length === 0) return null;
+    return new Uint8Array(rows[0].data as ArrayBuffer);
+  }
+
+  async getWithEtag(key: string): Promise<{ data: Uint8Array; etag: string } | null> {
+    const rows = this.sql.exec(`SELECT data, etag FROM objects WHERE key = ?`, key).toArray();
+    if (rows.length === 0) return null;
+    return { data: new Uint8Array(rows[0].data as ArrayBuffer), etag: rows[0].etag };
+  }
+
+  async head(key: string): Promise<BackendObject | null> {
+    const rows = this.sql.exec(`SELECT key, size, modified, etag FROM objects WHERE key = ?`, key).toArray();
+    return rows.length > 0 ? this.toObject(rows[0]) : null;
+  }
+
+  async copy(sourceKey: string, destinationKey: string): Promise<{ etag: string }> {
+    const rows = this.sql.exec(`SELECT etag FROM objects WHERE key = ?`, sourceKey).toArray();
+    if (rows.length === 0) throw new Error(`Copy source not found: ${sourceKey}`);
+
+    this.sql.exec(
+      `INSERT OR REPLACE INTO objects (key, data, mime_type, size, modified, etag)
+       SELECT ?, data, mime_type, size, ?, etag FROM objects WHERE key = ?`,
+      destinationKey, Date.now(), sourceKey
+    );
+    return { etag: rows[0].etag };
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.sql.exec(`DELETE FROM objects WHERE key = ?`, key);
+    }
+  }
+
+  async list(prefix: string): Promise<BackendObject[]> {
+    return this.sql
+      .exec(
+        `SELECT key, size, modified, etag FROM objects WHERE substr(key, 1, length(?)) = ? ORDER BY key`,
+        prefix, prefix
+      )
+      .toArray()
+      .map(row => this.toObject(row));
+  }
+
+  private toObject(row: any): BackendObject {
+    return {
+      key: row.key,
+      size: row.size,
+      modified: new Date(row.modified),
+      etag: row.etag
+    };
+  }
+}
+
+/**
+ * Client side of WorkspaceStore, reached over Durable Object RPC
+ */
+export class DurableObjectBackend implements WorkspaceBackend {
+  readonly kind = 'durable-object' as const;
+  private store: WorkspaceStoreRPC;
+
+  constructor(namespace: DurableObjectNamespace) {
+    this.store = namespace.get(namespace.idFromName(STORE_NAME)) as unknown as WorkspaceStoreRPC;
+  }
+
+  describe(): Record<string, string> {
+    return { binding: 'WORKSPACE_STORE', instance: STORE_NAME };
+  }
+
+  async put(
+    key: string,
+    content: string | Uint8Array,
+    mimeType: string,
+    conditions?: PutConditions
+  ): Promise<{ etag?: string }> {
+    const data = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+    const { etag, conflict } = await this.store.put(key, data, mimeType, conditions);
+    if (conflict) {
+      throw new WorkspaceConflictError(key, conditions ?? {});
+    }
+    return { etag };
+  }
+
+  /**
+   * SQLite values are capped at 2 MB, so there is nothing to gain from
+   * streaming into the store; the body is buffered and sent in one call.
+   */
+  async putStream(key: string, stream: ReadableStream<Uint8Array>, mimeType: string): Promise<{ etag?: string; size: number }> {
+    const data = await collectStream(stream);
+    const { etag } = await this.store.put(key, data, mimeType);
+    return { etag, size: data.byteLength };
+  }
+
+  async get(key: string): Promise<Uint8Array | null> {
+    return this.store.get(key);
+  }
+
+  async getWithEtag(key: string): Promise<{ data: Uint8Array; etag?: string } | null> {
+    return this.store.getWithEtag(key);
+  }
+
+  async getStream(key: string): Promise<ReadableStream<Uint8Array> | null> {
+    const data = await this.store.get(key);
+    return data ? streamFromBytes(data) : null;
+  }
+
+  async head(key: string): Promise<BackendObject | null> {
+    return this.store.head(key);
+  }
+
+  async copy(sourceKey: string, destinationKey: string): Promise<{ etag?: string }> {
+    return this.store.copy(sourceKey, destinationKey);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.store.delete([key]);
+  }
+
+  async deleteMany(keys: string[]): Promise<void> {
+    if (keys.length > 0) await this.store.delete(keys);
+  }
+
+  async list(prefix: string, options: { delimiter?: boolean } = {}): Promise<BackendListing> {
+    const objects = await this.store.list(prefix);
+    return rollUpListing(prefix, objects, !!options.delimiter);
+  }
+}
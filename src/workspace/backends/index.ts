@@ -0,0 +1,125 @@
+// src/workspace/backends/index.ts - Backend selection from configuration
+
+import type { Env } from '../../types';
+import { S3Backend } from './s3-backend';
+import { R2Backend } from './r2-backend';
+import { DurableObjectBackend } from './durable-object-backend';
+import { MemoryBackend } from './memory-backend';
+import type { WorkspaceBackend, WorkspaceBackendKind } from './types';
+
+export type { WorkspaceBackend, WorkspaceBackendKind, BackendListing, BackendObject, PutConditions } from './types';
+export { WorkspaceConflictError } from './types';
+export { S3Backend, inferS3Region } from './s3-backend';
+export { R2Backend } from './r2-backend';
+export { DurableObjectBackend, WorkspaceStore } from './durable-object-backend';
+export { MemoryBackend } from './memory-backend';
+
+const BACKEND_ALIASES: Record<string, WorkspaceBackendKind> = {
+  s3: 's3',
+  b2: 's3',
+  minio: 's3',
+  r2: 'r2',
+  do: 'durable-object',
+  'durable-object': 'durable-object',
+  sqlite: 'durable-object',
+  memory: 'memory',
+};
+
+interface S3Settings {
+  endpoint?: string;
+  bucket?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  region?: string;
+}
+
+/**
+ * Generic S3_* settings take precedence; B2_* is kept for existing deployments
+ */
+function getS3Settings(env: Env): S3Settings {
+  return {
+    endpoint: env.S3_ENDPOINT || env.B2_S3_ENDPOINT,
+    bucket: env.S3_BUCKET || env.B2_BUCKET,
+    accessKeyId: env.S3_ACCESS_KEY_ID || env.B2_KEY_ID,
+    secretAccessKey: env.S3_SECRET_ACCESS_KEY || env.B2_APPLICATION_KEY,
+    region: env.S3_REGION,
+  };
+}
+
+function isS3Configured(env: Env): boolean {
+  const s3 = getS3Settings(env);
+  return !!(s3.endpoint && s3.bucket && s3.accessKeyId && s3.secretAccessKey);
+}
+
+/**
+ * Resolve which backend to use. WORKSPACE_BACKEND wins when set; otherwise
+ * an R2 binding is preferred over S3 credentials. Returns null when nothing
+ * is configured.
+ */
+export function resolveBackendKind(env: Env): WorkspaceBackendKind | null {
+  const requested = env.WORKSPACE_BACKEND?.trim().toLowerCase();
+
+  if (requested) {
+    const kind = BACKEND_ALIASES[requested];
+    if (!kind) {
+      throw new Error(
+        `Unknown WORKSPACE_BACKEND "${env.WORKSPACE_BACKEND}". ` +
+        `Expected one of: ${Object.keys(BACKEND_ALIASES).join(', ')}`
+      );
+    }
+    return kind;
+  }
+
+  if (env.WORKSPACE_BUCKET) return 'r2';
+  if (isS3Configured(env)) return 's3';
+  return null;
+}
+
+/**
+ * Missing settings for the selected backend (empty when ready)
+ */
+export function getMissingBackendSettings(env: Env, kind: WorkspaceBackendKind): string[] {
+  switch (kind) {
+    case 's3': {
+      const s3 = getS3Settings(env);
+      const missing: string[] = [];
+      if (!s3.endpoint) missing.push('S3_ENDPOINT (or B2_S3_ENDPOINT)');
+      if (!s3.bucket) missing.push('S3_BUCKET (or B2_BUCKET)');
+      if (!s3.accessKeyId) missing.push('S3_ACCESS_KEY_ID (or B2_KEY_ID)');
+      if (!s3.secretAccessKey) missing.push('S3_SECRET_ACCESS_KEY (or B2_APPLICATION_KEY)');
+      return missing;
+    }
+    case 'r2':
+      return env.WORKSPACE_BUCKET ? [] : ['WORKSPACE_BUCKET (R2 binding)'];
+    case 'durable-object':
+      return env.WORKSPACE_STORE ? [] : ['WORKSPACE_STORE (Durable Object binding)'];
+    case 'memory':
+      return [];
+  }
+}
+
+export function createWorkspaceBackend(env: Env, kind: WorkspaceBackendKind): WorkspaceBackend {
+  const missing = getMissingBackendSettings(env, kind);
+  if (missing.length > 0) {
+    throw new Error(`Workspace backend "${kind}" is missing: ${missing.join(', ')}`);
+  }
+
+  switch (kind) {
+    case 's3': {
+      const s3 = getS3Settings(env);
+      return new S3Backend({
+        endpoint: String(s3.endpoint),
+        bucket: String(s3.bucket),
+        accessKeyId: String(s3.accessKeyId),
+        secretAccessKey: String(s3.secretAccessKey),
+        region: s3.region,
+      });
+    }
+    case 'r2':
+      return new R2Backend(env.WORKSPACE_BUCKET!);
+    case 'durable-object':
+      return new DurableObjectBackend(env.WORKSPACE_STORE!);
+    case 'memory':
+      return new MemoryBackend();
+  }
+}
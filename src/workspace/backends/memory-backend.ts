@@ -0,0 +1,145 @@
+// src/workspace/backends/memory-backend.ts - In-process store for tests and local experiments
+
+import { collectStream, streamFromBytes } from './streams';
+import {
+  WorkspaceConflictError,
+  type BackendListing,
+  type BackendObject,
+  type PutConditions,
+  type WorkspaceBackend
+} from './types';
+
+interface StoredObject {
+  data: Uint8Array;
+  mimeType: string;
+  modified: Date;
+  etag: string;
+}
+
+/**
+ * Apply S3 delimiter semantics to a flat, prefix-filtered key set:
+ * keys with a '/' after the prefix collapse into a common prefix.
+ */
+export function rollUpListing(prefix: string, objects: BackendObject[], delimiter: boolean): BackendListing {
+  if (!delimiter) {
+    return { objects, prefixes: [] };
+  }
+
+  const direct: BackendObject[] = [];
+  const prefixes = new Set<string>();
+
+  for (const object of objects) {
+    const rest = object.key.slice(prefix.length);
+    const slash = rest.indexOf('/');
+    if (slash === -1) {
+      direct.push(object);
+    } else {
+      prefixes.add(prefix + rest.slice(0, slash + 1));
+    }
+  }
+
+  return { objects: direct, prefixes: [...prefixes].sort() };
+}
+
+export async function computeEtag(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new Uint8Array(data));
+  return Array.from(new Uint8Array(digest).slice(0, 16))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Evaluate put() preconditions against the stored ETag (undefined when
+ * the key does not exist), for stores that check them in-process.
+ */
+export function conditionsMet(currentEtag: string | undefined, conditions: PutConditions): boolean {
+  if (conditions.ifNoneMatch === '*' && currentEtag !== undefined) return false;
+  if (conditions.ifMatch !== undefined && conditions.ifMatch !== currentEtag) return false;
+  return true;
+}
+
+/**
+ * Non-persistent backend. Contents live as long as the isolate.
+ */
+export class MemoryBackend implements WorkspaceBackend {
+  readonly kind = 'memory' as const;
+  private objects = new Map<string, StoredObject>();
+
+  describe(): Record<string, string> {
+    return { objects: String(this.objects.size) };
+  }
+
+  async put(
+    key: string,
+    content: string | Uint8Array,
+    mimeType: string,
+    conditions: PutConditions = {}
+  ): Promise<{ etag?: string }> {
+    const data = typeof content === 'string' ? new TextEncoder().encode(content) : content.slice();
+    const etag = await computeEtag(data);
+
+    // Check and set without an await in between so the pair is atomic
+    if (!conditionsMet(this.objects.get(key)?.etag, conditions)) {
+      throw new WorkspaceConflictError(key, conditions);
+    }
+    this.objects.set(key, { data, mimeType, modified: new Date(), etag });
+    return { etag };
+  }
+
+  async putStream(key: string, stream: ReadableStream<Uint8Array>, mimeType: string): Promise<{ etag?: string; size: number }> {
+    const data = await collectStream(stream);
+    const { etag } = await this.put(key, data, mimeType);
+    return { etag, size: data.byteLength };
+  }
+
+  async get(key: string): Promise<Uint8Array | null> {
+    const object = this.objects.get(key);
+    return object ? object.data.slice() : null;
+  }
+
+  async getWithEtag(key: string): Promise<{ data: Uint8Array; etag?: string } | null> {
+    const object = this.objects.get(key);
+    return object ? { data: object.data.slice(), etag: object.etag } : null;
+  }
+
+  async getStream(key: string): Promise<ReadableStream<Uint8Array> | null> {
+    const data = await this.get(key);
+    return data ? streamFromBytes(data) : null;
+  }
+
+  async head(key: string): Promise<BackendObject | null> {
+    const object = this.objects.get(key);
+    if (!object) return null;
+    return { key, size: object.data.byteLength, modified: object.modified, etag: object.etag };
+  }
+
+  async copy(sourceKey: string, destinationKey: string): Promise<{ etag?: string }> {
+    const source = this.objects.get(sourceKey);
+    if (!source) throw new Error(`Copy source not found: ${sourceKey}`);
+    this.objects.set(destinationKey, { ...source, data: source.data.slice(), modified: new Date() });
+    return { etag: source.etag };
+  }
+
+  async delete(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+
+  async deleteMany(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.objects.delete(key);
+    }
+  }
+
+  async list(prefix: string, options: { delimiter?: boolean } = {}): Promise<BackendListing> {
+    const matches: BackendObject[] = [];
+
+    for (const [key, object] of this.objects) {
+      if (key.startsWith(prefix)) {
+        matches.push({ key, size: object.data.byteLength, modified: object.modified, etag: object.etag });
+      }
+    }
+
+    matches.sort((a, b) => a.key.localeCompare(b.key));
+    return rollUpListing(prefix, matches, !!options.delimiter);
+  }
+}
@@ -0,0 +1,183 @@
+// src/workspace/backends/r2-backend.ts - Cloudflare R2 via Worker binding
+
+import type { R2Bucket, R2Conditional, R2UploadedPart } from '@cloudflare/workers-types';
+import { MULTIPART_PART_SIZE, readParts } from './streams';
+import {
+  WorkspaceConflictError,
+  type BackendListing,
+  type BackendObject,
+  type PutConditions,
+  type WorkspaceBackend
+} from './types';
+
+/**
+ * R2 accessed through a bucket binding: no credentials or signing,
+ * and no egress from the Worker.
+ */
+export class R2Backend implements WorkspaceBackend {
+  readonly kind = 'r2' as const;
+
+  constructor(
+    private bucket: R2Bucket,
+    private bindingName = 'WORKSPACE_BUCKET'
+  ) {}
+
+  describe(): Record<string, string> {
+    return { binding: this.bindingName };
+  }
+
+  /**
+   * With onlyIf the binding returns null instead of throwing when the
+   * precondition fails.
+   */
+  async put(
+    key: string,
+    content: string | Uint8Array,
+    mimeType: string,
+    conditions?: PutConditions
+  ): Promise<{ etag?: string }> {
+    const onlyIf = this.toConditional(conditions);
+    const object = await this.bucket.put(key, content, {
+      httpMetadata: { contentType: mimeType },
+      onlyIf
+    });
+
+    if (!object && onlyIf) {
+      throw new WorkspaceConflictError(key, conditions!);
+    }
+    return { etag: object?.etag };
+  }
+
+  /**
+   * bucket.put() needs a known length for streams, so bodies go through
+   * the binding's multipart API unless they fit in a single part.
+   */
+  async putStream(key: string, stream: ReadableStream<Uint8Array>, mimeType: string): Promise<{ etag?: string; size: number }> {
+    const parts = readParts(stream, MULTIPART_PART_SIZE);
+    const first = await parts.next();
+    const firstPart = first.done ? new Uint8Array(0) : first.value;
+
+    if (firstPart.byteLength < MULTIPART_PART_SIZE) {
+      const { etag } = await this.put(key, firstPart, mimeType);
+      return { etag, size: firstPart.byteLength };
+    }
+
+    const upload = await this.bucket.createMultipartUpload(key, {
+      httpMetadata: { contentType: mimeType }
+    });
+    const uploaded: R2UploadedPart[] = [];
+    let size = 0;
+
+    try {
+      let part: Uint8Array | undefined = firstPart;
+      while (part) {
+        uploaded.push(await upload.uploadPart(uploaded.length + 1, part));
+        size += part.byteLength;
+        const next = await parts.next();
+        part = next.done ? undefined : next.value;
+      }
+
+      const object = await upload.complete(uploaded);
+      console.log(`[R2Backend] Multipart upload complete: ${key} (${uploaded.length} parts, ${size} bytes)`);
+      return { etag: object.etag, size };
+    } catch (error) {
+      await upload.abort().catch(abortError => {
+        console.warn(`[R2Backend] Failed to abort multipart upload for ${key}:`, abortError);
+      });
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<Uint8Array | null> {
+    const object = await this.bucket.get(key);
+    if (!object) return null;
+    return new Uint8Array(await object.arrayBuffer());
+  }
+
+  async getWithEtag(key: string): Promise<{ data: Uint8Array; etag?: string } | null> {
+    const object = await this.bucket.get(key);
+    if (!object) return null;
+    return { data: new Uint8Array(await object.arrayBuffer()), etag: object.etag };
+  }
+
+  async getStream(key: string): Promise<ReadableStream<Uint8Array> | null> {
+    const object = await this.bucket.get(key);
+    return object ? (object.body as unknown as ReadableStream<Uint8Array>) : null;
+  }
+
+  async head(key: string): Promise<BackendObject | null> {
+    const object = await this.bucket.head(key);
+    if (!object) return null;
+    return {
+      key,
+      size: object.size,
+      modified: object.uploaded,
+      etag: object.etag
+    };
+  }
+
+  async copy(sourceKey: string, destinationKey: string): Promise<{ etag?: string }> {
+    // The binding has no CopyObject; stream the body straight back in
+    const source = await this.bucket.get(sourceKey);
+    if (!source) throw new Error(`Copy source not found: ${sourceKey}`);
+
+    const object = await this.bucket.put(destinationKey, source.body, {
+      httpMetadata: source.httpMetadata
+    });
+    return { etag: object?.etag };
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.bucket.delete(key);
+  }
+
+  async deleteMany(keys: string[]): Promise<void> {
+    // R2 deletes up to 1000 keys per call
+    const batchSize = 1000;
+    for (let i = 0; i < keys.length; i += batchSize) {
+      await this.bucket.delete(keys.slice(i, i + batchSize));
+    }
+  }
+
+  async list(prefix: string, options: { delimiter?: boolean } = {}): Promise<BackendListing> {
+    const objects: BackendObject[] = [];
+    const prefixes: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.bucket.list({
+        prefix,
+        cursor,
+        delimiter: options.delimiter ? '/' : undefined,
+        limit: 1000
+      });
+
+      for (const object of page.objects) {
+        objects.push({
+          key: object.key,
+          size: object.size,
+          modified: object.uploaded,
+          etag: object.etag
+        });
+      }
+      prefixes.push(...page.delimitedPrefixes);
+
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor);
+
+    return { objects, prefixes };
+  }
+
+  /**
+   * R2 takes conditional request headers as well as R2Conditional; the
+   * header form is the one that supports If-None-Match: *
+   */
+  private toConditional(conditions?: PutConditions): R2Conditional | undefined {
+    if (!conditions?.ifMatch && !conditions?.ifNoneMatch) return undefined;
+
+    const headers = new Headers();
+    if (conditions.ifMatch) headers.set('If-Match', `"${conditions.ifMatch}"`);
+    if (conditions.ifNoneMatch) headers.set('If-None-Match', conditions.ifNoneMatch);
+    return headers as unknown as R2Conditional;
+  }
+}
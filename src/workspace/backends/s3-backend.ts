@@ -0,0 +1,524 @@
+// src/workspace/backends/s3-backend.ts - S3-compatible object storage (B2, MinIO, AWS, R2 S3 API)
+
+import { AwsClient } from 'aws4fetch';
+import { MULTIPART_PART_SIZE, readParts } from './streams';
+import {
+  WorkspaceConflictError,
+  type BackendListing,
+  type BackendObject,
+  type PutConditions,
+  type WorkspaceBackend
+} from './types';
+
+// =============================================================
+// Types
+// =============================================================
+
+export interface S3BackendConfig {
+  endpoint: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  region?: string;
+}
+
+interface S3Error {
+  code: string;
+  message: string;
+  requestId?: string;
+  resource?: string;
+}
+
+// =============================================================
+// XML Parser (Workers-Compatible)
+// =============================================================
+
+class SimpleXMLParser {
+  static parseListObjectsV2(xml: string): {
+    contents: Array<{ key: string; size: number; lastModified: string; etag?: string }>;
+    commonPrefixes: string[];
+    isTruncated: boolean;
+    nextContinuationToken?: string;
+  } {
+    const contents: Array<{ key: string; size: number; lastModified: string; etag?: string }> = [];
+    const commonPrefixes: string[] = [];
+
+    // Parse <Contents> blocks
+    const contentsRegex = /<Contents>([\s\S]*?)<\/Contents>/g;
+    let match;
+
+    while ((match = contentsRegex.exec(xml)) !== null) {
+      const contentBlock = match[1];
+
+      const keyMatch = /<Key>([^<]+)<\/Key>/.exec(contentBlock);
+      const sizeMatch = /<Size>(\d+)<\/Size>/.exec(contentBlock);
+      const lastModifiedMatch = /<LastModified>([^<]+)<\/LastModified>/.exec(contentBlock);
+      const etagMatch = /<ETag>(?:&quot;|")?([^<"&]+)(?:&quot;|")?<\/ETag>/.exec(contentBlock);
+
+      if (keyMatch && sizeMatch && lastModifiedMatch) {
+        contents.push({
+          key: this.unescape(keyMatch[1]),
+          size: parseInt(sizeMatch[1], 10),
+          lastModified: lastModifiedMatch[1],
+          etag: etagMatch ? etagMatch[1] : undefined
+        });
+      }
+    }
+
+    // Parse <CommonPrefixes> blocks
+    const prefixRegex = /<CommonPrefixes>[\s\S]*?<Prefix>([^<]+)<\/Prefix>[\s\S]*?<\/CommonPrefixes>/g;
+    while ((match = prefixRegex.exec(xml)) !== null) {
+      commonPrefixes.push(this.unescape(match[1]));
+    }
+
+    // Parse pagination info
+    const isTruncatedMatch = /<IsTruncated>(true|false)<\/IsTruncated>/.exec(xml);
+    const isTruncated = isTruncatedMatch ? isTruncatedMatch[1] === 'true' : false;
+
+    const nextTokenMatch = /<NextContinuationToken>([^<]+)<\/NextContinuationToken>/.exec(xml);
+    const nextContinuationToken = nextTokenMatch ? nextTokenMatch[1] : undefined;
+
+    return { contents, commonPrefixes, isTruncated, nextContinuationToken };
+  }
+
+  static parseError(xml: string): S3Error {
+    const codeMatch = /<Code>([^<]+)<\/Code>/.exec(xml);
+    const messageMatch = /<Message>([^<]+)<\/Message>/.exec(xml);
+    const requestIdMatch = /<RequestId>([^<]+)<\/RequestId>/.exec(xml);
+    const resourceMatch = /<Resource>([^<]+)<\/Resource>/.exec(xml);
+
+    return {
+      code: codeMatch ? codeMatch[1] : 'UnknownError',
+      message: messageMatch ? messageMatch[1] : 'Unknown error occurred',
+      requestId: requestIdMatch ? requestIdMatch[1] : undefined,
+      resource: resourceMatch ? resourceMatch[1] : undefined
+    };
+  }
+
+  private static unescape(text: string): string {
+    return text
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+}
+
+// =============================================================
+// Region Detection
+// =============================================================
+
+/**
+ * Infer the SigV4 signing region from well-known endpoint hostnames.
+ * MinIO and other self-hosted stores accept any region; us-east-1 is the convention.
+ */
+export function inferS3Region(endpoint: string): string {
+  const b2 = /s3\.([^.]+)\.backblazeb2\.com/.exec(endpoint);
+  if (b2) return b2[1];
+
+  const aws = /s3[.-]([a-z0-9-]+)\.amazonaws\.com/.exec(endpoint);
+  if (aws) return aws[1];
+
+  if (endpoint.includes('.r2.cloudflarestorage.com')) return 'auto';
+
+  return 'us-east-1';
+}
+
+// =============================================================
+// S3 Backend
+// =============================================================
+
+/**
+ * Path-style S3 client (`<endpoint>/<bucket>/<key>`), which every
+ * S3-compatible store supports, including MinIO without DNS buckets.
+ */
+export class S3Backend implements WorkspaceBackend {
+  readonly kind = 's3' as const;
+  private s3: AwsClient;
+  private endpoint: string;
+  private bucket: string;
+  private region: string;
+
+  constructor(config: S3BackendConfig) {
+    const endpoint = config.endpoint.trim();
+    if (!endpoint.startsWith('http://') && !endpoint.startsWith('https://')) {
+      throw new Error(`S3 endpoint must start with http:// or https://. Got: "${endpoint}"`);
+    }
+
+    this.endpoint = endpoint.replace(/\/$/, '');
+    this.bucket = config.bucket.trim();
+    this.region = config.region?.trim() || inferS3Region(this.endpoint);
+
+    this.s3 = new AwsClient({
+      accessKeyId: config.accessKeyId.trim(),
+      secretAccessKey: config.secretAccessKey.trim(),
+      service: 's3',
+      region: this.region
+    });
+
+    // Fail fast on an endpoint/bucket that can't form a URL
+    new URL(this.objectUrl('test/file.txt'));
+  }
+
+  describe(): Record<string, string> {
+    return {
+      endpoint: this.endpoint,
+      region: this.region,
+      bucket: this.bucket
+    };
+  }
+
+  /**
+   * Conditional writes use If-Match / If-None-Match. AWS answers a lost
+   * race with 412, or 409 ConditionalRequestConflict when two conditional
+   * writes overlap.
+   */
+  async put(
+    key: string,
+    content: string | Uint8Array,
+    mimeType: string,
+    conditions?: PutConditions
+  ): Promise<{ etag?: string }> {
+    const headers: Record<string, string> = { 'Content-Type': mimeType };
+    if (conditions?.ifMatch) headers['If-Match'] = `"${conditions.ifMatch}"`;
+    if (conditions?.ifNoneMatch) headers['If-None-Match'] = conditions.ifNoneMatch;
+
+    const response = await this.s3.fetch(this.objectUrl(key), {
+      method: 'PUT',
+      body: typeof content === 'string' ? content : new Uint8Array(content),
+      headers
+    });
+
+    const conditional = !!(conditions?.ifMatch || conditions?.ifNoneMatch);
+    if (conditional && (response.status === 412 || response.status === 409)) {
+      throw new WorkspaceConflictError(key, conditions!);
+    }
+    await this.handleResponse(response, `put(${key})`);
+    return { etag: response.headers.get('etag')?.replace(/"/g, '') || undefined };
+  }
+
+  /**
+   * Single PUT for bodies that fit in one part, otherwise S3 multipart
+   * upload. Only one part is held in memory at a time.
+   */
+  async putStream(key: string, stream: ReadableStream<Uint8Array>, mimeType: string): Promise<{ etag?: string; size: number }> {
+    const parts = readParts(stream, MULTIPART_PART_SIZE);
+    const first = await parts.next();
+    const firstPart = first.done ? new Uint8Array(0) : first.value;
+
+    if (firstPart.byteLength < MULTIPART_PART_SIZE) {
+      const { etag } = await this.put(key, firstPart, mimeType);
+      return { etag, size: firstPart.byteLength };
+    }
+
+    const uploadId = await this.createMultipartUpload(key, mimeType);
+    const uploaded: Array<{ partNumber: number; etag: string }> = [];
+    let size = 0;
+
+    try {
+      let part: Uint8Array | undefined = firstPart;
+      while (part) {
+        const partNumber = uploaded.length + 1;
+        uploaded.push({ partNumber, etag: await this.uploadPart(key, uploadId, partNumber, part) });
+        size += part.byteLength;
+        const next = await parts.next();
+        part = next.done ? undefined : next.value;
+      }
+
+      const etag = await this.completeMultipartUpload(key, uploadId, uploaded);
+      console.log(`[S3Backend] Multipart upload complete: ${key} (${uploaded.length} parts, ${size} bytes)`);
+      return { etag, size };
+    } catch (error) {
+      // Abandoned parts are billed until aborted
+      await this.abortMultipartUpload(key, uploadId).catch(abortError => {
+        console.warn(`[S3Backend] Failed to abort multipart upload for ${key}:`, abortError);
+      });
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<Uint8Array | null> {
+    const response = await this.s3.fetch(this.objectUrl(key), { method: 'GET' });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    await this.handleResponse(response, `get(${key})`);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  async getWithEtag(key: string): Promise<{ data: Uint8Array; etag?: string } | null> {
+    const response = await this.s3.fetch(this.objectUrl(key), { method: 'GET' });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    await this.handleResponse(response, `getWithEtag(${key})`);
+    return {
+      data: new Uint8Array(await response.arrayBuffer()),
+      etag: response.headers.get('etag')?.replace(/"/g, '') || undefined
+    };
+  }
+
+  async getStream(key: string): Promise<ReadableStream<Uint8Array> | null> {
+    const response = await this.s3.fetch(this.objectUrl(key), { method: 'GET' });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    await this.handleResponse(response, `getStream(${key})`);
+    return response.body;
+  }
+
+  async head(key: string): Promise<BackendObject | null> {
+    const response = await this.s3.fetch(this.objectUrl(key), { method: 'HEAD' });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    await this.handleResponse(response, `head(${key})`);
+    return {
+      key,
+      size: Number(response.headers.get('content-length') || 0),
+      modified: new Date(response.headers.get('last-modified') || Date.now()),
+      etag: response.headers.get('etag')?.replace(/"/g, '') || undefined
+    };
+  }
+
+  async copy(sourceKey: string, destinationKey: string): Promise<{ etag?: string }> {
+    const encodedSource = sourceKey.split('/').map(s => encodeURIComponent(s)).join('/');
+    const response = await this.s3.fetch(this.objectUrl(destinationKey), {
+      method: 'PUT',
+      headers: {
+        'x-amz-copy-source': `/${this.bucket}/${encodedSource}`,
+        'x-amz-metadata-directive': 'COPY'
+      }
+    });
+
+    if (response.status === 404) {
+      throw new Error(`[S3Backend] Copy source not found: ${sourceKey}`);
+    }
+    await this.handleResponse(response, `copy(${sourceKey} -> ${destinationKey})`);
+
+    // CopyObject can fail after the 200 status line; the body then holds <Error>
+    const body = await response.text();
+    if (body.includes('<Error>')) {
+      const error = SimpleXMLParser.parseError(body);
+      throw new Error(`[S3Backend] copy(${sourceKey} -> ${destinationKey}) failed: ${error.message}`);
+    }
+
+    const etagMatch = /<ETag>(?:&quot;|")?([^<"&]+)(?:&quot;|")?<\/ETag>/.exec(body);
+    return { etag: etagMatch ? etagMatch[1] : undefined };
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.s3.fetch(this.objectUrl(key), { method: 'DELETE' });
+    await this.handleResponse(response, `delete(${key})`);
+  }
+
+  async deleteMany(keys: string[]): Promise<void> {
+    // DeleteObjects accepts up to 1000 keys per request
+    const batchSize = 1000;
+    for (let i = 0; i < keys.length; i += batchSize) {
+      const batch = keys.slice(i, i + batchSize);
+
+      const deleteXml = [
+        '<Delete>',
+        ...batch.map(key => `<Object><Key>${this.escapeXml(key)}</Key></Object>`),
+        '<Quiet>true</Quiet>',
+        '</Delete>'
+      ].join('');
+
+      const body = new TextEncoder().encode(deleteXml);
+      const response = await this.s3.fetch(`${this.bucketUrl()}?delete`, {
+        method: 'POST',
+        body,
+        headers: {
+          'Content-Type': 'application/xml',
+          // Required by S3 and MinIO for DeleteObjects
+          'Content-MD5': await this.md5Base64(body)
+        }
+      });
+
+      await this.handleResponse(response, 'deleteMany');
+    }
+  }
+
+  async list(prefix: string, options: { delimiter?: boolean } = {}): Promise<BackendListing> {
+    const objects: BackendObject[] = [];
+    const prefixes: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({
+        'list-type': '2',
+        'prefix': prefix,
+        'max-keys': '1000'
+      });
+      if (options.delimiter) {
+        params.set('delimiter', '/');
+      }
+      if (continuationToken) {
+        params.set('continuation-token', continuationToken);
+      }
+
+      const response = await this.s3.fetch(`${this.bucketUrl()}?${params.toString()}`, { method: 'GET' });
+      await this.handleResponse(response, `list(${prefix})`);
+
+      const parsed = SimpleXMLParser.parseListObjectsV2(await response.text());
+
+      for (const item of parsed.contents) {
+        objects.push({
+          key: item.key,
+          size: item.size,
+          modified: new Date(item.lastModified),
+          etag: item.etag
+        });
+      }
+      prefixes.push(...parsed.commonPrefixes);
+
+      continuationToken = parsed.isTruncated ? parsed.nextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return { objects, prefixes };
+  }
+
+  // -----------------------------------------------------------
+  // Multipart Upload
+  // -----------------------------------------------------------
+
+  private async createMultipartUpload(key: string, mimeType: string): Promise<string> {
+    const response = await this.s3.fetch(`${this.objectUrl(key)}?uploads`, {
+      method: 'POST',
+      headers: { 'Content-Type': mimeType }
+    });
+    await this.handleResponse(response, `createMultipartUpload(${key})`);
+
+    const uploadId = /<UploadId>([^<]+)<\/UploadId>/.exec(await response.text())?.[1];
+    if (!uploadId) {
+      throw new Error(`[S3Backend] createMultipartUpload(${key}) returned no UploadId`);
+    }
+    return uploadId;
+  }
+
+  private async uploadPart(key: string, uploadId: string, partNumber: number, body: Uint8Array): Promise<string> {
+    const params = new URLSearchParams({ partNumber: String(partNumber), uploadId });
+    const response = await this.s3.fetch(`${this.objectUrl(key)}?${params.toString()}`, {
+      method: 'PUT',
+      body: new Uint8Array(body)
+    });
+    await this.handleResponse(response, `uploadPart(${key}, ${partNumber})`);
+
+    const etag = response.headers.get('etag');
+    if (!etag) {
+      throw new Error(`[S3Backend] uploadPart(${key}, ${partNumber}) returned no ETag`);
+    }
+    return etag;
+  }
+
+  private async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: Array<{ partNumber: number; etag: string }>
+  ): Promise<string | undefined> {
+    const completeXml = [
+      '<CompleteMultipartUpload>',
+      ...parts.map(p => `<Part><PartNumber>${p.partNumber}</PartNumber><ETag>${this.escapeXml(p.etag)}</ETag></Part>`),
+      '</CompleteMultipartUpload>'
+    ].join('');
+
+    const params = new URLSearchParams({ uploadId });
+    const response = await this.s3.fetch(`${this.objectUrl(key)}?${params.toString()}`, {
+      method: 'POST',
+      body: completeXml,
+      headers: { 'Content-Type': 'application/xml' }
+    });
+    await this.handleResponse(response, `completeMultipartUpload(${key})`);
+
+    // Like CopyObject, completion can fail after a 200 status line
+    const body = await response.text();
+    if (body.includes('<Error>')) {
+      const error = SimpleXMLParser.parseError(body);
+      throw new Error(`[S3Backend] completeMultipartUpload(${key}) failed: ${error.message}`);
+    }
+
+    const etagMatch = /<ETag>(?:&quot;|")?([^<"&]+)(?:&quot;|")?<\/ETag>/.exec(body);
+    return etagMatch ? etagMatch[1] : undefined;
+  }
+
+  private async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    const params = new URLSearchParams({ uploadId });
+    const response = await this.s3.fetch(`${this.objectUrl(key)}?${params.toString()}`, { method: 'DELETE' });
+    await this.handleResponse(response, `abortMultipartUpload(${key})`);
+  }
+
+  // -----------------------------------------------------------
+  // Helpers
+  // -----------------------------------------------------------
+
+  private bucketUrl(): string {
+    return `${this.endpoint}/${this.bucket}`;
+  }
+
+  private objectUrl(key: string): string {
+    const encodedKey = key.split('/').map(s => encodeURIComponent(s)).join('/');
+    return `${this.bucketUrl()}/${encodedKey}`;
+  }
+
+  private async handleResponse(response: Response, operation: string): Promise<Response> {
+    if (response.ok) {
+      return response;
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    let error: S3Error;
+
+    try {
+      if (contentType.includes('xml') || contentType.includes('text')) {
+        const xml = await response.text();
+        error = SimpleXMLParser.parseError(xml);
+      } else if (contentType.includes('json')) {
+        const json: any = await response.json();
+        error = {
+          code: json.code || 'ServerError',
+          message: json.message || 'Server error occurred'
+        };
+      } else {
+        const text = await response.text();
+        error = {
+          code: `HTTP_${response.status}`,
+          message: text || response.statusText
+        };
+      }
+    } catch {
+      error = {
+        code: `HTTP_${response.status}`,
+        message: response.statusText
+      };
+    }
+
+    const errorMessage = `[S3Backend] ${operation} failed (${response.status}): ${error.message}`;
+    console.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+
+  private escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  private async md5Base64(data: Uint8Array): Promise<string> {
+    // Workers support MD5 in crypto.subtle.digest (non-standard)
+    const digest = await crypto.subtle.digest('MD5', new Uint8Array(data));
+    return btoa(String.fromCharCode(...new Uint8Array(digest)));
+  }
+}
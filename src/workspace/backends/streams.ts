@@ -0,0 +1,65 @@
+// src/workspace/backends/streams.ts - Stream helpers shared by the backends
+
+/**
+ * S3 and R2 require every multipart part except the last to be at least
+ * 5 MiB; 8 MiB keeps 10,000 parts above 80 GB.
+ */
+export const MULTIPART_PART_SIZE = 8 * 1024 * 1024;
+
+/**
+ * Re-chunk a byte stream into parts of exactly `partSize` bytes (the last
+ * may be shorter). An empty stream yields a single empty part.
+ */
+export async function* readParts(
+  stream: ReadableStream<Uint8Array>,
+  partSize = MULTIPART_PART_SIZE
+): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  let buffer = new Uint8Array(partSize);
+  let filled = 0;
+  let yielded = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      let offset = 0;
+      while (offset < value.byteLength) {
+        const take = Math.min(partSize - filled, value.byteLength - offset);
+        buffer.set(value.subarray(offset, offset + take), filled);
+        filled += take;
+        offset += take;
+
+        if (filled === partSize) {
+          yield buffer;
+          yielded = true;
+          buffer = new Uint8Array(partSize);
+          filled = 0;
+        }
+      }
+    }
+
+    if (filled > 0 || !yielded) {
+      yield buffer.slice(0, filled);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Buffer a whole stream, for stores without multipart support
+ */
+export async function collectStream(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export function streamFromBytes(bytes: Uint8Array): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(bytes);
+      controller.close();
+    }
+  });
+}
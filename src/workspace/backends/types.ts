@@ -0,0 +1,100 @@
+// src/workspace/backends/types.ts - Storage backend contract for the Workspace facade
+
+export type WorkspaceBackendKind = 's3' | 'r2' | 'durable-object' | 'memory';
+
+/**
+ * Object metadata returned by head() and list()
+ */
+export interface BackendObject {
+  key: string;
+  size: number;
+  modified: Date;
+  etag?: string;
+}
+
+/**
+ * Preconditions for put(). `ifMatch` only overwrites the object with that
+ * ETag; `ifNoneMatch: '*'` only creates a key that does not exist yet.
+ */
+export interface PutConditions {
+  ifMatch?: string;
+  ifNoneMatch?: '*';
+}
+
+/**
+ * A conditional write lost a race: the object changed (or appeared) since
+ * the caller read it. Callers re-read and retry rather than overwrite.
+ */
+export class WorkspaceConflictError extends Error {
+  constructor(
+    readonly path: string,
+    readonly conditions: PutConditions
+  ) {
+    super(
+      conditions.ifNoneMatch
+        ? `Write conflict: ${path} already exists`
+        : `Write conflict: ${path} was modified concurrently (expected ETag ${conditions.ifMatch})`
+    );
+    this.name = 'WorkspaceConflictError';
+  }
+}
+
+/**
+ * One page-free listing under a prefix. With a delimiter, keys below the
+ * next '/' are rolled up into `prefixes` (each ending in '/').
+ */
+export interface BackendListing {
+  objects: BackendObject[];
+  prefixes: string[];
+}
+
+/**
+ * Flat object store the Workspace facade is built on.
+ *
+ * Keys are full object keys: the facade has already sanitized the path and
+ * applied the base path. Directories are emulated by the facade with
+ * zero-byte marker objects ending in '/'.
+ */
+export interface WorkspaceBackend {
+  readonly kind: WorkspaceBackendKind;
+
+  /**
+   * Throws WorkspaceConflictError when `conditions` are not met. Stores
+   * that ignore conditional headers degrade to last-writer-wins.
+   */
+  put(key: string, content: string | Uint8Array, mimeType: string, conditions?: PutConditions): Promise<{ etag?: string }>;
+
+  /**
+   * Write a body of unknown length without buffering it whole (multipart
+   * upload where the store supports it). Streams can't be replayed, so
+   * callers must not retry.
+   */
+  putStream(key: string, stream: ReadableStream<Uint8Array>, mimeType: string): Promise<{ etag?: string; size: number }>;
+
+  /** Returns null when the key does not exist */
+  get(key: string): Promise<Uint8Array | null>;
+
+  /** Body plus the ETag it was read at, for a later conditional put() */
+  getWithEtag(key: string): Promise<{ data: Uint8Array; etag?: string } | null>;
+
+  /** Returns null when the key does not exist */
+  getStream(key: string): Promise<ReadableStream<Uint8Array> | null>;
+
+  /** Returns null when the key does not exist */
+  head(key: string): Promise<BackendObject | null>;
+
+  /**
+   * Server-side copy where the store supports it, so bytes don't pass
+   * through the Worker. Throws when the source does not exist.
+   */
+  copy(sourceKey: string, destinationKey: string): Promise<{ etag?: string }>;
+
+  delete(key: string): Promise<void>;
+
+  deleteMany(keys: string[]): Promise<void>;
+
+  list(prefix: string, options?: { delimiter?: boolean }): Promise<BackendListing>;
+
+  /** Non-secret configuration for logs and health checks */
+  describe(): Record<string, string>;
+}
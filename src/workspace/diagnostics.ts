@@ -1,6 +1,7 @@
-// src/workspace/diagnostics.ts - B2 Workspace Diagnostic Tool
+// src/workspace/diagnostics.ts - Workspace Diagnostic Tool
 
 import { Workspace } from './workspace';
+import { getMissingBackendSettings, resolveBackendKind, type WorkspaceBackendKind } from './backends';
 import type { Env } from '../types';
 
 export interface DiagnosticResult {
@@ -23,7 +24,7 @@ export class WorkspaceDiagnostics {
     results: DiagnosticResult[];
     summary: string;
   }> {
-    console.log('[Diagnostics] Starting B2 Workspace diagnostics...');
+    console.log('[Diagnostics] Starting Workspace diagnostics...');
     
     this.results = [];
     
@@ -50,54 +51,58 @@ export class WorkspaceDiagnostics {
   }
 
   private async testEnvironmentVariables(): Promise<void> {
-    const required = [
-      'B2_KEY_ID',
-      'B2_APPLICATION_KEY',
-      'B2_S3_ENDPOINT',
-      'B2_BUCKET'
-    ];
-
-    for (const key of required) {
-      const value = this.env[key as keyof Env];
-      
-      if (!value) {
-        this.results.push({
-          category: 'Environment',
-          status: 'fail',
-          message: `Missing required variable: ${key}`
-        });
-      } else {
-        this.results.push({
-          category: 'Environment',
-          status: 'pass',
-          message: `${key} is set`,
-          details: { length: String(value).length }
-        });
-      }
+    let backend: WorkspaceBackendKind | null;
+    try {
+      backend = resolveBackendKind(this.env);
+    } catch (error) {
+      this.results.push({
+        category: 'Environment',
+        status: 'fail',
+        message: error instanceof Error ? error.message : String(error)
+      });
+      return;
+    }
+
+    if (!backend) {
+      this.results.push({
+        category: 'Environment',
+        status: 'fail',
+        message: 'No workspace backend configured',
+        details: { hint: 'Set WORKSPACE_BACKEND, bind WORKSPACE_BUCKET (R2), or provide S3_* / B2_* credentials' }
+      });
+      return;
     }
 
-    const basePath = this.env.B2_BASE_PATH;
     this.results.push({
       category: 'Environment',
-      status: basePath ? 'pass' : 'warning',
-      message: `B2_BASE_PATH: ${basePath || 'not set (using root)'}`,
-      details: { value: basePath }
+      status: 'pass',
+      message: `Backend: ${backend}${this.env.WORKSPACE_BACKEND ? '' : ' (auto-detected)'}`
     });
 
-    const endpoint = this.env.B2_S3_ENDPOINT as string;
-    if (endpoint) {
-      const validFormat = /^https:\/\/s3\.[a-z0-9-]+\.backblazeb2\.com\/?$/i.test(endpoint);
-      
+    const missing = getMissingBackendSettings(this.env, backend);
+    for (const setting of missing) {
       this.results.push({
         category: 'Environment',
-        status: validFormat ? 'pass' : 'fail',
-        message: `Endpoint format: ${validFormat ? 'valid' : 'invalid'}`,
-        details: {
-          endpoint,
-          expectedFormat: 'https://s3.<region>.backblazeb2.com'
-        }
+        status: 'fail',
+        message: `Missing required setting: ${setting}`
       });
     }
+
+    if (backend === 'memory') {
+      this.results.push({
+        category: 'Environment',
+        status: 'warning',
+        message: 'Memory backend is not persistent'
+      });
+    }
+
+    const basePath = this.env.WORKSPACE_BASE_PATH ?? this.env.B2_BASE_PATH;
+    this.results.push({
+      category: 'Environment',
+      status: basePath ? 'pass' : 'warning',
+      message: `Base path: ${basePath || 'not set (using root)'}`,
+      details: { value: basePath }
+    });
   }
 
   private async testInitialization(): Promise<void> {
@@ -117,9 +122,7 @@ export class WorkspaceDiagnostics {
           status: 'pass',
           message: 'Configuration retrieved',
           details: {
-            endpoint: config.endpoint,
-            bucket: config.bucket,
-            region: config.region,
+            ...config,
             basePath: config.basePath || '(root)'
           }
         });
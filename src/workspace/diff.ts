@@ -0,0 +1,161 @@
+// src/workspace/diff.ts - Line diffs and unified diff formatting
+
+export interface DiffOp {
+  type: 'equal' | 'delete' | 'insert';
+  line: string;
+}
+
+export interface UnifiedDiffOptions {
+  fromLabel?: string;
+  toLabel?: string;
+  context?: number;
+}
+
+// LCS table cells above this fall back to a whole-file replace
+const MAX_LCS_CELLS = 4_000_000;
+
+export function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  // A trailing newline doesn't start another line
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Line-level edit script from a to b (LCS after trimming the common
+ * prefix and suffix)
+ */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map(line => ({ type: 'equal' as const, line }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    ops.push(...midA.map(line => ({ type: 'delete' as const, line })));
+    ops.push(...midB.map(line => ({ type: 'insert' as const, line })));
+  } else {
+    ops.push(...lcsDiff(midA, midB));
+  }
+
+  ops.push(...a.slice(endA).map(line => ({ type: 'equal' as const, line })));
+  return ops;
+}
+
+function lcsDiff(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  // lengths[i][j] = LCS of a[i..] and b[j..]
+  const lengths: Uint32Array[] = [];
+  for (let i = 0; i <= n; i++) lengths.push(new Uint32Array(m + 1));
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'equal', line: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      ops.push({ type: 'delete', line: a[i++] });
+    } else {
+      ops.push({ type: 'insert', line: b[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: 'delete', line: a[i++] });
+  while (j < m) ops.push({ type: 'insert', line: b[j++] });
+
+  return ops;
+}
+
+/**
+ * `diff -u` style output; empty string when the texts are identical
+ */
+export function unifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions = {}): string {
+  const context = options.context ?? 3;
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+
+  if (ops.every(op => op.type === 'equal')) {
+    return '';
+  }
+
+  const output: string[] = [
+    `--- ${options.fromLabel ?? 'a'}`,
+    `+++ ${options.toLabel ?? 'b'}`
+  ];
+
+  // Group changes into hunks, merging those separated by <= 2*context equal lines
+  let index = 0;
+  while (index < ops.length) {
+    while (index < ops.length && ops[index].type === 'equal') index++;
+    if (index >= ops.length) break;
+
+    const hunkStart = Math.max(index - context, 0);
+    let hunkEnd = index;
+    let equalRun = 0;
+    let cursor = index;
+
+    while (cursor < ops.length) {
+      if (ops[cursor].type === 'equal') {
+        equalRun++;
+        if (equalRun > context * 2) break;
+      } else {
+        equalRun = 0;
+        hunkEnd = cursor;
+      }
+      cursor++;
+    }
+    hunkEnd = Math.min(hunkEnd + context, ops.length - 1);
+
+    // Line numbers at hunk start
+    let oldLine = 1;
+    let newLine = 1;
+    for (let k = 0; k < hunkStart; k++) {
+      if (ops[k].type !== 'insert') oldLine++;
+      if (ops[k].type !== 'delete') newLine++;
+    }
+
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    for (let k = hunkStart; k <= hunkEnd; k++) {
+      const op = ops[k];
+      if (op.type === 'equal') {
+        body.push(` ${op.line}`);
+        oldCount++;
+        newCount++;
+      } else if (op.type === 'delete') {
+        body.push(`-${op.line}`);
+        oldCount++;
+      } else {
+        body.push(`+${op.line}`);
+        newCount++;
+      }
+    }
+
+    output.push(`@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`);
+    output.push(...body);
+    index = hunkEnd + 1;
+  }
+
+  return output.join('\n') + '\n';
+}
@@ -0,0 +1,125 @@
+// src/workspace/lease.ts - Advisory leases stored as workspace files
+
+import { WorkspaceConflictError, type ScopedWorkspace } from './workspace';
+
+/**
+ * Contents of a lease file. Expired leases are free for anyone to take.
+ */
+export interface LeaseRecord {
+  owner: string;
+  token: string;
+  acquiredAt: number;
+  expiresAt: number;
+}
+
+export type LeaseResult =
+  | { acquired: true; lease: LeaseRecord }
+  | { acquired: false; holder: LeaseRecord | null };
+
+/**
+ * Raised by operations that refuse to run while someone else holds a lease
+ */
+export class LeaseHeldError extends Error {
+  constructor(readonly holder: LeaseRecord) {
+    super(`Locked by ${holder.owner} until ${new Date(holder.expiresAt).toISOString()}`);
+    this.name = 'LeaseHeldError';
+  }
+}
+
+/** Lease file name inside a task folder */
+export const TASK_LEASE_FILE = '.lease.json';
+
+const MAX_ATTEMPTS = 3;
+
+function parseLease(text: string | undefined): LeaseRecord | null {
+  if (!text) return null;
+  try {
+    const record = JSON.parse(text);
+    return typeof record?.token === 'string' && typeof record?.expiresAt === 'number' ? record : null;
+  } catch {
+    return null;
+  }
+}
+
+function isLive(lease: LeaseRecord | null, now = Date.now()): lease is LeaseRecord {
+  return !!lease && lease.expiresAt > now;
+}
+
+/**
+ * The live lease at `path`, or null when it is free or expired
+ */
+export async function readLease(workspace: ScopedWorkspace, path: string): Promise<LeaseRecord | null> {
+  const current = await workspace.readFileWithEtag(path);
+  const lease = parseLease(current?.text);
+  return isLive(lease) ? lease : null;
+}
+
+/**
+ * Take the lease at `path` for `ttlMs`. Passing the token of a lease you
+ * hold renews it. Every write is conditional on the ETag that was read,
+ * so of two racing callers exactly one wins.
+ */
+export async function acquireLease(
+  workspace: ScopedWorkspace,
+  path: string,
+  owner: string,
+  ttlMs: number,
+  token?: string
+): Promise<LeaseResult> {
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const current = await workspace.readFileWithEtag(path);
+    const existing = parseLease(current?.text);
+    const now = Date.now();
+
+    const renewing = !!token && existing?.token === token && isLive(existing, now);
+    if (isLive(existing, now) && !renewing) {
+      return { acquired: false, holder: existing };
+    }
+
+    const lease: LeaseRecord = {
+      owner,
+      token: renewing ? token! : crypto.randomUUID(),
+      acquiredAt: renewing ? existing!.acquiredAt : now,
+      expiresAt: now + ttlMs
+    };
+
+    try {
+      await workspace.writeFile(
+        path,
+        JSON.stringify(lease, null, 2),
+        'application/json',
+        current ? (current.etag ? { ifMatch: current.etag } : undefined) : { ifNoneMatch: '*' }
+      );
+      return { acquired: true, lease };
+    } catch (error) {
+      if (!(error instanceof WorkspaceConflictError)) throw error;
+      // Someone else wrote the lease first; re-read to see who holds it
+    }
+  }
+
+  return { acquired: false, holder: await readLease(workspace, path) };
+}
+
+/**
+ * Give up a lease. Only the holder's token releases it; the file is
+ * overwritten with an expired record (conditionally) rather than deleted,
+ * so a release can never clobber a lease someone else has since taken.
+ */
+export async function releaseLease(workspace: ScopedWorkspace, path: string, token: string): Promise<boolean> {
+  const current = await workspace.readFileWithEtag(path);
+  const existing = parseLease(current?.text);
+  if (!current || !existing || existing.token !== token) return false;
+
+  try {
+    await workspace.writeFile(
+      path,
+      JSON.stringify({ ...existing, expiresAt: 0 }, null, 2),
+      'application/json',
+      current.etag ? { ifMatch: current.etag } : undefined
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof WorkspaceConflictError) return false;
+    throw error;
+  }
+}
@@ -0,0 +1,90 @@
+// src/workspace/mime.ts - Content types for workspace writes
+
+const MIME_TYPES: Record<string, string> = {
+  'txt': 'text/plain',
+  'log': 'text/plain',
+  'md': 'text/markdown',
+  'csv': 'text/csv',
+  'json': 'application/json',
+  'xml': 'application/xml',
+  'yaml': 'application/yaml',
+  'yml': 'application/yaml',
+  'html': 'text/html',
+  'css': 'text/css',
+  'js': 'application/javascript',
+  'ts': 'application/typescript',
+  'py': 'text/x-python',
+  'tsx': 'application/typescript',
+  'jsx': 'application/javascript',
+  'sh': 'application/x-sh',
+  'sql': 'application/sql',
+  'toml': 'application/toml',
+  'go': 'text/x-go',
+  'rs': 'text/x-rust',
+  'java': 'text/x-java',
+  'c': 'text/x-c',
+  'cpp': 'text/x-c++',
+  'rb': 'text/x-ruby',
+  'png': 'image/png',
+  'jpg': 'image/jpeg',
+  'jpeg': 'image/jpeg',
+  'gif': 'image/gif',
+  'svg': 'image/svg+xml',
+  'pdf': 'application/pdf',
+  'zip': 'application/zip'
+};
+
+export function inferMimeType(filename: string): string {
+  const ext = filename.split('.').pop()?.toLowerCase();
+  return MIME_TYPES[ext || ''] || 'application/octet-stream';
+}
+
+/**
+ * Content types that are safe to decode and diff as text
+ */
+export function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/') ||
+    ['application/json', 'application/xml', 'application/yaml', 'application/javascript',
+      'application/typescript', 'application/x-sh', 'application/sql', 'application/toml',
+      'image/svg+xml'].includes(mimeType);
+}
+
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+  'python': 'py',
+  'py': 'py',
+  'typescript': 'ts',
+  'ts': 'ts',
+  'tsx': 'tsx',
+  'javascript': 'js',
+  'js': 'js',
+  'jsx': 'jsx',
+  'json': 'json',
+  'markdown': 'md',
+  'md': 'md',
+  'html': 'html',
+  'css': 'css',
+  'xml': 'xml',
+  'yaml': 'yaml',
+  'yml': 'yaml',
+  'csv': 'csv',
+  'sql': 'sql',
+  'bash': 'sh',
+  'sh': 'sh',
+  'shell': 'sh',
+  'zsh': 'sh',
+  'svg': 'svg',
+  'go': 'go',
+  'rust': 'rs',
+  'java': 'java',
+  'c': 'c',
+  'cpp': 'cpp',
+  'ruby': 'rb',
+  'toml': 'toml'
+};
+
+/**
+ * File extension for a fenced code block language; unknown languages get .txt
+ */
+export function extensionForLanguage(language: string | undefined): string {
+  return LANGUAGE_EXTENSIONS[(language || '').toLowerCase()] || 'txt';
+}
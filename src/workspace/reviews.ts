@@ -0,0 +1,81 @@
+// src/workspace/reviews.ts - Review results waiting to be recorded on a step
+
+import type { ScopedWorkspace } from './workspace';
+
+/**
+ * A review worker's result, stored when the review ran so that recording
+ * it on the step can only use what the reviewer actually returned
+ */
+export interface PendingReview {
+  id: string;
+  stepNumber: number;
+  result: Record<string, unknown>;
+  createdAt: number;
+}
+
+/** Pending reviews file inside a task folder, keyed by review id */
+export const PENDING_REVIEWS_FILE = '.reviews.json';
+
+/** Reviews that were never recorded are dropped oldest first past this */
+const MAX_PENDING_REVIEWS = 20;
+
+function parsePending(text: string | null | undefined): Record<string, PendingReview> {
+  if (!text) return {};
+  try {
+    const pending = JSON.parse(text);
+    return pending && typeof pending === 'object' && !Array.isArray(pending) ? pending : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Store a review of `stepNumber` in the task folder and return its id
+ */
+export async function savePendingReview(
+  workspace: ScopedWorkspace,
+  taskPath: string,
+  stepNumber: number,
+  result: Record<string, unknown>
+): Promise<string> {
+  const createdAt = Date.now();
+  const review: PendingReview = { id: `review_${createdAt}_${crypto.randomUUID().slice(0, 8)}`, stepNumber, result, createdAt };
+
+  await workspace.updateFile(`${taskPath}/${PENDING_REVIEWS_FILE}`, current => {
+    const kept = Object.values(parsePending(current))
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .slice(-(MAX_PENDING_REVIEWS - 1));
+    return JSON.stringify(Object.fromEntries([...kept, review].map(r => [r.id, r])), null, 2);
+  }, { mimeType: 'application/json' });
+
+  return review.id;
+}
+
+/**
+ * The pending review with this id, or null if it was never stored or has
+ * already been recorded
+ */
+export async function readPendingReview(
+  workspace: ScopedWorkspace,
+  taskPath: string,
+  reviewId: string
+): Promise<PendingReview | null> {
+  const current = await workspace.readFileWithEtag(`${taskPath}/${PENDING_REVIEWS_FILE}`);
+  const pending = parsePending(current?.text);
+  return Object.prototype.hasOwnProperty.call(pending, reviewId) ? pending[reviewId] : null;
+}
+
+/**
+ * Remove a review once it has been recorded, so it can't be recorded twice
+ */
+export async function discardPendingReview(
+  workspace: ScopedWorkspace,
+  taskPath: string,
+  reviewId: string
+): Promise<void> {
+  await workspace.updateFile(`${taskPath}/${PENDING_REVIEWS_FILE}`, current => {
+    const pending = parsePending(current);
+    delete pending[reviewId];
+    return JSON.stringify(pending, null, 2);
+  }, { mimeType: 'application/json' });
+}
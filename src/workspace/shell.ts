@@ -0,0 +1,1017 @@
+// src/workspace/shell.ts - POSIX-style command interpreter over a scoped workspace
+
+import type { ScopedWorkspace } from './workspace';
+import { unifiedDiff } from './diff';
+import { inferMimeType } from './mime';
+
+// =============================================================
+// Types
+// =============================================================
+
+export interface ShellResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  cwd: string;
+}
+
+interface Word {
+  text: string;
+  glob: boolean; // Contains unquoted glob characters
+}
+
+type Token =
+  | { kind: 'word'; word: Word }
+  | { kind: 'op'; op: '|' | '&&' | '||' | ';' | '>' | '>>' };
+
+interface SimpleCommand {
+  argv: Word[];
+  redirects: Array<{ append: boolean; target: Word }>;
+}
+
+interface Pipeline {
+  commands: SimpleCommand[];
+  connector: ';' | '&&' | '||'; // How this pipeline joins the previous one
+}
+
+interface CommandOutput {
+  exitCode: number;
+  stdout: string;
+  stderr?: string;
+}
+
+type CommandHandler = (args: string[], stdin: string) => Promise<CommandOutput>;
+
+export interface WorkspaceShellOptions {
+  /** Drop the commands that write (cp, mv, rm, mkdir, touch, tee) and reject > / >> */
+  readOnly?: boolean;
+}
+
+/**
+ * Non-zero exit from inside a command; message goes to stderr
+ */
+class ShellError extends Error {
+  constructor(message: string, readonly exitCode = 1) {
+    super(message);
+    this.name = 'ShellError';
+  }
+}
+
+// =============================================================
+// Limits
+// =============================================================
+
+const MAX_OUTPUT_CHARS = 64 * 1024;
+const MAX_COMMANDS = 32;
+const MAX_GLOB_MATCHES = 500;
+
+const WRITE_COMMANDS = ['cp', 'mkdir', 'mv', 'rm', 'tee', 'touch'];
+
+// =============================================================
+// Parsing
+// =============================================================
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (ch === ' ' || ch === '\t' || ch === '\n') {
+      i++;
+      continue;
+    }
+
+    const two = input.slice(i, i + 2);
+    if (two === '&&' || two === '||' || two === '>>') {
+      tokens.push({ kind: 'op', op: two });
+      i += 2;
+      continue;
+    }
+    if (ch === '|' || ch === ';' || ch === '>') {
+      tokens.push({ kind: 'op', op: ch });
+      i++;
+      continue;
+    }
+    if (ch === '&') {
+      throw new ShellError('Background jobs (&) are not supported', 2);
+    }
+    if (ch === '<' || ch === '`' || two === '$(') {
+      throw new ShellError(`Unsupported syntax: ${ch === '<' ? '<' : 'command substitution'}`, 2);
+    }
+
+    // Word: runs of unquoted, single-quoted and double-quoted text
+    let text = '';
+    let glob = false;
+    while (i < input.length && !/[\s|;&<>]/.test(input[i])) {
+      const c = input[i];
+      if (c === "'") {
+        const end = input.indexOf("'", i + 1);
+        if (end === -1) throw new ShellError('Unterminated single quote', 2);
+        text += input.slice(i + 1, end);
+        i = end + 1;
+      } else if (c === '"') {
+        i++;
+        while (i < input.length && input[i] !== '"') {
+          if (input[i] === '\\' && i + 1 < input.length && '"\\$'.includes(input[i + 1])) {
+            i++;
+          }
+          text += input[i++];
+        }
+        if (i >= input.length) throw new ShellError('Unterminated double quote', 2);
+        i++;
+      } else if (c === '\\' && i + 1 < input.length) {
+        text += input[i + 1];
+        i += 2;
+      } else {
+        if (c === '*' || c === '?' || c === '[') glob = true;
+        text += c;
+        i++;
+      }
+    }
+    tokens.push({ kind: 'word', word: { text, glob } });
+  }
+
+  return tokens;
+}
+
+function parse(input: string): Pipeline[] {
+  const tokens = tokenize(input);
+  const pipelines: Pipeline[] = [];
+  let connector: Pipeline['connector'] = ';';
+  let commands: SimpleCommand[] = [];
+  let current: SimpleCommand = { argv: [], redirects: [] };
+
+  const endCommand = () => {
+    if (current.argv.length === 0) {
+      throw new ShellError('Syntax error: missing command', 2);
+    }
+    commands.push(current);
+    current = { argv: [], redirects: [] };
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.kind === 'word') {
+      current.argv.push(token.word);
+      continue;
+    }
+
+    switch (token.op) {
+      case '>':
+      case '>>': {
+        const target = tokens[++i];
+        if (!target || target.kind !== 'word') {
+          throw new ShellError(`Syntax error: expected file after ${token.op}`, 2);
+        }
+        current.redirects.push({ append: token.op === '>>', target: target.word });
+        break;
+      }
+      case '|':
+        endCommand();
+        break;
+      default:
+        endCommand();
+        pipelines.push({ commands, connector });
+        commands = [];
+        connector = token.op;
+    }
+  }
+
+  if (current.argv.length > 0 || current.redirects.length > 0) {
+    endCommand();
+  }
+  if (commands.length > 0) {
+    pipelines.push({ commands, connector });
+  } else if (connector !== ';') {
+    throw new ShellError(`Syntax error: command expected after ${connector}`, 2);
+  }
+
+  return pipelines;
+}
+
+/**
+ * Glob segment to RegExp (* ? [...]; never crosses '/')
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '*') {
+      source += '[^/]*';
+    } else if (c === '?') {
+      source += '[^/]';
+    } else if (c === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const body = pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${body}]`;
+        i = end;
+      }
+    } else {
+      source += c.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// =============================================================
+// Shell
+// =============================================================
+
+/**
+ * Workspace Shell - a safe subset of POSIX commands
+ *
+ * Supports pipes, ;, &&, ||, > and >> redirection, quoting and globbing.
+ * Paths resolve against a working directory inside the tenant workspace;
+ * '/' is the tenant root, so nothing outside the namespace is reachable.
+ * The working directory persists between exec() calls. A read-only shell
+ * can list and read anything under the root but never writes to it.
+ */
+export class WorkspaceShell {
+  private cwd = '';
+  private commands: Record<string, CommandHandler>;
+  private readonly readOnly: boolean;
+
+  constructor(private workspace: ScopedWorkspace, options: WorkspaceShellOptions = {}) {
+    this.readOnly = options.readOnly ?? false;
+    this.commands = {
+      cat: (a, s) => this.cat(a, s),
+      cd: a => this.cd(a),
+      cp: a => this.cp(a, false),
+      diff: a => this.diff(a),
+      echo: a => this.echo(a),
+      false: async () => ({ exitCode: 1, stdout: '' }),
+      find: a => this.find(a),
+      grep: (a, s) => this.grep(a, s),
+      head: (a, s) => this.headTail(a, s, 'head'),
+      help: async () => ({ exitCode: 0, stdout: this.help() }),
+      ls: a => this.ls(a),
+      mkdir: a => this.mkdir(a),
+      mv: a => this.cp(a, true),
+      pwd: async () => ({ exitCode: 0, stdout: `${this.displayCwd()}\n` }),
+      rm: a => this.rm(a),
+      sort: (a, s) => this.sort(a, s),
+      tail: (a, s) => this.headTail(a, s, 'tail'),
+      tee: (a, s) => this.tee(a, s),
+      touch: a => this.touch(a),
+      true: async () => ({ exitCode: 0, stdout: '' }),
+      uniq: (a, s) => this.uniq(a, s),
+      wc: (a, s) => this.wc(a, s)
+    };
+    if (this.readOnly) {
+      for (const name of WRITE_COMMANDS) delete this.commands[name];
+    }
+  }
+
+  getCwd(): string {
+    return this.displayCwd();
+  }
+
+  /**
+   * Run a command line. Parse errors exit with 2, unknown commands with 127.
+   */
+  async exec(commandLine: string): Promise<ShellResult> {
+    let stdout = '';
+    let stderr = '';
+    let exitCode = 0;
+
+    let pipelines: Pipeline[];
+    try {
+      pipelines = parse(commandLine);
+    } catch (error) {
+      return this.result(2, '', `${this.errorMessage(error)}\n`);
+    }
+
+    const total = pipelines.reduce((n, p) => n + p.commands.length, 0);
+    if (total > MAX_COMMANDS) {
+      return this.result(2, '', `Too many commands (max ${MAX_COMMANDS})\n`);
+    }
+
+    for (const pipeline of pipelines) {
+      if (pipeline.connector === '&&' && exitCode !== 0) continue;
+      if (pipeline.connector === '||' && exitCode === 0) continue;
+
+      const output = await this.runPipeline(pipeline.commands);
+      stdout += output.stdout;
+      stderr += output.stderr || '';
+      exitCode = output.exitCode;
+
+      if (stdout.length > MAX_OUTPUT_CHARS) {
+        stdout = `${stdout.slice(0, MAX_OUTPUT_CHARS)}\n... [output truncated at ${MAX_OUTPUT_CHARS} chars]\n`;
+        break;
+      }
+    }
+
+    return this.result(exitCode, stdout, stderr);
+  }
+
+  private result(exitCode: number, stdout: string, stderr: string): ShellResult {
+    return { exitCode, stdout, stderr, cwd: this.displayCwd() };
+  }
+
+  private async runPipeline(commands: SimpleCommand[]): Promise<CommandOutput> {
+    let stdin = '';
+    let stderr = '';
+    let last: CommandOutput = { exitCode: 0, stdout: '' };
+
+    for (const command of commands) {
+      last = await this.runCommand(command, stdin);
+      stderr += last.stderr || '';
+      stdin = last.stdout;
+    }
+
+    return { exitCode: last.exitCode, stdout: last.stdout, stderr };
+  }
+
+  private async runCommand(command: SimpleCommand, stdin: string): Promise<CommandOutput> {
+    try {
+      const argv = await this.expandWords(command.argv);
+      const [name, ...args] = argv;
+      const handler = Object.prototype.hasOwnProperty.call(this.commands, name) ? this.commands[name] : undefined;
+
+      if (!handler) {
+        return { exitCode: 127, stdout: '', stderr: `${name}: command not found (try 'help')\n` };
+      }
+
+      if (this.readOnly && command.redirects.length > 0) {
+        throw new ShellError('Redirection is not allowed in a read-only shell');
+      }
+
+      const output = await handler(args, stdin);
+
+      // Redirections: the last one receives stdout, earlier ones are truncated
+      for (let i = 0; i < command.redirects.length; i++) {
+        const redirect = command.redirects[i];
+        const [target] = await this.expandWords([redirect.target]);
+        const isLast = i === command.redirects.length - 1;
+        await this.writeOutput(target, isLast ? output.stdout : '', redirect.append);
+      }
+
+      return command.redirects.length > 0 ? { ...output, stdout: '' } : output;
+    } catch (error) {
+      const name = command.argv[0]?.text || 'sh';
+      const exitCode = error instanceof ShellError ? error.exitCode : 1;
+      return { exitCode, stdout: '', stderr: `${name}: ${this.errorMessage(error)}\n` };
+    }
+  }
+
+  private errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  // -----------------------------------------------------------
+  // Paths
+  // -----------------------------------------------------------
+
+  private displayCwd(): string {
+    return `/${this.cwd}`;
+  }
+
+  /**
+   * Resolve a shell path to a tenant-relative path ('' is the root)
+   */
+  private resolve(path: string): string {
+    const parts = path.startsWith('/') ? [] : this.cwd.split('/').filter(Boolean);
+
+    for (const part of path.split('/')) {
+      if (!part || part === '.') continue;
+      if (part === '..') {
+        if (parts.length === 0) {
+          throw new ShellError(`${path}: Path escapes workspace root`);
+        }
+        parts.pop();
+      } else {
+        parts.push(part);
+      }
+    }
+
+    return parts.join('/');
+  }
+
+  private basename(path: string): string {
+    const parts = path.split('/').filter(Boolean);
+    return parts[parts.length - 1] || '';
+  }
+
+  private join(dir: string, name: string): string {
+    return dir ? `${dir}/${name}` : name;
+  }
+
+  private async expandWords(words: Word[]): Promise<string[]> {
+    const expanded: string[] = [];
+    for (const word of words) {
+      if (!word.glob) {
+        expanded.push(word.text);
+        continue;
+      }
+      const matches = await this.expandGlob(word.text);
+      // Like sh: an unmatched pattern stays literal
+      expanded.push(...(matches.length > 0 ? matches : [word.text]));
+    }
+    return expanded;
+  }
+
+  /**
+   * Expand a glob segment by segment, keeping the pattern's own
+   * relative/absolute form in the results
+   */
+  private async expandGlob(pattern: string): Promise<string[]> {
+    const absolute = pattern.startsWith('/');
+    const segments = pattern.split('/').filter(Boolean);
+    let candidates = [absolute ? '/' : ''];
+    let needsCheck = false;
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const isLast = i === segments.length - 1;
+
+      if (!/[*?[]/.test(segment)) {
+        candidates = candidates.map(c => c + segment + (isLast ? '' : '/'));
+        needsCheck = needsCheck || i > 0;
+        continue;
+      }
+
+      const regex = globToRegExp(segment);
+      const next: string[] = [];
+      for (const candidate of candidates) {
+        let listing;
+        try {
+          listing = await this.workspace.readdir(this.resolve(candidate || '.'));
+        } catch {
+          continue;
+        }
+        const names = isLast
+          ? [...listing.directories, ...listing.files.map(f => f.name)]
+          : listing.directories;
+        for (const name of names.sort()) {
+          // Hidden entries need an explicit leading dot
+          if (name.startsWith('.') && !segment.startsWith('.')) continue;
+          if (regex.test(name)) next.push(candidate + name + (isLast ? '' : '/'));
+        }
+      }
+      candidates = next.slice(0, MAX_GLOB_MATCHES);
+    }
+
+    if (needsCheck) {
+      const checked: string[] = [];
+      for (const candidate of candidates) {
+        if (await this.workspace.exists(this.resolve(candidate))) checked.push(candidate);
+      }
+      candidates = checked;
+    }
+
+    return candidates;
+  }
+
+  // -----------------------------------------------------------
+  // File helpers
+  // -----------------------------------------------------------
+
+  private async readText(path: string): Promise<string> {
+    const resolved = this.resolve(path);
+    const kind = resolved ? await this.workspace.exists(resolved) : 'directory';
+    if (kind === 'directory') throw new ShellError(`${path}: Is a directory`);
+    if (!kind) throw new ShellError(`${path}: No such file or directory`);
+    return this.workspace.readFileText(resolved);
+  }
+
+  /**
+   * File arguments, or stdin when there are none (or for '-')
+   */
+  private async readInputs(files: string[], stdin: string): Promise<Array<{ name: string; text: string }>> {
+    if (files.length === 0) return [{ name: '-', text: stdin }];
+
+    const inputs: Array<{ name: string; text: string }> = [];
+    for (const file of files) {
+      inputs.push({ name: file, text: file === '-' ? stdin : await this.readText(file) });
+    }
+    return inputs;
+  }
+
+  private async writeOutput(path: string, content: string, append: boolean): Promise<void> {
+    const resolved = this.resolve(path);
+    if (!resolved) throw new ShellError(`${path}: Is a directory`);
+    if (await this.workspace.exists(resolved) === 'directory') {
+      throw new ShellError(`${path}: Is a directory`);
+    }
+
+    if (append) {
+      await this.workspace.appendFile(resolved, content);
+    } else {
+      await this.workspace.writeFile(resolved, content, inferMimeType(resolved));
+    }
+  }
+
+  /**
+   * Split leading -flags (including combined ones like -rf) from operands
+   */
+  private parseFlags(args: string[], valued: string[] = []): {
+    flags: Set<string>;
+    values: Record<string, string>;
+    operands: string[];
+  } {
+    const flags = new Set<string>();
+    const values: Record<string, string> = {};
+    let i = 0;
+
+    for (; i < args.length; i++) {
+      const arg = args[i];
+      if (arg === '--') {
+        i++;
+        break;
+      }
+      if (!arg.startsWith('-') || arg === '-') break;
+
+      for (let j = 1; j < arg.length; j++) {
+        const flag = arg[j];
+        if (valued.includes(flag)) {
+          const value = arg.slice(j + 1) || args[++i];
+          if (value === undefined) throw new ShellError(`option requires an argument -- ${flag}`, 2);
+          values[flag] = value;
+          break;
+        }
+        flags.add(flag);
+      }
+    }
+
+    return { flags, values, operands: args.slice(i) };
+  }
+
+  private lines(text: string): string[] {
+    const lines = text.split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+  }
+
+  private joinLines(lines: string[]): string {
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  // -----------------------------------------------------------
+  // Commands
+  // -----------------------------------------------------------
+
+  private async cd(args: string[]): Promise<CommandOutput> {
+    const target = this.resolve(args[0] || '/');
+    if (target && await this.workspace.exists(target) !== 'directory') {
+      throw new ShellError(`${args[0]}: No such directory`);
+    }
+    this.cwd = target;
+    return { exitCode: 0, stdout: '' };
+  }
+
+  private async echo(args: string[]): Promise<CommandOutput> {
+    const noNewline = args[0] === '-n';
+    const text = (noNewline ? args.slice(1) : args).join(' ');
+    return { exitCode: 0, stdout: noNewline ? text : `${text}\n` };
+  }
+
+  private async cat(args: string[], stdin: string): Promise<CommandOutput> {
+    const { flags, operands } = this.parseFlags(args);
+    const inputs = await this.readInputs(operands, stdin);
+    const text = inputs.map(i => i.text).join('');
+
+    if (flags.has('n')) {
+      const numbered = this.lines(text).map((line, i) => `${String(i + 1).padStart(6)}\t${line}`);
+      return { exitCode: 0, stdout: this.joinLines(numbered) };
+    }
+    return { exitCode: 0, stdout: text };
+  }
+
+  private async headTail(args: string[], stdin: string, mode: 'head' | 'tail'): Promise<CommandOutput> {
+    // Accept the historical -N form
+    const normalized = args.map(a => /^-\d+$/.test(a) ? `-n${a.slice(1)}` : a);
+    const { values, operands } = this.parseFlags(normalized, ['n']);
+    const count = values.n !== undefined ? parseInt(values.n, 10) : 10;
+    if (isNaN(count) || count < 0) throw new ShellError(`invalid number of lines: ${values.n}`, 2);
+
+    const inputs = await this.readInputs(operands, stdin);
+    const parts = inputs.map(input => {
+      const lines = this.lines(input.text);
+      const selected = mode === 'head' ? lines.slice(0, count) : lines.slice(Math.max(lines.length - count, 0));
+      const header = inputs.length > 1 ? `==> ${input.name} <==\n` : '';
+      return header + this.joinLines(selected);
+    });
+
+    return { exitCode: 0, stdout: parts.join(inputs.length > 1 ? '\n' : '') };
+  }
+
+  private async wc(args: string[], stdin: string): Promise<CommandOutput> {
+    const { flags, operands } = this.parseFlags(args);
+    const all = !flags.has('l') && !flags.has('w') && !flags.has('c');
+    const inputs = await this.readInputs(operands, stdin);
+    const rows: string[] = [];
+    const totals = [0, 0, 0];
+
+    for (const input of inputs) {
+      const counts = [
+        (input.text.match(/\n/g) || []).length,
+        input.text.split(/\s+/).filter(Boolean).length,
+        new TextEncoder().encode(input.text).byteLength
+      ];
+      counts.forEach((c, i) => totals[i] += c);
+      rows.push(this.formatCounts(counts, flags, all, operands.length > 0 ? input.name : ''));
+    }
+    if (inputs.length > 1) {
+      rows.push(this.formatCounts(totals, flags, all, 'total'));
+    }
+
+    return { exitCode: 0, stdout: this.joinLines(rows) };
+  }
+
+  private formatCounts(counts: number[], flags: Set<string>, all: boolean, name: string): string {
+    const selected = ['l', 'w', 'c']
+      .map((flag, i) => (all || flags.has(flag)) ? String(counts[i]).padStart(7) : null)
+      .filter((c): c is string => c !== null);
+    return `${selected.join(' ')}${name ? ` ${name}` : ''}`;
+  }
+
+  private async grep(args: string[], stdin: string): Promise<CommandOutput> {
+    const { flags, values, operands } = this.parseFlags(args, ['e']);
+    const pattern = values.e ?? operands.shift();
+    if (pattern === undefined) throw new ShellError('usage: grep [-inrvclFH] pattern [file...]', 2);
+
+    const source = flags.has('F') ? pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : pattern;
+    let regex: RegExp;
+    try {
+      regex = new RegExp(source, flags.has('i') ? 'i' : '');
+    } catch (error) {
+      throw new ShellError(`invalid pattern: ${this.errorMessage(error)}`, 2);
+    }
+
+    // Collect inputs, expanding directories for -r
+    let inputs: Array<{ name: string; text: string }>;
+    if (flags.has('r') && operands.length === 0) operands.push('.');
+    if (flags.has('r')) {
+      inputs = [];
+      for (const operand of operands) {
+        const resolved = this.resolve(operand);
+        if (await this.workspace.exists(resolved) === 'directory') {
+          const files = await this.workspace.listFiles(resolved);
+          for (const file of files) {
+            const name = this.join(operand.replace(/\/$/, ''), file.name);
+            inputs.push({ name, text: await this.workspace.readFileText(this.join(resolved, file.name)) });
+          }
+        } else {
+          inputs.push({ name: operand, text: await this.readText(operand) });
+        }
+      }
+    } else {
+      inputs = await this.readInputs(operands, stdin);
+    }
+
+    const showNames = flags.has('H') || inputs.length > 1 || flags.has('r');
+    const output: string[] = [];
+    let matched = false;
+
+    for (const input of inputs) {
+      let count = 0;
+      const lines = this.lines(input.text);
+
+      for (let i = 0; i < lines.length; i++) {
+        if (regex.test(lines[i]) === flags.has('v')) continue;
+        count++;
+        matched = true;
+        if (flags.has('c') || flags.has('l')) continue;
+
+        const prefix = `${showNames ? `${input.name}:` : ''}${flags.has('n') ? `${i + 1}:` : ''}`;
+        output.push(prefix + lines[i]);
+      }
+
+      if (flags.has('l') && count > 0) output.push(input.name);
+      if (flags.has('c')) output.push(`${showNames ? `${input.name}:` : ''}${count}`);
+    }
+
+    return { exitCode: matched ? 0 : 1, stdout: this.joinLines(output) };
+  }
+
+  private async ls(args: string[]): Promise<CommandOutput> {
+    const { flags, operands } = this.parseFlags(args);
+    const targets = operands.length > 0 ? operands : ['.'];
+    const sections: string[] = [];
+    const errors: string[] = [];
+
+    for (const target of targets) {
+      const resolved = this.resolve(target);
+      const kind = resolved ? await this.workspace.exists(resolved) : 'directory';
+
+      if (!kind) {
+        errors.push(`ls: ${target}: No such file or directory\n`);
+        continue;
+      }
+
+      const entries: string[] = [];
+      if (kind === 'file') {
+        entries.push(flags.has('l') ? await this.longFileEntry(resolved, target) : target);
+      } else {
+        const listing = await this.workspace.readdir(resolved);
+        const hidden = (name: string) => name.startsWith('.') && !flags.has('a');
+
+        for (const dir of listing.directories.filter(d => !hidden(d)).sort()) {
+          entries.push(flags.has('l') ? `d ${'-'.padStart(10)} ${''.padEnd(24)} ${dir}/` : `${dir}/`);
+        }
+        for (const file of listing.files.filter(f => !hidden(f.name)).sort((a, b) => a.name.localeCompare(b.name))) {
+          entries.push(flags.has('l')
+            ? `- ${String(file.size).padStart(10)} ${file.modified.toISOString()} ${file.name}`
+            : file.name);
+        }
+      }
+
+      const header = targets.length > 1 && kind === 'directory' ? `${target}:\n` : '';
+      sections.push(header + this.joinLines(entries));
+    }
+
+    return {
+      exitCode: errors.length > 0 ? 1 : 0,
+      stdout: sections.join(targets.length > 1 ? '\n' : ''),
+      stderr: errors.join('')
+    };
+  }
+
+  private async longFileEntry(resolved: string, display: string): Promise<string> {
+    const parent = resolved.includes('/') ? resolved.slice(0, resolved.lastIndexOf('/')) : '';
+    const listing = await this.workspace.readdir(parent);
+    const file = listing.files.find(f => f.name === this.basename(resolved));
+    return file
+      ? `- ${String(file.size).padStart(10)} ${file.modified.toISOString()} ${display}`
+      : display;
+  }
+
+  private async find(args: string[]): Promise<CommandOutput> {
+    // find [path...] [-name pattern] [-type f|d] [-maxdepth N]
+    const paths: string[] = [];
+    let name: RegExp | undefined;
+    let type: string | undefined;
+    let maxDepth = Infinity;
+
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      if (arg === '-name' || arg === '-iname') {
+        const pattern = args[++i];
+        if (pattern === undefined) throw new ShellError(`missing argument to ${arg}`, 2);
+        const regex = globToRegExp(pattern);
+        name = arg === '-iname' ? new RegExp(regex.source, 'i') : regex;
+      } else if (arg === '-type') {
+        type = args[++i];
+        if (type !== 'f' && type !== 'd') throw new ShellError(`unknown argument to -type: ${type}`, 2);
+      } else if (arg === '-maxdepth') {
+        maxDepth = parseInt(args[++i], 10);
+        if (isNaN(maxDepth)) throw new ShellError('-maxdepth requires a number', 2);
+      } else if (arg.startsWith('-')) {
+        throw new ShellError(`unknown predicate: ${arg}`, 2);
+      } else {
+        paths.push(arg);
+      }
+    }
+
+    const results: string[] = [];
+    for (const root of paths.length > 0 ? paths : ['.']) {
+      const resolved = this.resolve(root);
+      const kind = resolved ? await this.workspace.exists(resolved) : 'directory';
+      if (!kind) throw new ShellError(`${root}: No such file or directory`);
+
+      const display = root.replace(/\/$/, '') || '/';
+      if (kind === 'file') {
+        if (type !== 'd' && (!name || name.test(this.basename(resolved)))) results.push(display);
+        continue;
+      }
+
+      // Directories are implied by file keys below the root, or by their markers
+      const entries = new Map<string, 'f' | 'd'>();
+      for (const file of await this.workspace.listFiles(resolved, { includeDirectories: true })) {
+        const isMarker = file.name.endsWith('/');
+        const parts = file.name.replace(/\/$/, '').split('/');
+        for (let depth = 1; depth < parts.length; depth++) {
+          entries.set(parts.slice(0, depth).join('/'), 'd');
+        }
+        entries.set(parts.join('/'), isMarker ? 'd' : 'f');
+      }
+
+      if (type !== 'f' && !name && maxDepth >= 0) results.push(display);
+      for (const [entry, entryType] of [...entries.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+        if (entry.split('/').length > maxDepth) continue;
+        if (type && entryType !== type) continue;
+        if (name && !name.test(this.basename(entry))) continue;
+        results.push(display === '/' ? `/${entry}` : `${display}/${entry}`);
+      }
+    }
+
+    return { exitCode: 0, stdout: this.joinLines(results) };
+  }
+
+  private async mkdir(args: string[]): Promise<CommandOutput> {
+    const { flags, operands } = this.parseFlags(args);
+    if (operands.length === 0) throw new ShellError('missing operand', 2);
+
+    for (const dir of operands) {
+      const resolved = this.resolve(dir);
+      const kind = resolved ? await this.workspace.exists(resolved) : 'directory';
+      if (kind === 'file') throw new ShellError(`${dir}: File exists`);
+      if (kind === 'directory') {
+        if (flags.has('p')) continue;
+        throw new ShellError(`${dir}: File exists`);
+      }
+
+      // Parents are implicit in object keys; -p gives them markers so they outlive their contents
+      const parts = resolved.split('/');
+      for (let depth = 1; depth < parts.length; depth++) {
+        const parent = parts.slice(0, depth).join('/');
+        const parentKind = await this.workspace.exists(parent);
+        if (parentKind === 'file') throw new ShellError(`${parent}: Not a directory`);
+        if (!parentKind) {
+          if (!flags.has('p')) throw new ShellError(`${dir}: No such file or directory`);
+          await this.workspace.mkdir(parent);
+        }
+      }
+      await this.workspace.mkdir(resolved);
+    }
+
+    return { exitCode: 0, stdout: '' };
+  }
+
+  private async touch(args: string[]): Promise<CommandOutput> {
+    if (args.length === 0) throw new ShellError('missing file operand', 2);
+
+    for (const file of args) {
+      const resolved = this.resolve(file);
+      const kind = resolved ? await this.workspace.exists(resolved) : 'directory';
+      if (kind === 'directory') continue;
+      // Object stores can't bump mtime in place; rewrite the existing bytes
+      const content = kind === 'file' ? await this.workspace.readFileBytes(resolved) : '';
+      await this.workspace.writeFile(resolved, content, inferMimeType(resolved));
+    }
+
+    return { exitCode: 0, stdout: '' };
+  }
+
+  private async rm(args: string[]): Promise<CommandOutput> {
+    const { flags, operands } = this.parseFlags(args);
+    const recursive = flags.has('r') || flags.has('R');
+    const force = flags.has('f');
+    if (operands.length === 0 && !force) throw new ShellError('missing operand', 2);
+
+    for (const target of operands) {
+      const resolved = this.resolve(target);
+      if (!resolved) throw new ShellError('refusing to remove workspace root');
+
+      const kind = await this.workspace.exists(resolved);
+      if (!kind) {
+        if (force) continue;
+        throw new ShellError(`${target}: No such file or directory`);
+      }
+      if (kind === 'directory') {
+        if (!recursive) throw new ShellError(`${target}: is a directory`);
+        await this.workspace.rm(resolved);
+        // Marker object for the directory itself
+        await this.workspace.unlink(`${resolved}/`).catch(() => undefined);
+      } else {
+        await this.workspace.unlink(resolved);
+      }
+    }
+
+    return { exitCode: 0, stdout: '' };
+  }
+
+  /**
+   * cp [-r] and mv: into an existing directory keeps the source name
+   */
+  private async cp(args: string[], move: boolean): Promise<CommandOutput> {
+    const { flags, operands } = this.parseFlags(args);
+    const recursive = move || flags.has('r') || flags.has('R');
+    if (operands.length < 2) throw new ShellError('missing destination operand', 2);
+
+    const destination = operands.pop()!;
+    const destResolved = this.resolve(destination);
+    const destKind = destResolved ? await this.workspace.exists(destResolved) : 'directory';
+
+    if (operands.length > 1 && destKind !== 'directory') {
+      throw new ShellError(`target '${destination}' is not a directory`);
+    }
+
+    for (const source of operands) {
+      const srcResolved = this.resolve(source);
+      if (!srcResolved) throw new ShellError('cannot copy workspace root');
+
+      const srcKind = await this.workspace.exists(srcResolved);
+      if (!srcKind) throw new ShellError(`${source}: No such file or directory`);
+
+      const target = destKind === 'directory'
+        ? this.join(destResolved, this.basename(srcResolved))
+        : destResolved;
+      if (target === srcResolved) throw new ShellError(`'${source}' and '${destination}' are the same file`);
+
+      if (srcKind === 'directory') {
+        if (!recursive) throw new ShellError(`-r not specified; omitting directory '${source}'`);
+        if (`${target}/`.startsWith(`${srcResolved}/`)) {
+          throw new ShellError(`cannot copy '${source}' into itself`);
+        }
+      }
+
+      // Server-side copy on the backend; directories copy their whole prefix
+      if (move) {
+        await this.workspace.move(srcResolved, target);
+      } else {
+        await this.workspace.copy(srcResolved, target);
+      }
+    }
+
+    return { exitCode: 0, stdout: '' };
+  }
+
+  private async diff(args: string[]): Promise<CommandOutput> {
+    const { operands } = this.parseFlags(args); // -u is the only output format
+    if (operands.length !== 2) throw new ShellError('usage: diff [-u] file1 file2', 2);
+
+    const [from, to] = operands;
+    const patch = unifiedDiff(await this.readText(from), await this.readText(to), {
+      fromLabel: from,
+      toLabel: to
+    });
+
+    return { exitCode: patch ? 1 : 0, stdout: patch };
+  }
+
+  private async sort(args: string[], stdin: string): Promise<CommandOutput> {
+    const { flags, operands } = this.parseFlags(args);
+    const inputs = await this.readInputs(operands, stdin);
+    let lines = inputs.flatMap(i => this.lines(i.text));
+
+    lines.sort(flags.has('n')
+      ? (a, b) => (parseFloat(a) || 0) - (parseFloat(b) || 0)
+      : (a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    if (flags.has('r')) lines.reverse();
+    if (flags.has('u')) lines = lines.filter((line, i) => i === 0 || line !== lines[i - 1]);
+
+    return { exitCode: 0, stdout: this.joinLines(lines) };
+  }
+
+  private async uniq(args: string[], stdin: string): Promise<CommandOutput> {
+    const { flags, operands } = this.parseFlags(args);
+    const inputs = await this.readInputs(operands.slice(0, 1), stdin);
+    const output: string[] = [];
+    let previous: string | undefined;
+    let count = 0;
+
+    const flush = () => {
+      if (previous === undefined) return;
+      output.push(flags.has('c') ? `${String(count).padStart(7)} ${previous}` : previous);
+    };
+
+    for (const line of this.lines(inputs[0].text)) {
+      if (line === previous) {
+        count++;
+        continue;
+      }
+      flush();
+      previous = line;
+      count = 1;
+    }
+    flush();
+
+    return { exitCode: 0, stdout: this.joinLines(output) };
+  }
+
+  private async tee(args: string[], stdin: string): Promise<CommandOutput> {
+    const { flags, operands } = this.parseFlags(args);
+    for (const file of operands) {
+      await this.writeOutput(file, stdin, flags.has('a'));
+    }
+    return { exitCode: 0, stdout: stdin };
+  }
+
+  private help(): string {
+    return [
+      'Workspace shell - paths are relative to the working directory; / is the workspace root.',
+      'Operators: |  ;  &&  ||  > file  >> file   Globs: * ? [abc]',
+      '',
+      '  ls [-la] [path...]           cat [-n] [file...]        head|tail [-n N] [file...]',
+      '  grep [-inrvclFH] pat [path...]   find [path] [-name pat] [-type f|d] [-maxdepth N]',
+      '  wc [-lwc] [file...]          sort [-rnu] [file...]     uniq [-c] [file]',
+      '  diff [-u] a b                cp [-r] src... dest       mv src... dest',
+      '  rm [-rf] path...             mkdir [-p] dir...         touch file...',
+      '  echo [-n] text               tee [-a] file...          cd [dir]   pwd',
+      '',
+      ...(this.readOnly ? [`Read-only: ${WRITE_COMMANDS.join(', ')} and > / >> are disabled.`, ''] : [])
+    ].join('\n');
+  }
+}
+
+// =============================================================
+// Formatting
+// =============================================================
+
+/**
+ * Transcript-style rendering shared by the tool and worker sh:run blocks
+ */
+export function formatShellResult(command: string, result: ShellResult): string {
+  const parts = [`$ ${command}`];
+  if (result.stdout) parts.push(result.stdout.replace(/\n$/, ''));
+  if (result.stderr) parts.push(result.stderr.replace(/\n$/, ''));
+  parts.push(`[exit ${result.exitCode}]`);
+  return parts.join('\n');
+}
@@ -0,0 +1,305 @@
+// src/workspace/snapshots.ts - Point-in-time snapshots of a task folder
+
+import { unifiedDiff } from './diff';
+import { sha256Hex } from './hash';
+import { LeaseHeldError, readLease, TASK_LEASE_FILE } from './lease';
+import { inferMimeType, isTextMimeType } from './mime';
+import { PENDING_REVIEWS_FILE } from './reviews';
+import { resolveTaskPath } from './task-paths';
+import { ArtifactVersions, isVersionHistoryPath } from './versions';
+import type { ScopedWorkspace } from './workspace';
+
+// =============================================================
+// Types
+// =============================================================
+
+export type SnapshotReason = 'manual' | 'checkpoint' | 'pre-restore';
+
+export interface SnapshotFile {
+  /** Relative to the task folder */
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+export interface SnapshotManifest {
+  id: string;
+  taskPath: string;
+  createdAt: number;
+  reason: SnapshotReason;
+  label?: string;
+  stepNumber?: number;
+  totalBytes: number;
+  files: SnapshotFile[];
+}
+
+export type SnapshotSummary = Omit<SnapshotManifest, 'files'> & { fileCount: number };
+
+export interface SnapshotFileChange {
+  path: string;
+  before?: SnapshotFile;
+  after?: SnapshotFile;
+  /** Unified diff for text files below the size cap */
+  diff?: string;
+}
+
+export interface SnapshotDiff {
+  from: string;
+  to: string;
+  added: SnapshotFileChange[];
+  removed: SnapshotFileChange[];
+  modified: SnapshotFileChange[];
+  unchanged: number;
+}
+
+export interface RestoreResult {
+  snapshotId: string;
+  /** Snapshot of the state the restore replaced, so it can be undone */
+  backupId: string;
+  restored: string[];
+  removed: string[];
+  unchanged: number;
+}
+
+/** Compare against the live task folder instead of a snapshot */
+export const CURRENT_STATE = 'current';
+
+const SNAPSHOT_DIR = 'checkpoints/snapshots';
+const BLOB_DIR = 'checkpoints/blobs';
+const MAX_DIFF_BYTES = 256 * 1024;
+
+// =============================================================
+// Snapshot Manager
+// =============================================================
+
+/**
+ * Snapshots of one task folder, kept under its checkpoints/ directory.
+ *
+ * File contents are stored once per SHA-256 in checkpoints/blobs/, so
+ * unchanged files cost nothing in later snapshots. Each snapshot is a
+ * manifest in checkpoints/snapshots/<id>.json. checkpoints/ itself, the
+ * lease file and artifact version histories are never captured or
+ * restored, so a restore can't discard history.
+ */
+export class SnapshotManager {
+  constructor(
+    private workspace: ScopedWorkspace,
+    readonly taskPath: string
+  ) {}
+
+  /**
+   * Resolve a task id to its folder (tasks/<folder containing id>)
+   */
+  static async forTask(workspace: ScopedWorkspace, taskId: string): Promise<SnapshotManager | null> {
+    const taskPath = await resolveTaskPath(workspace, taskId);
+    return taskPath ? new SnapshotManager(workspace, taskPath) : null;
+  }
+
+  async create(options: { reason?: SnapshotReason; label?: string; stepNumber?: number } = {}): Promise<SnapshotManifest> {
+    const createdAt = Date.now();
+    const files: SnapshotFile[] = [];
+
+    for (const file of await this.liveFiles()) {
+      const bytes = await this.workspace.readFileBytes(`${this.taskPath}/${file}`);
+      const sha256 = await sha256Hex(bytes);
+      const blobPath = `${this.taskPath}/${BLOB_DIR}/${sha256}`;
+
+      if (!await this.workspace.exists(blobPath)) {
+        await this.workspace.writeFile(blobPath, bytes, 'application/octet-stream');
+      }
+      files.push({ path: file, size: bytes.byteLength, sha256 });
+    }
+
+    const manifest: SnapshotManifest = {
+      id: `snap_${createdAt}_${crypto.randomUUID().slice(0, 8)}`,
+      taskPath: this.taskPath,
+      createdAt,
+      reason: options.reason ?? 'manual',
+      label: options.label,
+      stepNumber: options.stepNumber,
+      totalBytes: files.reduce((sum, f) => sum + f.size, 0),
+      files
+    };
+
+    await this.workspace.writeFile(
+      `${this.taskPath}/${SNAPSHOT_DIR}/${manifest.id}.json`,
+      JSON.stringify(manifest, null, 2),
+      'application/json'
+    );
+    console.log(`[Snapshots] Created ${manifest.id} for ${this.taskPath} (${files.length} files, ${manifest.totalBytes} bytes)`);
+    return manifest;
+  }
+
+  /**
+   * Newest first
+   */
+  async list(): Promise<SnapshotSummary[]> {
+    const dir = `${this.taskPath}/${SNAPSHOT_DIR}`;
+    if (await this.workspace.exists(dir) !== 'directory') return [];
+
+    const listing = await this.workspace.readdir(dir);
+    const summaries: SnapshotSummary[] = [];
+
+    for (const file of listing.files.filter(f => f.name.endsWith('.json'))) {
+      try {
+        const { files, ...rest }: SnapshotManifest = JSON.parse(await this.workspace.readFileText(`${dir}/${file.name}`));
+        summaries.push({ ...rest, fileCount: files.length });
+      } catch (error) {
+        console.warn(`[Snapshots] Skipping unreadable manifest ${file.name}:`, error);
+      }
+    }
+
+    return summaries.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async get(snapshotId: string): Promise<SnapshotManifest | null> {
+    if (!/^[\w-]+$/.test(snapshotId)) return null;
+    try {
+      return JSON.parse(await this.workspace.readFileText(`${this.taskPath}/${SNAPSHOT_DIR}/${snapshotId}.json`));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Changes from one snapshot to another, or to CURRENT_STATE
+   */
+  async diff(fromId: string, toId: string = CURRENT_STATE): Promise<SnapshotDiff> {
+    const [from, to] = await Promise.all([this.resolveFiles(fromId), this.resolveFiles(toId)]);
+    const result: SnapshotDiff = { from: fromId, to: toId, added: [], removed: [], modified: [], unchanged: 0 };
+
+    for (const [path, before] of from) {
+      const after = to.get(path);
+      if (!after) {
+        result.removed.push({ path, before });
+      } else if (after.sha256 === before.sha256) {
+        result.unchanged++;
+      } else {
+        result.modified.push({
+          path,
+          before,
+          after,
+          diff: await this.textDiff(path, before, after, toId)
+        });
+      }
+    }
+
+    for (const [path, after] of to) {
+      if (!from.has(path)) result.added.push({ path, after });
+    }
+
+    return result;
+  }
+
+  /**
+   * Put the task folder back to a snapshot. The current state is
+   * snapshotted first; with prune (default) files the snapshot didn't
+   * have are deleted. Restored artifacts are written as new versions so
+   * their history matches the files. Refused while another holder has the
+   * task's lease.
+   */
+  async restore(snapshotId: string, options: { prune?: boolean; leaseToken?: string } = {}): Promise<RestoreResult> {
+    const manifest = await this.get(snapshotId);
+    if (!manifest) throw new Error(`Snapshot not found: ${snapshotId}`);
+
+    const lease = await readLease(this.workspace, `${this.taskPath}/${TASK_LEASE_FILE}`);
+    if (lease && lease.token !== options.leaseToken) {
+      throw new LeaseHeldError(lease);
+    }
+
+    const backup = await this.create({ reason: 'pre-restore', label: `Before restoring ${snapshotId}` });
+    const current = new Map(backup.files.map(f => [f.path, f]));
+    const result: RestoreResult = { snapshotId, backupId: backup.id, restored: [], removed: [], unchanged: 0 };
+    const versions = new ArtifactVersions(this.workspace, this.taskPath);
+
+    for (const file of manifest.files) {
+      if (current.get(file.path)?.sha256 === file.sha256) {
+        result.unchanged++;
+        continue;
+      }
+      const bytes = await this.workspace.readFileBytes(`${this.taskPath}/${BLOB_DIR}/${file.sha256}`);
+      if (file.path.startsWith('artifacts/')) {
+        await versions.write(file.path.slice('artifacts/'.length), bytes, { note: `Restored from ${snapshotId}` });
+      } else {
+        await this.workspace.writeFile(`${this.taskPath}/${file.path}`, bytes, inferMimeType(file.path));
+      }
+      result.restored.push(file.path);
+    }
+
+    if (options.prune ?? true) {
+      const keep = new Set(manifest.files.map(f => f.path));
+      for (const path of current.keys()) {
+        if (!keep.has(path)) {
+          await this.workspace.unlink(`${this.taskPath}/${path}`);
+          result.removed.push(path);
+        }
+      }
+    }
+
+    console.log(`[Snapshots] Restored ${snapshotId} in ${this.taskPath}: ${result.restored.length} restored, ${result.removed.length} removed`);
+    return result;
+  }
+
+  // -----------------------------------------------------------
+  // Helpers
+  // -----------------------------------------------------------
+
+  /**
+   * Task files eligible for snapshots, relative to the task folder
+   */
+  private async liveFiles(): Promise<string[]> {
+    const files = await this.workspace.listFiles(this.taskPath);
+    return files
+      .map(f => f.name)
+      .filter(name => !name.startsWith('checkpoints/') && name !== TASK_LEASE_FILE && name !== PENDING_REVIEWS_FILE && !isVersionHistoryPath(name))
+      .sort();
+  }
+
+  private async resolveFiles(snapshotId: string): Promise<Map<string, SnapshotFile>> {
+    if (snapshotId !== CURRENT_STATE) {
+      const manifest = await this.get(snapshotId);
+      if (!manifest) throw new Error(`Snapshot not found: ${snapshotId}`);
+      return new Map(manifest.files.map(f => [f.path, f]));
+    }
+
+    const files = new Map<string, SnapshotFile>();
+    for (const path of await this.liveFiles()) {
+      const bytes = await this.workspace.readFileBytes(`${this.taskPath}/${path}`);
+      files.set(path, { path, size: bytes.byteLength, sha256: await sha256Hex(bytes) });
+    }
+    return files;
+  }
+
+  private async textDiff(
+    path: string,
+    before: SnapshotFile,
+    after: SnapshotFile,
+    toId: string
+  ): Promise<string | undefined> {
+    if (!isTextMimeType(inferMimeType(path))) return undefined;
+    if (before.size > MAX_DIFF_BYTES || after.size > MAX_DIFF_BYTES) return undefined;
+
+    const oldText = await this.workspace.readFileText(`${this.taskPath}/${BLOB_DIR}/${before.sha256}`);
+    const newText = await this.workspace.readFileText(
+      toId === CURRENT_STATE ? `${this.taskPath}/${path}` : `${this.taskPath}/${BLOB_DIR}/${after.sha256}`
+    );
+    return unifiedDiff(oldText, newText, { fromLabel: `a/${path}`, toLabel: `b/${path}` });
+  }
+}
+
+/**
+ * Plain-text rendering of a diff for tool summaries
+ */
+export function formatSnapshotDiff(diff: SnapshotDiff): string {
+  const lines = [
+    `Diff ${diff.from} → ${diff.to}: ${diff.added.length} added, ${diff.removed.length} removed, ` +
+    `${diff.modified.length} modified, ${diff.unchanged} unchanged`
+  ];
+  for (const change of diff.added) lines.push(`A ${change.path}`);
+  for (const change of diff.removed) lines.push(`D ${change.path}`);
+  for (const change of diff.modified) {
+    lines.push(`M ${change.path}`);
+    if (change.diff) lines.push(change.diff);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,14 @@
+// src/workspace/task-paths.ts - Locating task folders in a tenant workspace
+
+import type { ScopedWorkspace } from './workspace';
+
+/**
+ * tasks/<folder> for a task id, or null. Folders are named after the
+ * task id, and a partial id matches the first folder containing it.
+ */
+export async function resolveTaskPath(workspace: ScopedWorkspace, taskId: string): Promise<string | null> {
+  if (!taskId || await workspace.exists('tasks') !== 'directory') return null;
+  const tasksDir = await workspace.readdir('tasks');
+  const taskFolder = tasksDir.directories.find(d => d.includes(taskId));
+  return taskFolder ? `tasks/${taskFolder}` : null;
+}
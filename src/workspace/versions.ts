@@ -0,0 +1,187 @@
+// src/workspace/versions.ts - Numbered revisions of task artifacts
+
+import { unifiedDiff } from './diff';
+import { sha256Hex } from './hash';
+import { inferMimeType, isTextMimeType } from './mime';
+import { resolveTaskPath } from './task-paths';
+import type { ScopedWorkspace } from './workspace';
+
+// =============================================================
+// Types
+// =============================================================
+
+export interface ArtifactVersion {
+  version: number;
+  sha256: string;
+  size: number;
+  mimeType: string;
+  /** 'admin', a worker type, or 'unknown' for content that predates versioning */
+  author: string;
+  stepNumber?: number;
+  createdAt: number;
+  /** e.g. "Reverted to v2" */
+  note?: string;
+}
+
+export interface VersionMetadata {
+  author?: string;
+  stepNumber?: number;
+  mimeType?: string;
+  note?: string;
+}
+
+/** History lives next to the artifacts, under artifacts/.versions/<filename>/ */
+export const VERSIONS_DIR = '.versions';
+
+/**
+ * True for paths inside a version history (skipped by snapshots and mounts)
+ */
+export function isVersionHistoryPath(path: string): boolean {
+  return path.startsWith(`${VERSIONS_DIR}/`) || path.includes(`/${VERSIONS_DIR}/`);
+}
+
+// =============================================================
+// Artifact Versions
+// =============================================================
+
+/**
+ * Version history for the artifacts of one task.
+ *
+ * Each artifact gets artifacts/.versions/<filename>/index.json listing
+ * its versions, plus one object per distinct content named by SHA-256.
+ * The index is updated with a conditional read-modify-write, so
+ * concurrent writers get distinct version numbers.
+ */
+export class ArtifactVersions {
+  constructor(
+    private workspace: ScopedWorkspace,
+    readonly taskPath: string
+  ) {}
+
+  static async forTask(workspace: ScopedWorkspace, taskId: string): Promise<ArtifactVersions | null> {
+    const taskPath = await resolveTaskPath(workspace, taskId);
+    return taskPath ? new ArtifactVersions(workspace, taskPath) : null;
+  }
+
+  /**
+   * Write the artifact and record it as the next version. Content written
+   * before versioning existed is captured as v1 first so it isn't lost.
+   */
+  async write(filename: string, content: string | Uint8Array, metadata: VersionMetadata = {}): Promise<ArtifactVersion> {
+    const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+    const mimeType = metadata.mimeType || inferMimeType(filename);
+    const livePath = this.livePath(filename);
+
+    if ((await this.history(filename)).length === 0 && await this.workspace.exists(livePath) === 'file') {
+      await this.record(filename, await this.workspace.readFileBytes(livePath), {
+        author: 'unknown',
+        mimeType,
+        note: 'Captured before first versioned write'
+      });
+    }
+
+    const version = await this.record(filename, bytes, { ...metadata, mimeType });
+    await this.workspace.writeFile(livePath, bytes, mimeType);
+    return version;
+  }
+
+  /**
+   * Oldest first; empty when the artifact has never been written through here
+   */
+  async history(filename: string): Promise<ArtifactVersion[]> {
+    const index = await this.workspace.readFileWithEtag(`${this.historyDir(filename)}/index.json`);
+    return index ? JSON.parse(index.text) : [];
+  }
+
+  async read(filename: string, version: number): Promise<{ version: ArtifactVersion; content: Uint8Array } | null> {
+    const entry = (await this.history(filename)).find(v => v.version === version);
+    if (!entry) return null;
+    const content = await this.workspace.readFileBytes(`${this.historyDir(filename)}/${entry.sha256}`);
+    return { version: entry, content };
+  }
+
+  /**
+   * Unified diff between two versions; `to` defaults to the latest.
+   * Throws for unknown versions and non-text artifacts.
+   */
+  async diff(filename: string, from: number, to?: number): Promise<{ from: ArtifactVersion; to: ArtifactVersion; diff: string }> {
+    const history = await this.history(filename);
+    const target = to ?? history[history.length - 1]?.version;
+    const [older, newer] = await Promise.all([this.read(filename, from), this.read(filename, target)]);
+
+    if (!older) throw new Error(`Version ${from} of ${filename} not found`);
+    if (!newer) throw new Error(`Version ${target} of ${filename} not found`);
+    if (!isTextMimeType(older.version.mimeType) || !isTextMimeType(newer.version.mimeType)) {
+      throw new Error(`Cannot diff non-text artifact ${filename} (${newer.version.mimeType})`);
+    }
+
+    const decoder = new TextDecoder();
+    const diff = unifiedDiff(decoder.decode(older.content), decoder.decode(newer.content), {
+      fromLabel: `${filename}@v${older.version.version}`,
+      toLabel: `${filename}@v${newer.version.version}`
+    });
+    return { from: older.version, to: newer.version, diff };
+  }
+
+  /**
+   * Make an old version current again, as a new version
+   */
+  async revert(filename: string, version: number, metadata: VersionMetadata = {}): Promise<ArtifactVersion> {
+    const old = await this.read(filename, version);
+    if (!old) throw new Error(`Version ${version} of ${filename} not found`);
+
+    return this.write(filename, old.content, {
+      ...metadata,
+      mimeType: old.version.mimeType,
+      note: `Reverted to v${version}`
+    });
+  }
+
+  /**
+   * Carry the history along when an artifact is renamed
+   */
+  async moveHistory(filename: string, newFilename: string): Promise<void> {
+    if (await this.workspace.exists(this.historyDir(filename)) === 'directory') {
+      await this.workspace.move(this.historyDir(filename), this.historyDir(newFilename));
+    }
+  }
+
+  // -----------------------------------------------------------
+  // Helpers
+  // -----------------------------------------------------------
+
+  private async record(filename: string, bytes: Uint8Array, metadata: VersionMetadata): Promise<ArtifactVersion> {
+    const sha256 = await sha256Hex(bytes);
+    const blobPath = `${this.historyDir(filename)}/${sha256}`;
+    if (!await this.workspace.exists(blobPath)) {
+      await this.workspace.writeFile(blobPath, bytes, 'application/octet-stream');
+    }
+
+    let recorded!: ArtifactVersion;
+    await this.workspace.updateFile(`${this.historyDir(filename)}/index.json`, current => {
+      const history: ArtifactVersion[] = current ? JSON.parse(current) : [];
+      recorded = {
+        version: (history[history.length - 1]?.version ?? 0) + 1,
+        sha256,
+        size: bytes.byteLength,
+        mimeType: metadata.mimeType || inferMimeType(filename),
+        author: metadata.author || 'admin',
+        stepNumber: metadata.stepNumber,
+        createdAt: Date.now(),
+        note: metadata.note
+      };
+      return JSON.stringify([...history, recorded], null, 2);
+    }, { mimeType: 'application/json' });
+
+    console.log(`[Versions] ${filename} v${recorded.version} by ${recorded.author} (${bytes.byteLength} bytes)`);
+    return recorded;
+  }
+
+  private livePath(filename: string): string {
+    return `${this.taskPath}/artifacts/${filename}`;
+  }
+
+  private historyDir(filename: string): string {
+    return `${this.taskPath}/artifacts/${VERSIONS_DIR}/${filename}`;
+  }
+}
@@ -0,0 +1,111 @@
+// src/workspace/worker-artifacts.ts - Saving worker output into a task folder
+
+import type { Artifact } from '../types';
+import { extensionForLanguage } from './mime';
+import { ArtifactVersions } from './versions';
+import type { ScopedWorkspace } from './workspace';
+
+export interface PersistedArtifact {
+  artifactId: string;
+  /** Relative to the task folder, e.g. artifacts/step-2-code-1.py */
+  path: string;
+  version: number;
+}
+
+/**
+ * A first-line comment such as `# file: clean_data.py` or
+ * `<!-- filename: index.html -->` names the file explicitly
+ */
+const FILENAME_HINT = /^\s*(?:#|\/\/|--|\/\*|<!--)\s*file(?:name)?:\s*([\w][\w.-]*\.\w+)/i;
+
+export interface ArtifactNaming {
+  workerType: string;
+  stepNumber?: number;
+  /** Tells apart workers sharing a step, e.g. "w2" in a batch delegation */
+  variant?: string;
+}
+
+/**
+ * Filename for the `index`th (1-based) artifact of a delegation. Falls
+ * back to step-<n>-<worker>[-<variant>]-<index>.<ext> with the extension
+ * taken from the code block language. A variant is also added to hinted
+ * names (clean_data-w2.py) so batch workers don't overwrite each other.
+ */
+export function artifactFilename(artifact: Artifact, index: number, options: ArtifactNaming): string {
+  const hint = artifact.content.split('\n', 1)[0].match(FILENAME_HINT);
+  if (hint) {
+    if (!options.variant) return hint[1];
+    const dot = hint[1].lastIndexOf('.');
+    return `${hint[1].slice(0, dot)}-${options.variant}${hint[1].slice(dot)}`;
+  }
+
+  const ext = extensionForLanguage(artifact.metadata?.language);
+  const prefix = options.stepNumber !== undefined ? `step-${options.stepNumber}` : `delegation-${Date.now()}`;
+  const worker = options.variant ? `${options.workerType}-${options.variant}` : options.workerType;
+  return `${prefix}-${worker}-${index}.${ext}`;
+}
+
+/**
+ * Write worker artifacts to tasks/<id>/artifacts (versioned) and add
+ * their paths to the step's outputs in todo.json. Shell commands the
+ * worker executed are not deliverables and are skipped. Each persisted
+ * artifact gets its task-relative `path` set. Returns [] when the task
+ * doesn't exist.
+ */
+export async function persistWorkerArtifacts(
+  workspace: ScopedWorkspace,
+  taskId: string,
+  artifacts: Artifact[],
+  options: ArtifactNaming
+): Promise<PersistedArtifact[]> {
+  const versions = await ArtifactVersions.forTask(workspace, taskId);
+  if (!versions) return [];
+
+  const persisted: PersistedArtifact[] = [];
+  const deliverables = artifacts.filter(a => !(a.metadata?.executed && extensionForLanguage(a.metadata.language) === 'sh'));
+
+  for (const [i, artifact] of deliverables.entries()) {
+    if (!artifact.content.trim()) continue;
+
+    const filename = artifactFilename(artifact, i + 1, options);
+    const version = await versions.write(filename, artifact.content, {
+      author: options.workerType,
+      stepNumber: options.stepNumber
+    });
+
+    artifact.path = `artifacts/${filename}`;
+    artifact.stepNumber = options.stepNumber;
+    persisted.push({ artifactId: artifact.id, path: artifact.path, version: version.version });
+  }
+
+  if (persisted.length > 0 && options.stepNumber !== undefined) {
+    await recordStepOutputs(workspace, versions.taskPath, options.stepNumber, persisted.map(p => p.path));
+  }
+
+  console.log(`[WorkerArtifacts] Saved ${persisted.length}/${artifacts.length} artifacts to ${versions.taskPath}`);
+  return persisted;
+}
+
+/**
+ * Merge paths into a step's outputs (deduplicated). Goes through
+ * updateFile so a concurrent update_task isn't overwritten.
+ */
+async function recordStepOutputs(
+  workspace: ScopedWorkspace,
+  taskPath: string,
+  stepNumber: number,
+  paths: string[]
+): Promise<void> {
+  const todoPath = `${taskPath}/todo.json`;
+  if (await workspace.exists(todoPath) !== 'file') return;
+
+  await workspace.updateFile(todoPath, current => {
+    const todo = JSON.parse(current || '{}');
+    const step = todo.steps?.find((s: { number: number }) => s.number === stepNumber);
+    if (!step) return current!;
+
+    step.outputs = Array.from(new Set([...(step.outputs ?? []), ...paths]));
+    todo.metadata = { ...todo.metadata, updatedAt: Date.now() };
+    return JSON.stringify(todo, null, 2);
+  }, { mimeType: 'application/json' });
+}
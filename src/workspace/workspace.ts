@@ -1,20 +1,37 @@
-// src/workspace/workspace.ts - Enhanced B2 Workspace with Retry & Error Handling
+// src/workspace/workspace.ts - Workspace facade over pluggable storage backends
 
-import { AwsClient } from 'aws4fetch';
 import type { Env } from '../types';
+import {
+  createWorkspaceBackend,
+  resolveBackendKind,
+  WorkspaceConflictError,
+  type PutConditions,
+  type WorkspaceBackend,
+  type WorkspaceBackendKind,
+} from './backends';
+
+export { WorkspaceConflictError, type PutConditions };
 
 // =============================================================
 // Types
 // =============================================================
 
-interface B2Config {
-  endpoint: string;
-  region: string;
-  bucket: string;
+export interface WorkspaceConfig {
+  backend: WorkspaceBackendKind;
   basePath: string;
+  [detail: string]: string;
+}
+
+/**
+ * Tenant a workspace handle is confined to. A user scope takes precedence
+ * so a user's sessions share one task tree.
+ */
+export interface WorkspaceScope {
+  userId?: string;
+  sessionId?: string;
 }
 
-interface ListResult {
+export interface ListResult {
   directories: string[];
   files: Array<{
     name: string;
@@ -24,11 +41,10 @@ interface ListResult {
   }>;
 }
 
-interface B2Error {
-  code: string;
-  message: string;
-  requestId?: string;
-  resource?: string;
+export interface UpdateFileOptions {
+  mimeType?: string;
+  /** Read-modify-write attempts before the conflict is surfaced (default 5) */
+  maxAttempts?: number;
 }
 
 interface RetryOptions {
@@ -38,73 +54,6 @@ interface RetryOptions {
   backoffMultiplier?: number;
 }
 
-// =============================================================
-// XML Parser (Workers-Compatible)
-// =============================================================
-
-class SimpleXMLParser {
-  static parseListObjectsV2(xml: string): {
-    contents: Array<{ key: string; size: number; lastModified: string; etag?: string }>;
-    commonPrefixes: string[];
-    isTruncated: boolean;
-    nextContinuationToken?: string;
-  } {
-    const contents: Array<{ key: string; size: number; lastModified: string; etag?: string }> = [];
-    const commonPrefixes: string[] = [];
-
-    // Parse <Contents> blocks
-    const contentsRegex = /<Contents>([\s\S]*?)<\/Contents>/g;
-    let match;
-    
-    while ((match = contentsRegex.exec(xml)) !== null) {
-      const contentBlock = match[1];
-      
-      const keyMatch = /<Key>([^<]+)<\/Key>/.exec(contentBlock);
-      const sizeMatch = /<Size>(\d+)<\/Size>/.exec(contentBlock);
-      const lastModifiedMatch = /<LastModified>([^<]+)<\/LastModified>/.exec(contentBlock);
-      const etagMatch = /<ETag>"?([^<"]+)"?<\/ETag>/.exec(contentBlock);
-      
-      if (keyMatch && sizeMatch && lastModifiedMatch) {
-        contents.push({
-          key: keyMatch[1],
-          size: parseInt(sizeMatch[1], 10),
-          lastModified: lastModifiedMatch[1],
-          etag: etagMatch ? etagMatch[1] : undefined
-        });
-      }
-    }
-
-    // Parse <CommonPrefixes> blocks
-    const prefixRegex = /<CommonPrefixes>[\s\S]*?<Prefix>([^<]+)<\/Prefix>[\s\S]*?<\/CommonPrefixes>/g;
-    while ((match = prefixRegex.exec(xml)) !== null) {
-      commonPrefixes.push(match[1]);
-    }
-
-    // Parse pagination info
-    const isTruncatedMatch = /<IsTruncated>(true|false)<\/IsTruncated>/.exec(xml);
-    const isTruncated = isTruncatedMatch ? isTruncatedMatch[1] === 'true' : false;
-    
-    const nextTokenMatch = /<NextContinuationToken>([^<]+)<\/NextContinuationToken>/.exec(xml);
-    const nextContinuationToken = nextTokenMatch ? nextTokenMatch[1] : undefined;
-
-    return { contents, commonPrefixes, isTruncated, nextContinuationToken };
-  }
-
-  static parseError(xml: string): B2Error {
-    const codeMatch = /<Code>([^<]+)<\/Code>/.exec(xml);
-    const messageMatch = /<Message>([^<]+)<\/Message>/.exec(xml);
-    const requestIdMatch = /<RequestId>([^<]+)<\/RequestId>/.exec(xml);
-    const resourceMatch = /<Resource>([^<]+)<\/Resource>/.exec(xml);
-
-    return {
-      code: codeMatch ? codeMatch[1] : 'UnknownError',
-      message: messageMatch ? messageMatch[1] : 'Unknown error occurred',
-      requestId: requestIdMatch ? requestIdMatch[1] : undefined,
-      resource: resourceMatch ? resourceMatch[1] : undefined
-    };
-  }
-}
-
 // =============================================================
 // Retry Logic with Exponential Backoff
 // =============================================================
@@ -147,6 +96,9 @@ class RetryHelper {
   }
 
   private static isNonRetryableError(error: Error): boolean {
+    // Repeating a conditional write can't succeed; the caller must re-read
+    if (error instanceof WorkspaceConflictError) return true;
+
     const message = error.message.toLowerCase();
     // Don't retry on client errors (4xx except 429)
     const nonRetryable = [
@@ -162,84 +114,54 @@ class RetryHelper {
 }
 
 // =============================================================
-// B2 Workspace Implementation
+// Tenant Prefixes
 // =============================================================
 
-class WorkspaceImpl {
-  private s3: AwsClient;
-  private config: B2Config;
-
-  constructor(env: Env) {
-    this.validateEnvironment(env);
-
-    const endpointUrl = String(env.B2_S3_ENDPOINT).trim();
-    const region = this.extractRegion(endpointUrl);
+const TENANT_SEGMENT = /^[a-zA-Z0-9_.@-]{1,128}$/;
 
-    this.config = {
-      endpoint: endpointUrl.replace(/\/$/, ''),
-      region,
-      bucket: String(env.B2_BUCKET).trim(),
-      basePath: this.normalizeBasePath(env.B2_BASE_PATH as string | undefined)
-    };
-
-    this.s3 = new AwsClient({
-      accessKeyId: String(env.B2_KEY_ID).trim(),
-      secretAccessKey: String(env.B2_APPLICATION_KEY).trim(),
-      service: 's3',
-      region: this.config.region
-    });
-
-    console.log('[B2Workspace] Initialized:', {
-      endpoint: this.config.endpoint,
-      region: this.config.region,
-      bucket: this.config.bucket,
-      basePath: this.config.basePath || '(root)'
-    });
+/**
+ * Key prefix for a scope: users/<userId>/ or sessions/<sessionId>/
+ */
+export function tenantPrefixFor(scope: WorkspaceScope): string {
+  const [kind, id] = scope.userId
+    ? ['users', scope.userId]
+    : scope.sessionId
+      ? ['sessions', scope.sessionId]
+      : [null, null];
 
-    this.validateUrlConstruction();
+  if (!kind || !id) {
+    throw new Error('Workspace scope requires a userId or sessionId');
   }
+  if (!TENANT_SEGMENT.test(id) || id === '.' || id === '..') {
+    throw new Error(`Invalid workspace tenant id: ${id}`);
+  }
+  return `${kind}/${id}/`;
+}
 
-  private validateEnvironment(env: Env): void {
-    const required = [
-      { key: 'B2_KEY_ID', value: env.B2_KEY_ID },
-      { key: 'B2_APPLICATION_KEY', value: env.B2_APPLICATION_KEY },
-      { key: 'B2_S3_ENDPOINT', value: env.B2_S3_ENDPOINT },
-      { key: 'B2_BUCKET', value: env.B2_BUCKET }
-    ];
-
-    const missing = required.filter(r => !r.value || String(r.value).trim() === '');
-    
-    if (missing.length > 0) {
-      throw new Error(`Missing B2 environment variables: ${missing.map(m => m.key).join(', ')}`);
-    }
+// =============================================================
+// Workspace Implementation
+// =============================================================
 
-    const endpoint = String(env.B2_S3_ENDPOINT).trim();
-    if (!endpoint.startsWith('http://') && !endpoint.startsWith('https://')) {
-      throw new Error(
-        `B2_S3_ENDPOINT must start with http:// or https://. ` +
-        `Expected: https://s3.<region>.backblazeb2.com`
-      );
-    }
+/**
+ * Workspace handle confined to one tenant prefix. Every path is resolved
+ * relative to basePath + tenant, and cannot climb above it.
+ */
+export class ScopedWorkspace {
+  private backend: WorkspaceBackend;
+  private basePath: string;
+  readonly tenant: string;
 
-    if (!endpoint.includes('.backblazeb2.com')) {
-      throw new Error(
-        `B2_S3_ENDPOINT appears invalid. ` +
-        `Expected format: https://s3.<region>.backblazeb2.com`
-      );
-    }
+  constructor(backend: WorkspaceBackend, basePath?: string, tenant = '') {
+    this.backend = backend;
+    this.basePath = this.normalizeBasePath(basePath);
+    this.tenant = tenant;
   }
 
-  private extractRegion(endpoint: string): string {
-    const regionMatch = /s3\.([^.]+)\.backblazeb2\.com/.exec(endpoint);
-    
-    if (!regionMatch) {
-      throw new Error(
-        `Cannot extract region from B2_S3_ENDPOINT: "${endpoint}". ` +
-        `Expected format: https://s3.<region>.backblazeb2.com`
-      );
-    }
-
-    return regionMatch[1];
+  /**
+   * Handles only exist once a backend is configured
+   */
+  isInitialized(): boolean {
+    return true;
   }
 
   private normalizeBasePath(path: string | undefined): string {
@@ -248,22 +170,12 @@ class WorkspaceImpl {
     return normalized ? `${normalized}/` : '';
   }
 
-  private validateUrlConstruction(): void {
-    try {
-      const testPath = 'test/file.txt';
-      const testUrl = this.buildUrl(testPath);
-      new URL(testUrl);
-    } catch (error) {
-      throw new Error(
-        `B2 configuration validation failed: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
-    }
-  }
-
+  /**
+   * Normalize a tenant-relative path. '..' may move up within the tenant
+   * root but never above it; escaping attempts throw.
+   */
   private sanitizePath(path: string): string {
-    let clean = path.replace(/^\/+/, '');
+    let clean = path;
     
     try {
       clean = decodeURIComponent(clean);
@@ -271,157 +183,177 @@ class WorkspaceImpl {
       // Use as-is if decode fails
     }
     
-    const parts = clean.split('/').filter(p => p && p !== '.');
+    if (clean.includes('\0')) {
+      throw new Error('Null bytes not allowed in path');
+    }
+    
+    const parts = clean.replace(/\\/g, '/').split('/').filter(p => p && p !== '.');
     const resolved: string[] = [];
     
     for (const part of parts) {
       if (part === '..') {
+        if (resolved.length === 0) {
+          throw new Error(`Path escapes workspace root: ${path}`);
+        }
         resolved.pop();
       } else {
         resolved.push(part);
       }
     }
     
-    const sanitized = resolved.join('/');
-    
-    if (sanitized.includes('\0')) {
-      throw new Error('Null bytes not allowed in path');
-    }
-    
-    return sanitized;
+    return resolved.join('/');
   }
 
   private getFullPath(path: string): string {
     const sanitized = this.sanitizePath(path);
-    return this.config.basePath + sanitized;
+    return this.basePath + this.tenant + sanitized;
   }
 
-  private buildUrl(path: string): string {
+  /**
+   * Key prefix for everything below a directory ('' maps to the base path)
+   */
+  private getDirectoryPrefix(path: string): string {
     const fullPath = this.getFullPath(path);
-    const encodedPath = fullPath.split('/').map(s => encodeURIComponent(s)).join('/');
-    const url = `${this.config.endpoint}/${this.config.bucket}/${encodedPath}`;
-    
-    try {
-      new URL(url);
-      return url;
-    } catch (error) {
-      throw new Error(`Failed to construct valid B2 URL for path "${path}"`);
-    }
+    return fullPath && !fullPath.endsWith('/') ? `${fullPath}/` : fullPath;
   }
 
-  private async handleResponse(response: Response, operation: string): Promise<Response> {
-    if (response.ok) {
-      return response;
-    }
+  // =============================================================
+  // Public API Methods with Retry Logic
+  // =============================================================
 
-    const contentType = response.headers.get('content-type') || '';
-    let error: B2Error;
+  /**
+   * Write a file. A ReadableStream is streamed to the backend (multipart
+   * for large S3/R2 objects) and, being single-use, is not retried.
+   *
+   * With `conditions` the write only lands if the file is still at the
+   * ETag the caller read (or, with ifNoneMatch, does not exist yet);
+   * otherwise WorkspaceConflictError is thrown.
+   */
+  async writeFile(
+    path: string,
+    content: string | Uint8Array | ReadableStream<Uint8Array>,
+    mimeType = 'application/octet-stream',
+    conditions?: PutConditions
+  ): Promise<{ etag?: string }> {
+    if (content instanceof ReadableStream) {
+      const { etag, size } = await this.backend.putStream(this.getFullPath(path), content, mimeType);
+      console.log(`[Workspace] ✅ Streamed: ${path} (${size} bytes)${etag ? ` [ETag: ${etag}]` : ''}`);
+      return { etag };
+    }
 
     try {
-      if (contentType.includes('xml') || contentType.includes('text')) {
-        const xml = await response.text();
-        error = SimpleXMLParser.parseError(xml);
-      } else if (contentType.includes('json')) {
-        const json = await response.json();
-        error = {
-          code: json.code || 'ServerError',
-          message: json.message || 'Server error occurred'
-        };
-      } else {
-        const text = await response.text();
-        error = {
-          code: `HTTP_${response.status}`,
-          message: text || response.statusText
-        };
+      return await RetryHelper.withRetry(async () => {
+        const { etag } = await this.backend.put(this.getFullPath(path), content, mimeType, conditions);
+
+        const size = typeof content === 'string' ? content.length : content.byteLength;
+        console.log(`[Workspace] ✅ Wrote: ${path} (${size} bytes)${etag ? ` [ETag: ${etag}]` : ''}`);
+        return { etag };
+      }, { maxAttempts: 3 });
+    } catch (error) {
+      // Report the tenant-relative path, not the backend key
+      if (error instanceof WorkspaceConflictError) {
+        throw new WorkspaceConflictError(path, error.conditions);
       }
-    } catch {
-      error = {
-        code: `HTTP_${response.status}`,
-        message: response.statusText
-      };
+      throw error;
     }
-
-    const errorMessage = `[B2Workspace] ${operation} failed (${response.status}): ${error.message}`;
-    console.error(errorMessage);
-    throw new Error(errorMessage);
   }
 
-  // =============================================================
-  // Public API Methods with Retry Logic
-  // =============================================================
-
-  async write(
+  /**
+   * Read-modify-write under optimistic concurrency. `update` receives the
+   * current text (null when the file does not exist) and its result is
+   * written conditionally on the ETag that was read. On conflict the file
+   * is re-read and `update` re-applied, so it must derive its result from
+   * the text it is given rather than from an earlier read.
+   */
+  async updateFile(
     path: string,
-    content: string | Uint8Array,
-    mimeType = 'application/octet-stream'
-  ): Promise<void> {
-    await RetryHelper.withRetry(async () => {
-      const url = this.buildUrl(path);
-      
-      const response = await this.s3.fetch(url, {
-        method: 'PUT',
-        body: content,
-        headers: {
-          'Content-Type': mimeType
-        }
-      });
+    update: (current: string | null) => string,
+    options: UpdateFileOptions = {}
+  ): Promise<{ content: string; etag?: string; attempts: number }> {
+    const { mimeType = 'application/octet-stream', maxAttempts = 5 } = options;
 
-      await this.handleResponse(response, `write(${path})`);
-      
-      const etag = response.headers.get('etag')?.replace(/"/g, '');
-      const size = typeof content === 'string' ? content.length : content.byteLength;
-      console.log(`[B2Workspace] ✅ Wrote: ${path} (${size} bytes)${etag ? ` [ETag: ${etag}]` : ''}`);
-    }, { maxAttempts: 3 });
-  }
+    for (let attempt = 1; ; attempt++) {
+      const current = await this.readFileWithEtag(path);
+      const content = update(current?.text ?? null);
 
-  async read(path: string): Promise<string> {
-    return RetryHelper.withRetry(async () => {
-      const url = this.buildUrl(path);
-      
-      const response = await this.s3.fetch(url, { method: 'GET' });
+      // Without an ETag there is nothing to condition on; last writer wins
+      const conditions: PutConditions | undefined = !current
+        ? { ifNoneMatch: '*' }
+        : current.etag ? { ifMatch: current.etag } : undefined;
 
-      if (response.status === 404) {
-        throw new Error(`File not found: ${path}`);
+      try {
+        const { etag } = await this.writeFile(path, content, mimeType, conditions);
+        return { content, etag, attempts: attempt };
+      } catch (error) {
+        if (!(error instanceof WorkspaceConflictError) || attempt >= maxAttempts) {
+          throw error;
+        }
+        // Jittered backoff so racing writers don't collide again in lockstep
+        const delay = Math.round(25 * attempt * (1 + Math.random()));
+        console.warn(`[Workspace] Conflict on ${path} (attempt ${attempt}), retrying in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
       }
+    }
+  }
 
-      await this.handleResponse(response, `read(${path})`);
-      return await response.text();
-    }, { maxAttempts: 3 });
+  async readFileText(path: string): Promise<string> {
+    const bytes = await this.readFileBytes(path);
+    return new TextDecoder().decode(bytes);
   }
 
-  async readBytes(path: string): Promise<Uint8Array> {
-    return RetryHelper.withRetry(async () => {
-      const url = this.buildUrl(path);
-      
-      const response = await this.s3.fetch(url, { method: 'GET' });
+  /**
+   * Text plus the ETag it was read at, for a conditional writeFile().
+   * Returns null when the file does not exist.
+   */
+  async readFileWithEtag(path: string): Promise<{ text: string; etag?: string } | null> {
+    const object = await RetryHelper.withRetry(
+      () => this.backend.getWithEtag(this.getFullPath(path)),
+      { maxAttempts: 3 }
+    );
+    return object ? { text: new TextDecoder().decode(object.data), etag: object.etag } : null;
+  }
 
-      if (response.status === 404) {
-        throw new Error(`File not found: ${path}`);
-      }
+  async readFileBytes(path: string): Promise<Uint8Array> {
+    const bytes = await RetryHelper.withRetry(
+      () => this.backend.get(this.getFullPath(path)),
+      { maxAttempts: 3 }
+    );
 
-      await this.handleResponse(response, `readBytes(${path})`);
-      const buffer = await response.arrayBuffer();
-      return new Uint8Array(buffer);
-    }, { maxAttempts: 3 });
+    if (!bytes) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return bytes;
+  }
+
+  /**
+   * Stream a file's contents without buffering it in the Worker
+   */
+  async readFileStream(path: string): Promise<ReadableStream<Uint8Array>> {
+    const stream = await RetryHelper.withRetry(
+      () => this.backend.getStream(this.getFullPath(path)),
+      { maxAttempts: 3 }
+    );
+
+    if (!stream) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return stream;
   }
 
   async exists(path: string): Promise<'file' | 'directory' | false> {
-    // Try as file first (HEAD request)
+    // Try as file first
     try {
-      const url = this.buildUrl(path);
-      const response = await this.s3.fetch(url, { method: 'HEAD' });
-      
-      if (response.ok) {
+      if (await this.backend.head(this.getFullPath(path))) {
         return 'file';
       }
     } catch {
       // Not a file
     }
 
-    // Try as directory (list with prefix)
+    // Try as directory (anything under the prefix, including its marker)
     try {
-      const listing = await this.ls(path);
-      if (listing.files.length > 0 || listing.directories.length > 0) {
+      const listing = await this.backend.list(this.getDirectoryPrefix(path), { delimiter: true });
+      if (listing.objects.length > 0 || listing.prefixes.length > 0) {
         return 'directory';
       }
     } catch {
@@ -433,27 +365,19 @@ class WorkspaceImpl {
 
   async unlink(path: string): Promise<void> {
     return RetryHelper.withRetry(async () => {
-      const url = this.buildUrl(path);
-      
-      const response = await this.s3.fetch(url, { method: 'DELETE' });
-      await this.handleResponse(response, `unlink(${path})`);
+      // A trailing slash addresses a directory marker
+      const key = path.endsWith('/') ? this.getDirectoryPrefix(path) : this.getFullPath(path);
+      await this.backend.delete(key);
       
-      console.log(`[B2Workspace] ✅ Deleted: ${path}`);
+      console.log(`[Workspace] ✅ Deleted: ${path}`);
     }, { maxAttempts: 2 }); // Fewer retries for DELETE
   }
 
-  async append(path: string, content: string): Promise<void> {
-    let existing = '';
-    
-    try {
-      existing = await this.read(path);
-    } catch (error: any) {
-      if (!error.message.includes('not found')) {
-        throw error;
-      }
-    }
-    
-    await this.write(path, existing + content);
+  /**
+   * Conditional read-modify-write, so concurrent appends are not lost
+   */
+  async appendFile(path: string, content: string): Promise<void> {
+    await this.updateFile(path, existing => (existing ?? '') + content);
   }
 
   async mkdir(path: string): Promise<void> {
@@ -462,156 +386,164 @@ class WorkspaceImpl {
     }
 
     return RetryHelper.withRetry(async () => {
-      const dirPath = path.endsWith('/') ? path : `${path}/`;
-      const url = this.buildUrl(dirPath);
-      
-      const response = await this.s3.fetch(url, {
-        method: 'PUT',
-        body: new Uint8Array(0),
-        headers: {
-          'Content-Length': '0',
-          'Content-Type': 'application/x-directory'
-        }
-      });
-
-      await this.handleResponse(response, `mkdir(${path})`);
-      console.log(`[B2Workspace] ✅ Created directory: ${path}`);
+      await this.backend.put(this.getDirectoryPrefix(path), new Uint8Array(0), 'application/x-directory');
+      console.log(`[Workspace] ✅ Created directory: ${path}`);
     }, { maxAttempts: 3 });
   }
 
-  async ls(path: string = ''): Promise<ListResult> {
+  async readdir(path: string = ''): Promise<ListResult> {
     return RetryHelper.withRetry(async () => {
-      const prefix = this.getFullPath(path);
-      const prefixWithSlash = prefix && !prefix.endsWith('/') ? `${prefix}/` : prefix;
-      
-      const baseUrl = `${this.config.endpoint}/${this.config.bucket}`;
-      const params = new URLSearchParams({
-        'list-type': '2',
-        'delimiter': '/',
-        'prefix': prefixWithSlash,
-        'max-keys': '1000' // B2 supports up to 1000
-      });
-      
-      const url = `${baseUrl}?${params.toString()}`;
-      
-      const response = await this.s3.fetch(url, { method: 'GET' });
-      await this.handleResponse(response, `ls(${path})`);
-      
-      const xml = await response.text();
-      const parsed = SimpleXMLParser.parseListObjectsV2(xml);
+      const prefix = this.getDirectoryPrefix(path);
+      const listing = await this.backend.list(prefix, { delimiter: true });
 
       const directories: string[] = [];
-      const files: Array<{ name: string; size: number; modified: Date; etag?: string }> = [];
+      const files: ListResult['files'] = [];
 
-      // Process common prefixes (directories)
-      for (const prefix of parsed.commonPrefixes) {
-        let dirName = prefix.slice(prefixWithSlash.length);
-        if (dirName.endsWith('/')) {
-          dirName = dirName.slice(0, -1);
-        }
+      // Common prefixes are directories
+      for (const dirPrefix of listing.prefixes) {
+        const dirName = dirPrefix.slice(prefix.length).replace(/\/$/, '');
         if (dirName) {
           directories.push(dirName);
         }
       }
 
-      // Process contents (files)
-      for (const item of parsed.contents) {
-        const fileName = item.key.slice(prefixWithSlash.length);
+      // Skip directory markers
+      for (const item of listing.objects) {
+        const fileName = item.key.slice(prefix.length);
         
         if (fileName && !fileName.endsWith('/')) {
           files.push({
             name: fileName,
             size: item.size,
-            modified: new Date(item.lastModified),
+            modified: item.modified,
             etag: item.etag
           });
         }
       }
 
-      console.log(`[B2Workspace] ✅ Listed: ${directories.length} dirs, ${files.length} files`);
+      console.log(`[Workspace] ✅ Listed: ${directories.length} dirs, ${files.length} files`);
       return { directories, files };
     }, { maxAttempts: 3 });
   }
 
-  async rm(path: string): Promise<void> {
-    if (!path.trim()) {
-      throw new Error('Cannot delete workspace root');
+  /**
+   * Every file below a directory, recursively, with paths relative to it.
+   * includeDirectories also returns directory markers (names ending in '/').
+   */
+  async listFiles(path: string = '', options: { includeDirectories?: boolean } = {}): Promise<ListResult['files']> {
+    const prefix = this.getDirectoryPrefix(path);
+    const listing = await RetryHelper.withRetry(
+      () => this.backend.list(prefix),
+      { maxAttempts: 3 }
+    );
+
+    return listing.objects
+      .map(item => ({
+        name: item.key.slice(prefix.length),
+        size: item.size,
+        modified: item.modified,
+        etag: item.etag
+      }))
+      .filter(file => file.name && (options.includeDirectories || !file.name.endsWith('/')));
+  }
+
+  /**
+   * Copy a file, or a directory with everything below it, using the
+   * backend's server-side copy. Returns the number of objects copied.
+   */
+  async copy(from: string, to: string): Promise<number> {
+    const { copied } = await this.copyObjects(from, to);
+    return copied.length;
+  }
+
+  /**
+   * Copy then delete the source (files or directories)
+   */
+  async move(from: string, to: string): Promise<number> {
+    const { copied } = await this.copyObjects(from, to);
+
+    await RetryHelper.withRetry(() => this.backend.deleteMany(copied), { maxAttempts: 2 });
+    console.log(`[Workspace] ✅ Moved: ${from} -> ${to} (${copied.length} objects)`);
+    return copied.length;
+  }
+
+  /**
+   * Rename within the same parent directory
+   */
+  async rename(path: string, newName: string): Promise<string> {
+    if (!newName || newName.includes('/') || newName === '.' || newName === '..') {
+      throw new Error(`Invalid name: ${newName}`);
     }
 
-    const prefix = this.getFullPath(path);
-    const prefixWithSlash = prefix.endsWith('/') ? prefix : `${prefix}/`;
+    const sanitized = this.sanitizePath(path);
+    const slash = sanitized.lastIndexOf('/');
+    const destination = slash === -1 ? newName : `${sanitized.slice(0, slash)}/${newName}`;
 
-    console.log(`[B2Workspace] Recursively deleting: ${path}`);
+    await this.move(sanitized, destination);
+    return destination;
+  }
 
-    let continuationToken: string | undefined;
-    const keysToDelete: string[] = [];
+  /**
+   * Shared by copy/move; returns the source keys that were copied
+   */
+  private async copyObjects(from: string, to: string): Promise<{ copied: string[] }> {
+    const source = this.sanitizePath(from);
+    const destination = this.sanitizePath(to);
 
-    // List all objects with prefix
-    do {
-      const baseUrl = `${this.config.endpoint}/${this.config.bucket}`;
-      const params = new URLSearchParams({
-        'list-type': '2',
-        'prefix': prefixWithSlash
-      });
-      
-      if (continuationToken) {
-        params.set('continuation-token', continuationToken);
-      }
+    if (!source) throw new Error('Cannot copy workspace root');
+    if (!destination) throw new Error('Destination cannot be the workspace root');
+    if (source === destination) throw new Error(`Source and destination are the same: ${from}`);
 
-      const listUrl = `${baseUrl}?${params.toString()}`;
-      const response = await this.s3.fetch(listUrl, { method: 'GET' });
-      await this.handleResponse(response, `rm-list(${path})`);
+    const kind = await this.exists(source);
+    if (!kind) throw new Error(`File not found: ${from}`);
 
-      const xml = await response.text();
-      const parsed = SimpleXMLParser.parseListObjectsV2(xml);
+    if (kind === 'file') {
+      const sourceKey = this.getFullPath(source);
+      await RetryHelper.withRetry(
+        () => this.backend.copy(sourceKey, this.getFullPath(destination)),
+        { maxAttempts: 3 }
+      );
+      console.log(`[Workspace] ✅ Copied: ${from} -> ${to}`);
+      return { copied: [sourceKey] };
+    }
 
-      keysToDelete.push(...parsed.contents.map(c => c.key));
-      
-      if (!parsed.isTruncated) break;
-      continuationToken = parsed.nextContinuationToken;
-      
-    } while (continuationToken);
+    if (`${destination}/`.startsWith(`${source}/`)) {
+      throw new Error(`Cannot copy a directory into itself: ${from} -> ${to}`);
+    }
 
-    // Delete in batches
-    const batchSize = 1000;
-    for (let i = 0; i < keysToDelete.length; i += batchSize) {
-      const batch = keysToDelete.slice(i, i + batchSize);
-      await this.deleteBatch(batch);
+    // Directory: copy every key under the prefix, markers included
+    const sourcePrefix = this.getDirectoryPrefix(source);
+    const destinationPrefix = this.getDirectoryPrefix(destination);
+    const listing = await RetryHelper.withRetry(
+      () => this.backend.list(sourcePrefix),
+      { maxAttempts: 3 }
+    );
+
+    for (const object of listing.objects) {
+      const target = destinationPrefix + object.key.slice(sourcePrefix.length);
+      await RetryHelper.withRetry(() => this.backend.copy(object.key, target), { maxAttempts: 3 });
     }
 
-    console.log(`[B2Workspace] ✅ Deleted ${keysToDelete.length} objects from ${path}`);
+    console.log(`[Workspace] ✅ Copied directory: ${from} -> ${to} (${listing.objects.length} objects)`);
+    return { copied: listing.objects.map(o => o.key) };
   }
 
-  private async deleteBatch(keys: string[]): Promise<void> {
-    if (keys.length === 0) return;
+  async rm(path: string): Promise<void> {
+    if (!this.sanitizePath(path)) {
+      throw new Error('Cannot delete workspace root');
+    }
 
-    const deleteXml = [
-      '<Delete>',
-      ...keys.map(key => `<Object><Key>${this.escapeXml(key)}</Key></Object>`),
-      '<Quiet>true</Quiet>',
-      '</Delete>'
-    ].join('');
+    const prefix = this.getDirectoryPrefix(path);
+    console.log(`[Workspace] Recursively deleting: ${path}`);
 
-    const url = `${this.config.endpoint}/${this.config.bucket}?delete`;
-    
-    const response = await this.s3.fetch(url, {
-      method: 'POST',
-      body: deleteXml,
-      headers: {
-        'Content-Type': 'application/xml'
-      }
-    });
+    const listing = await RetryHelper.withRetry(
+      () => this.backend.list(prefix),
+      { maxAttempts: 3 }
+    );
+    const keys = listing.objects.map(o => o.key);
 
-    await this.handleResponse(response, 'deleteBatch');
-  }
-
-  private escapeXml(text: string): string {
-    return text
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&apos;');
+    await this.backend.deleteMany(keys);
+    console.log(`[Workspace] ✅ Deleted ${keys.length} objects from ${path}`);
   }
 
   async createDirectoryStructure(base: string, dirs: string[]): Promise<void> {
@@ -620,8 +552,13 @@ class WorkspaceImpl {
     }
   }
 
-  getConfig(): B2Config {
-    return { ...this.config };
+  getConfig(): WorkspaceConfig {
+    return {
+      ...this.backend.describe(),
+      backend: this.backend.kind,
+      basePath: this.basePath,
+      tenant: this.tenant
+    };
   }
 }
 
@@ -630,42 +567,97 @@ class WorkspaceImpl {
 // =============================================================
 
 class WorkspaceClass {
-  private static instance: WorkspaceImpl | null = null;
-
-  static initialize(env: Env): void {
-    if (!this.instance) {
-      this.instance = new WorkspaceImpl(env);
-      console.log('[B2Workspace] Singleton initialized');
+  private static backend: WorkspaceBackend | null = null;
+  private static basePath: string | undefined;
+  private static instance: ScopedWorkspace | null = null;
+
+  /**
+   * Select the backend from configuration (see backends/index.ts).
+   * Pass a backend explicitly to override, e.g. MemoryBackend in tests.
+   */
+  static initialize(env: Env, backend?: WorkspaceBackend): void {
+    if (this.instance && !backend) return;
+
+    if (!backend) {
+      const kind = resolveBackendKind(env);
+      if (!kind) {
+        throw new Error('No workspace backend configured (set WORKSPACE_BACKEND, an R2 binding, or S3 credentials)');
+      }
+      backend = createWorkspaceBackend(env, kind);
     }
+
+    this.backend = backend;
+    this.basePath = env.WORKSPACE_BASE_PATH ?? env.B2_BASE_PATH;
+    this.instance = new ScopedWorkspace(backend, this.basePath);
+
+    console.log('[Workspace] Singleton initialized:', {
+      backend: backend.kind,
+      ...backend.describe(),
+      basePath: this.basePath || '(root)'
+    });
   }
 
   static isInitialized(): boolean {
     return this.instance !== null;
   }
 
+  static reset(): void {
+    this.backend = null;
+    this.instance = null;
+  }
+
+  /**
+   * Handle confined to a user's or session's tenant prefix. The static
+   * methods below operate on the unscoped root (diagnostics, admin use).
+   */
+  static forScope(scope: WorkspaceScope): ScopedWorkspace {
+    if (!this.backend) throw new Error('Workspace not initialized');
+    return new ScopedWorkspace(this.backend, this.basePath, tenantPrefixFor(scope));
+  }
+
   static async readdir(path: string) {
     if (!this.instance) throw new Error('Workspace not initialized');
-    return this.instance.ls(path);
+    return this.instance.readdir(path);
   }
 
   static async readFileText(path: string) {
     if (!this.instance) throw new Error('Workspace not initialized');
-    return this.instance.read(path);
+    return this.instance.readFileText(path);
   }
 
   static async readFileBytes(path: string) {
     if (!this.instance) throw new Error('Workspace not initialized');
-    return this.instance.readBytes(path);
+    return this.instance.readFileBytes(path);
+  }
+
+  static async readFileStream(path: string) {
+    if (!this.instance) throw new Error('Workspace not initialized');
+    return this.instance.readFileStream(path);
   }
 
-  static async writeFile(path: string, content: string | Uint8Array, mimeType?: string) {
+  static async writeFile(
+    path: string,
+    content: string | Uint8Array | ReadableStream<Uint8Array>,
+    mimeType?: string,
+    conditions?: PutConditions
+  ) {
     if (!this.instance) throw new Error('Workspace not initialized');
-    return this.instance.write(path, content, mimeType);
+    return this.instance.writeFile(path, content, mimeType, conditions);
+  }
+
+  static async readFileWithEtag(path: string) {
+    if (!this.instance) throw new Error('Workspace not initialized');
+    return this.instance.readFileWithEtag(path);
+  }
+
+  static async updateFile(path: string, update: (current: string | null) => string, options?: UpdateFileOptions) {
+    if (!this.instance) throw new Error('Workspace not initialized');
+    return this.instance.updateFile(path, update, options);
   }
 
   static async appendFile(path: string, content: string) {
     if (!this.instance) throw new Error('Workspace not initialized');
-    return this.instance.append(path, content);
+    return this.instance.appendFile(path, content);
   }
 
   static async unlink(path: string) {
@@ -683,6 +675,21 @@ class WorkspaceClass {
     return this.instance.exists(path);
   }
 
+  static async copy(from: string, to: string) {
+    if (!this.instance) throw new Error('Workspace not initialized');
+    return this.instance.copy(from, to);
+  }
+
+  static async move(from: string, to: string) {
+    if (!this.instance) throw new Error('Workspace not initialized');
+    return this.instance.move(from, to);
+  }
+
+  static async rename(path: string, newName: string) {
+    if (!this.instance) throw new Error('Workspace not initialized');
+    return this.instance.rename(path, newName);
+  }
+
   static async rm(path: string) {
     if (!this.instance) throw new Error('Workspace not initialized');
     return this.instance.rm(path);
@@ -693,7 +700,7 @@ class WorkspaceClass {
     return this.instance.createDirectoryStructure(base, dirs);
   }
 
-  static getConfig(): B2Config {
+  static getConfig(): WorkspaceConfig {
     if (!this.instance) throw new Error('Workspace not initialized');
     return this.instance.getConfig();
   }
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { mapWithConcurrency, mapWithKeyedSerialization } from '../src/core/concurrency';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+
+describe('mapWithConcurrency', () => {
+  it('keeps input order and never exceeds the limit', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([5, 1, 4, 2, 3], 2, async (n, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      for (let i = 0; i < n; i++) await tick();
+      running--;
+      return `${index}:${n}`;
+    });
+
+    expect(results).toEqual(['0:5', '1:1', '2:4', '3:2', '4:3']);
+    expect(peak).toBe(2);
+  });
+});
+
+describe('mapWithKeyedSerialization', () => {
+  it('runs items sharing a key one after another, in order', async () => {
+    const items = [
+      { key: 'a', id: 1 },
+      { key: 'b', id: 2 },
+      { key: 'a', id: 3 },
+      { key: null, id: 4 },
+      { key: 'a', id: 5 }
+    ];
+    const active = new Set<string>();
+    const started: number[] = [];
+    let overlapped = false;
+
+    const results = await mapWithKeyedSerialization(items, 4, item => item.key, async item => {
+      if (item.key) {
+        if (active.has(item.key)) overlapped = true;
+        active.add(item.key);
+      }
+      started.push(item.id);
+      await tick();
+      if (item.key) active.delete(item.key);
+      return item.id * 10;
+    });
+
+    expect(overlapped).toBe(false);
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+    expect(started.filter(id => [1, 3, 5].includes(id))).toEqual([1, 3, 5]);
+  });
+
+  it('runs different keys concurrently', async () => {
+    let running = 0;
+    let peak = 0;
+    await mapWithKeyedSerialization(['a', 'b', 'c'], 3, key => key, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await tick();
+      running--;
+    });
+    expect(peak).toBe(3);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, splitLines, unifiedDiff } from '../src/workspace/diff';
+
+describe('splitLines', () => {
+  it('does not count a trailing newline as a line', () => {
+    expect(splitLines('')).toEqual([]);
+    expect(splitLines('a\nb\n')).toEqual(['a', 'b']);
+    expect(splitLines('a\n\n')).toEqual(['a', '']);
+  });
+});
+
+describe('diffLines', () => {
+  it('produces a minimal edit script', () => {
+    expect(diffLines(['a', 'b', 'c'], ['a', 'x', 'c'])).toEqual([
+      { type: 'equal', line: 'a' },
+      { type: 'delete', line: 'b' },
+      { type: 'insert', line: 'x' },
+      { type: 'equal', line: 'c' }
+    ]);
+  });
+});
+
+describe('unifiedDiff', () => {
+  it('is empty for identical texts', () => {
+    expect(unifiedDiff('a\nb\n', 'a\nb\n')).toBe('');
+  });
+
+  it('formats a single hunk with labels and line ranges', () => {
+    const diff = unifiedDiff('one\ntwo\nthree\n', 'one\n2\nthree\nfour\n', { fromLabel: 'a/f.txt', toLabel: 'b/f.txt' });
+    expect(diff).toBe([
+      '--- a/f.txt',
+      '+++ b/f.txt',
+      '@@ -1,3 +1,4 @@',
+      ' one',
+      '-two',
+      '+2',
+      ' three',
+      '+four'
+    ].join('\n') + '\n');
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const after = [...before];
+    after[1] = 'changed 2';
+    after[17] = 'changed 18';
+
+    const diff = unifiedDiff(before.join('\n'), after.join('\n'));
+    const headers = diff.split('\n').filter(line => line.startsWith('@@'));
+    expect(headers).toEqual(['@@ -1,5 +1,5 @@', '@@ -15,6 +15,6 @@']);
+  });
+
+  it('handles files created from nothing', () => {
+    expect(unifiedDiff('', 'new\n')).toBe('--- a\n+++ b\n@@ -0,0 +1,1 @@\n+new\n');
+  });
+});
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MemoryBackend } from '../src/workspace/backends/memory-backend';
+import { acquireLease, readLease, releaseLease } from '../src/workspace/lease';
+import { ScopedWorkspace } from '../src/workspace/workspace';
+
+const LEASE = 'tasks/t1/.lease.json';
+
+describe('leases', () => {
+  let workspace: ScopedWorkspace;
+
+  beforeEach(() => {
+    workspace = new ScopedWorkspace(new MemoryBackend(), '', 'users/u/');
+  });
+
+  it('acquires a free lease and reports the holder to others', async () => {
+    const first = await acquireLease(workspace, LEASE, 'alice', 60000);
+    expect(first.acquired).toBe(true);
+
+    const second = await acquireLease(workspace, LEASE, 'bob', 60000);
+    expect(second).toMatchObject({ acquired: false, holder: { owner: 'alice' } });
+    expect(await readLease(workspace, LEASE)).toMatchObject({ owner: 'alice' });
+  });
+
+  it('renews with the holder token, keeping acquiredAt', async () => {
+    const first = await acquireLease(workspace, LEASE, 'alice', 1000);
+    if (!first.acquired) throw new Error('expected lease');
+
+    const renewed = await acquireLease(workspace, LEASE, 'alice', 60000, first.lease.token);
+    if (!renewed.acquired) throw new Error('expected renewal');
+    expect(renewed.lease.token).toBe(first.lease.token);
+    expect(renewed.lease.acquiredAt).toBe(first.lease.acquiredAt);
+    expect(renewed.lease.expiresAt).toBeGreaterThan(first.lease.expiresAt);
+  });
+
+  it('does not renew with someone else\'s token', async () => {
+    await acquireLease(workspace, LEASE, 'alice', 60000);
+    const result = await acquireLease(workspace, LEASE, 'bob', 60000, 'not-the-token');
+    expect(result.acquired).toBe(false);
+  });
+
+  it('lets anyone take an expired lease', async () => {
+    await acquireLease(workspace, LEASE, 'alice', -1);
+    expect(await readLease(workspace, LEASE)).toBeNull();
+
+    const result = await acquireLease(workspace, LEASE, 'bob', 60000);
+    expect(result).toMatchObject({ acquired: true, lease: { owner: 'bob' } });
+  });
+
+  it('releases only with the holder token', async () => {
+    const first = await acquireLease(workspace, LEASE, 'alice', 60000);
+    if (!first.acquired) throw new Error('expected lease');
+
+    expect(await releaseLease(workspace, LEASE, 'wrong')).toBe(false);
+    expect(await readLease(workspace, LEASE)).not.toBeNull();
+
+    expect(await releaseLease(workspace, LEASE, first.lease.token)).toBe(true);
+    expect(await readLease(workspace, LEASE)).toBeNull();
+    expect((await acquireLease(workspace, LEASE, 'bob', 60000)).acquired).toBe(true);
+  });
+
+  it('gives exactly one of two racing callers the lease', async () => {
+    const results = await Promise.all([
+      acquireLease(workspace, LEASE, 'alice', 60000),
+      acquireLease(workspace, LEASE, 'bob', 60000)
+    ]);
+    expect(results.filter(r => r.acquired)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { jsonSchemaToZod } from '../src/workers/output-schema';
+
+describe('jsonSchemaToZod', () => {
+  const schema = jsonSchemaToZod({
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      price: { type: 'number', minimum: 0 },
+      tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+      status: { enum: ['open', 'closed'] },
+      note: { type: ['string', 'null'] }
+    },
+    required: ['name', 'price']
+  });
+
+  it('accepts a matching value and keeps extra keys', () => {
+    const value = { name: 'x', price: 2, tags: ['a'], status: 'open', note: null, extra: true };
+    expect(schema.parse(value)).toEqual(value);
+  });
+
+  it('treats properties outside required as optional', () => {
+    expect(schema.safeParse({ name: 'x', price: 0 }).success).toBe(true);
+  });
+
+  it.each<[object, string]>([
+    [{ price: 1 }, 'missing required key'],
+    [{ name: '', price: 1 }, 'minLength'],
+    [{ name: 'x', price: -1 }, 'minimum'],
+    [{ name: 'x', price: '1' }, 'wrong type'],
+    [{ name: 'x', price: 1, tags: ['a', 'b', 'c'] }, 'maxItems'],
+    [{ name: 'x', price: 1, status: 'pending' }, 'enum']
+  ])('rejects %j (%s)', value => {
+    expect(schema.safeParse(value).success).toBe(false);
+  });
+
+  it('rejects extra keys when additionalProperties is false', () => {
+    const strict = jsonSchemaToZod({
+      type: 'object',
+      properties: { a: { type: 'integer' } },
+      required: ['a'],
+      additionalProperties: false
+    });
+    expect(strict.safeParse({ a: 1 }).success).toBe(true);
+    expect(strict.safeParse({ a: 1, b: 2 }).success).toBe(false);
+    expect(strict.safeParse({ a: 1.5 }).success).toBe(false);
+  });
+
+  it('supports anyOf and const', () => {
+    const union = jsonSchemaToZod({ anyOf: [{ const: 'none' }, { type: 'number' }] });
+    expect(union.safeParse('none').success).toBe(true);
+    expect(union.safeParse(3).success).toBe(true);
+    expect(union.safeParse('some').success).toBe(false);
+  });
+});
@@ -0,0 +1,35 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MemoryBackend } from '../src/workspace/backends/memory-backend';
+import { discardPendingReview, readPendingReview, savePendingReview } from '../src/workspace/reviews';
+import { ScopedWorkspace } from '../src/workspace/workspace';
+
+const TASK = 'tasks/t1';
+
+describe('pending reviews', () => {
+  let workspace: ScopedWorkspace;
+
+  beforeEach(() => {
+    workspace = new ScopedWorkspace(new MemoryBackend(), '', 'users/u/');
+  });
+
+  it('stores a review under an id until it is discarded', async () => {
+    const id = await savePendingReview(workspace, TASK, 2, { verdict: 'fail', score: 4 });
+
+    expect(await readPendingReview(workspace, TASK, id)).toMatchObject({ id, stepNumber: 2, result: { verdict: 'fail', score: 4 } });
+    expect(await readPendingReview(workspace, TASK, 'review_made_up')).toBeNull();
+
+    await discardPendingReview(workspace, TASK, id);
+    expect(await readPendingReview(workspace, TASK, id)).toBeNull();
+  });
+
+  it('drops the oldest reviews past the cap', async () => {
+    const first = await savePendingReview(workspace, TASK, 1, { verdict: 'pass', score: 9 });
+    let last = first;
+    for (let i = 0; i < 20; i++) {
+      last = await savePendingReview(workspace, TASK, 1, { verdict: 'pass', score: 9 });
+    }
+
+    expect(await readPendingReview(workspace, TASK, first)).toBeNull();
+    expect(await readPendingReview(workspace, TASK, last)).not.toBeNull();
+  });
+});
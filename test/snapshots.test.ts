@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MemoryBackend } from '../src/workspace/backends/memory-backend';
+import { acquireLease, LeaseHeldError, TASK_LEASE_FILE } from '../src/workspace/lease';
+import { SnapshotManager } from '../src/workspace/snapshots';
+import { ArtifactVersions } from '../src/workspace/versions';
+import { ScopedWorkspace } from '../src/workspace/workspace';
+
+const TASK = 'tasks/t1';
+
+describe('SnapshotManager', () => {
+  let workspace: ScopedWorkspace;
+  let snapshots: SnapshotManager;
+
+  beforeEach(async () => {
+    workspace = new ScopedWorkspace(new MemoryBackend(), '', 'users/u/');
+    snapshots = new SnapshotManager(workspace, TASK);
+    await workspace.writeFile(`${TASK}/notes.md`, 'one\ntwo\n', 'text/markdown');
+    await workspace.writeFile(`${TASK}/data/a.json`, '{"a":1}', 'application/json');
+  });
+
+  it('restores a snapshot round-trip and backs up the replaced state', async () => {
+    const snapshot = await snapshots.create({ label: 'start' });
+    expect(snapshot.files.map(f => f.path)).toEqual(['data/a.json', 'notes.md']);
+
+    await workspace.writeFile(`${TASK}/notes.md`, 'one\n2\n', 'text/markdown');
+    await workspace.writeFile(`${TASK}/extra.txt`, 'new', 'text/plain');
+    await workspace.unlink(`${TASK}/data/a.json`);
+
+    const diff = await snapshots.diff(snapshot.id);
+    expect(diff.added.map(c => c.path)).toEqual(['extra.txt']);
+    expect(diff.removed.map(c => c.path)).toEqual(['data/a.json']);
+    expect(diff.modified.map(c => c.path)).toEqual(['notes.md']);
+    expect(diff.modified[0].diff).toContain('-two\n+2\n');
+
+    const result = await snapshots.restore(snapshot.id);
+    expect(result.restored.sort()).toEqual(['data/a.json', 'notes.md']);
+    expect(result.removed).toEqual(['extra.txt']);
+    expect(await workspace.readFileText(`${TASK}/notes.md`)).toBe('one\ntwo\n');
+    expect(await workspace.readFileText(`${TASK}/data/a.json`)).toBe('{"a":1}');
+    expect(await workspace.exists(`${TASK}/extra.txt`)).toBeFalsy();
+
+    const undo = await snapshots.diff(result.backupId, snapshot.id);
+    expect(undo.added.map(c => c.path)).toEqual(['data/a.json']);
+    expect(undo.removed.map(c => c.path)).toEqual(['extra.txt']);
+
+    const listed = await snapshots.list();
+    expect(listed.map(s => s.reason).sort()).toEqual(['manual', 'pre-restore']);
+  });
+
+  it('keeps files the snapshot lacked when prune is off', async () => {
+    const snapshot = await snapshots.create();
+    await workspace.writeFile(`${TASK}/extra.txt`, 'new', 'text/plain');
+
+    const result = await snapshots.restore(snapshot.id, { prune: false });
+    expect(result.removed).toEqual([]);
+    expect(result.unchanged).toBe(2);
+    expect(await workspace.readFileText(`${TASK}/extra.txt`)).toBe('new');
+  });
+
+  it('records restored artifacts as new versions', async () => {
+    const versions = new ArtifactVersions(workspace, TASK);
+    await versions.write('report.md', 'draft\n');
+    const snapshot = await snapshots.create();
+    await versions.write('report.md', 'final\n');
+
+    await snapshots.restore(snapshot.id);
+    expect(await workspace.readFileText(`${TASK}/artifacts/report.md`)).toBe('draft\n');
+
+    const history = await versions.history('report.md');
+    expect(history).toHaveLength(3);
+    expect(history[2]).toMatchObject({ sha256: history[0].sha256, note: `Restored from ${snapshot.id}` });
+  });
+
+  it('refuses to restore while another holder has the task lease', async () => {
+    const snapshot = await snapshots.create();
+    const lease = await acquireLease(workspace, `${TASK}/${TASK_LEASE_FILE}`, 'worker', 60000);
+    if (!lease.acquired) throw new Error('expected lease');
+
+    await expect(snapshots.restore(snapshot.id)).rejects.toBeInstanceOf(LeaseHeldError);
+    await expect(snapshots.restore(snapshot.id, { leaseToken: lease.lease.token })).resolves.toMatchObject({ snapshotId: snapshot.id });
+  });
+});
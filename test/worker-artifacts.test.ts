@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import type { Artifact } from '../src/types';
+import { artifactFilename } from '../src/workspace/worker-artifacts';
+
+function codeArtifact(content: string): Artifact {
+  return { id: 'a1', type: 'code', title: 'Code', content, createdAt: 0, metadata: { language: 'python' } };
+}
+
+describe('artifactFilename', () => {
+  it('names unhinted artifacts by step, worker, variant and index', () => {
+    const artifact = codeArtifact('print(1)');
+    expect(artifactFilename(artifact, 2, { workerType: 'code', stepNumber: 3 })).toBe('step-3-code-2.py');
+    expect(artifactFilename(artifact, 2, { workerType: 'code', stepNumber: 3, variant: 'w2' })).toBe('step-3-code-w2-2.py');
+  });
+
+  it('uses a first-line filename hint, suffixed with the variant', () => {
+    const artifact = codeArtifact('# file: clean_data.py\nprint(1)');
+    expect(artifactFilename(artifact, 1, { workerType: 'code' })).toBe('clean_data.py');
+    expect(artifactFilename(artifact, 1, { workerType: 'code', variant: 'w2' })).toBe('clean_data-w2.py');
+  });
+
+  it('keeps inner dots of hinted names', () => {
+    const artifact = codeArtifact('<!-- filename: report.v1.html -->');
+    expect(artifactFilename(artifact, 1, { workerType: 'code', variant: 'w3' })).toBe('report.v1-w3.html');
+  });
+});
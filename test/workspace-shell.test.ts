@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MemoryBackend } from '../src/workspace/backends/memory-backend';
+import { WorkspaceShell } from '../src/workspace/shell';
+import { ScopedWorkspace } from '../src/workspace/workspace';
+
+describe('WorkspaceShell', () => {
+  let workspace: ScopedWorkspace;
+  let shell: WorkspaceShell;
+
+  beforeEach(() => {
+    workspace = new ScopedWorkspace(new MemoryBackend(), '', 'users/u/');
+    shell = new WorkspaceShell(workspace);
+  });
+
+  describe('tokenizer', () => {
+    it('keeps quoted text as one word', async () => {
+      const result = await shell.exec(`echo 'a  b' "c | d" e\\ f`);
+      expect(result.stdout).toBe('a  b c | d e f\n');
+    });
+
+    it('joins adjacent quoted and unquoted runs', async () => {
+      const result = await shell.exec(`echo pre'fix'"-"post`);
+      expect(result.stdout).toBe('prefix-post\n');
+    });
+
+    it('unescapes only \\" \\\\ and \\$ inside double quotes', async () => {
+      const result = await shell.exec(`echo "say \\"hi\\" \\$x \\n"`);
+      expect(result.stdout).toBe('say "hi" $x \\n\n');
+    });
+
+    it('does not expand globs inside quotes', async () => {
+      await workspace.writeFile('a.txt', 'x');
+      const result = await shell.exec(`echo '*.txt' *.txt`);
+      expect(result.stdout).toBe('*.txt a.txt\n');
+    });
+
+    it.each([
+      [`echo 'open`, 'Unterminated single quote'],
+      [`echo "open`, 'Unterminated double quote'],
+      ['echo a &', 'Background jobs (&) are not supported'],
+      ['cat < file', 'Unsupported syntax: <'],
+      ['echo $(pwd)', 'Unsupported syntax: command substitution'],
+      ['| echo a', 'Syntax error: missing command'],
+      ['echo a &&', 'Syntax error: command expected after &&'],
+      ['echo a >', 'Syntax error: expected file after >']
+    ])('rejects %s with exit code 2', async (line, message) => {
+      const result = await shell.exec(line);
+      expect(result.exitCode).toBe(2);
+      expect(result.stderr).toBe(`${message}\n`);
+    });
+  });
+
+  it('runs pipelines, redirects and && / || chains', async () => {
+    await shell.exec('echo b > list.txt; echo a >> list.txt; echo b >> list.txt');
+    expect(await workspace.readFileText('list.txt')).toBe('b\na\nb\n');
+
+    const sorted = await shell.exec('cat list.txt | sort | uniq');
+    expect(sorted.stdout).toBe('a\nb\n');
+
+    const chained = await shell.exec('false && echo skipped || echo ran');
+    expect(chained).toMatchObject({ exitCode: 0, stdout: 'ran\n' });
+  });
+
+  it('exits 127 for unknown commands', async () => {
+    const result = await shell.exec('curl example.com');
+    expect(result.exitCode).toBe(127);
+  });
+
+  it('reads but never writes in read-only mode', async () => {
+    await workspace.writeFile('tasks/t1/todo.json', '{}');
+    const readOnly = new WorkspaceShell(workspace, { readOnly: true });
+
+    expect((await readOnly.exec('cat tasks/t1/todo.json')).stdout).toBe('{}');
+    expect((await readOnly.exec('rm -r tasks')).exitCode).toBe(127);
+    expect((await readOnly.exec('echo x | tee tasks/t1/todo.json')).exitCode).toBe(127);
+
+    const redirected = await readOnly.exec('echo x > tasks/t1/todo.json');
+    expect(redirected.exitCode).toBe(1);
+    expect(redirected.stderr).toContain('read-only');
+    expect(await workspace.readFileText('tasks/t1/todo.json')).toBe('{}');
+  });
+});
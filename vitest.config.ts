@@ -0,0 +1,17 @@
+import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+
+// Tests run in workerd without wrangler.toml: its Vectorize, D1 and AI
+// bindings have no local equivalent, and the code under test needs none.
+export default defineWorkersConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    poolOptions: {
+      workers: {
+        miniflare: {
+          compatibilityDate: '2025-08-03',
+          compatibilityFlags: ['nodejs_compat']
+        }
+      }
+    }
+  }
+});